@@ -1,6 +1,10 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
+import { SimulationEngine } from '../src/utils/simulationEngine';
+import { defaultParams, type SimulationParams } from '../src/utils/trafficSimulation';
+import { summarizePlatoons } from '../src/utils/platoons';
+import type { SimulationEngineType } from '../src/utils/cellularAutomaton';
 
 interface SimulationConfig {
   duration: number;
@@ -15,6 +19,10 @@ interface SimulationConfig {
   sdReactionTime: number;
   maxAccel: number;
   maxDecel: number;
+  caccTimeGap?: number;
+  keepRightCompliance?: number;
+  engine?: SimulationEngineType;
+  caCellSize?: number;
 }
 
 interface ExperimentConfig {
@@ -56,18 +64,68 @@ class ExperimentRunner {
   }
 
   private runSimulation(params: Record<string, any>): SimulationResult {
-    // In a real implementation, this would run your simulation
-    // For now, we'll simulate some results
-    const density = params.density || 10;
-    const meanSpeed = params.meanSpeed || 100;
-    
-    // Simulate some metrics
+    // Map the experiment config onto the simulator's parameters
+    const simParams: SimulationParams = {
+      ...defaultParams,
+      trafficDensity: params.density ?? defaultParams.trafficDensity, // cars per km across all lanes
+      numLanes: params.numLanes ?? defaultParams.numLanes,
+      meanSpeed: params.meanSpeed ?? defaultParams.meanSpeed,
+      stdSpeed: params.sdSpeed ?? defaultParams.stdSpeed,
+      reactionTime: params.reactionTime ?? defaultParams.reactionTime,
+      sdReactionTime: params.sdReactionTime ?? defaultParams.sdReactionTime,
+      cavPenetration: params.cavPenetration ?? defaultParams.cavPenetration, // percent of connected vehicles
+      caccTimeGap: params.caccTimeGap ?? defaultParams.caccTimeGap,
+      keepRightCompliance: params.keepRightCompliance, // share of drivers keeping right (0-1); not modelled when unset
+      randomSlowdownProbability: params.randomSlowdownProbability ?? defaultParams.randomSlowdownProbability, // dawdling chance per second
+      engine: params.engine ?? defaultParams.engine, // continuous car-following or cellular automaton
+      caCellSize: params.caCellSize ?? defaultParams.caCellSize, // m
+      freewayLength: params.laneLength ? params.laneLength / 1000 : defaultParams.freewayLength, // m to km
+      simulationDuration: params.duration,
+      seed: params.seed,
+    };
+
+    const engine = new SimulationEngine(simParams);
+    const warmup = params.warmup || 0;
+    const sampleInterval = 1; // seconds
+    engine.runUntil(warmup);
+
+    // Sample flow measures once per simulated second after the warmup
+    const throughputs: number[] = [];
+    const speeds: number[] = [];
+    const densities: number[] = [];
+    const platoonShares: number[] = [];
+    const platoonSizes: number[] = [];
+    for (let t = warmup + sampleInterval; t <= params.duration; t += sampleInterval) {
+      engine.runUntil(t);
+      const { cars, laneLength } = engine.getState();
+      if (cars.length === 0) continue;
+
+      const avgSpeed = cars.reduce((sum, car) => sum + car.speed, 0) / cars.length;
+      const density = cars.length / laneLength;
+      speeds.push(avgSpeed);
+      densities.push(density);
+      throughputs.push(avgSpeed * density); // cars per hour across all lanes
+
+      const platoons = summarizePlatoons(cars);
+      platoonShares.push(platoons.share);
+      platoonSizes.push(platoons.meanSize);
+    }
+
+    const mean = (values: number[]) =>
+      values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+    const meanThroughput = mean(throughputs);
+    const throughputStd = Math.sqrt(mean(throughputs.map(value => Math.pow(value - meanThroughput, 2))));
+
     return {
       metrics: {
-        throughput: Math.min(density * meanSpeed, 2000), // Cap at 2000
-        avgSpeed: Math.max(10, meanSpeed - (density / 5)), // Decrease speed with density
-        density,
-        flowStability: Math.random() * 0.2 + 0.8 // 0.8-1.0
+        throughput: meanThroughput,
+        avgSpeed: mean(speeds),
+        density: mean(densities),
+        // 1 = perfectly steady flow, 0 = variation as large as the flow itself
+        flowStability: meanThroughput > 0 ? Math.max(0, 1 - throughputStd / meanThroughput) : 0,
+        // Fraction of vehicles driving in a CACC platoon, and vehicles per platoon
+        platoonShare: mean(platoonShares),
+        meanPlatoonSize: mean(platoonSizes)
       },
       params
     };
@@ -297,8 +355,9 @@ async function main() {
     const __filename = fileURLToPath(import.meta.url);
     const __dirname = path.dirname(__filename);
 
-    // Load config
-    const configPath = path.join(__dirname, 'config', 'fundamental_diagram.json');
+    // Load config: the experiment named on the command line, the fundamental diagram by default
+    const configName = process.argv[2] ?? 'fundamental_diagram';
+    const configPath = path.join(__dirname, 'config', `${configName}.json`);
     const config: Config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
 
     // Ensure output directories use forward slashes and are relative to the project root
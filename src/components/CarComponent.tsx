@@ -3,9 +3,11 @@ import React, { useRef, useEffect } from "react";
 import { Car } from "@/utils/trafficSimulation";
 import { cn } from "@/lib/utils";
 import { useMemo } from "react";
-import { Car as CarIcon, Truck, Bike, AlertCircle, Info } from "lucide-react";
+import { AlertCircle, Info } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { getVehicleClass, type VehicleClass } from "@/utils/vehicleClasses";
+import VehicleIconGlyph from "./VehicleIconGlyph";
 
 interface CarComponentProps {
   car: Car;
@@ -19,6 +21,7 @@ interface CarComponentProps {
   onStopCar?: (carId: number) => void;
   onResumeCar?: (carId: number) => void;
   carSize?: number;
+  vehicleClasses?: VehicleClass[];
 }
 
 const CarComponent: React.FC<CarComponentProps> = ({
@@ -33,7 +36,12 @@ const CarComponent: React.FC<CarComponentProps> = ({
   onStopCar,
   onResumeCar,
   carSize = 24,
+  vehicleClasses,
 }) => {
+  const vehicleClass = getVehicleClass(car.vehicleType, vehicleClasses);
+  // Each CACC platoon gets its own ring colour, spread around the hue circle
+  const platoonColor = car.platoonId !== undefined ? `hsl(${(car.platoonId * 137.5) % 360}, 80%, 50%)` : undefined;
+  const isPlatoonLead = car.platoonId === car.id;
   
   // Calculate position based on track type
   // Add a small vertical offset to position cars lower in their lanes
@@ -88,15 +96,19 @@ const CarComponent: React.FC<CarComponentProps> = ({
       );
     }
 
-    switch (car.vehicleType) {
-      case "truck":
-        return <Truck {...iconProps} />;
-      case "motorcycle":
-        return <Bike {...iconProps} />;
-      case "car":
-      default:
-        return <CarIcon {...iconProps} />;
-    }
+    const glyph = <VehicleIconGlyph icon={vehicleClass.icon} {...iconProps} />;
+    if (!platoonColor) return glyph;
+
+    // Platoon members are ringed: solid around the lead vehicle, dashed around followers
+    return (
+      <div className="relative">
+        <div
+          className={cn("absolute -inset-1 rounded-full border-2", isPlatoonLead ? "border-solid" : "border-dashed")}
+          style={{ borderColor: platoonColor }}
+        ></div>
+        {glyph}
+      </div>
+    );
   };
   
   return (
@@ -136,7 +148,7 @@ const CarComponent: React.FC<CarComponentProps> = ({
               <div className="flex items-center justify-between">
                 <h4 className="font-semibold text-yellow-300">{car.name}</h4>
                 <span className="text-xs px-2 py-0.5 bg-gray-700/50 rounded-full text-gray-300">
-                  {car.vehicleType}
+                  {vehicleClass.name}
                 </span>
               </div>
               
@@ -164,6 +176,14 @@ const CarComponent: React.FC<CarComponentProps> = ({
                     {isStopped ? 'Stopped' : 'Moving'}
                   </span>
                 </div>
+                {car.platoonId !== undefined && (
+                  <div className="col-span-2 flex items-center gap-2">
+                    <span className="text-gray-400">Platoon:</span>
+                    <span className="font-mono" style={{ color: platoonColor }}>
+                      {isPlatoonLead ? 'Lead vehicle' : `Following, led by Car ${car.platoonId + 1}`}
+                    </span>
+                  </div>
+                )}
               </div>
               
               <div className="mt-2 pt-2 border-t border-gray-800 text-xs text-amber-400/90 flex items-center gap-1.5">
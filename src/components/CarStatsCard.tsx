@@ -1,8 +1,10 @@
 
 import React from "react";
-import { Car, calculateDistanceToCarAhead, getCarColor } from "@/utils/trafficSimulation";
+import { Car, calculateDistancesToCarAhead, getCarColor } from "@/utils/trafficSimulation";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { UnitSystem, getUnitConversions } from "@/utils/unitConversion";
+import { getVehicleClass } from "@/utils/vehicleClasses";
+import { getDriverProfile } from "@/utils/driverProfiles";
 
 interface CarStatsCardProps {
   cars: Car[];
@@ -90,6 +92,12 @@ const identifyPacks = (cars: Car[]): { packs: PackInfo[], carPackMap: Record<num
 const CarStatsCard: React.FC<CarStatsCardProps> = ({ cars, laneLength, params, showPackInfo = true, unitSystem = 'imperial' }) => {
   const conversions = getUnitConversions(unitSystem);
   const { packs, carPackMap } = identifyPacks(cars);
+  const distancesToCarAhead = calculateDistancesToCarAhead(
+    cars,
+    laneLength,
+    undefined, // each leader's own length
+    params.roadTopology
+  );
   
   // Filter packs to only show those with more than 1 car
   const multiCarPacks = packs.filter(pack => pack.carCount > 1);
@@ -141,12 +149,7 @@ const CarStatsCard: React.FC<CarStatsCardProps> = ({ cars, laneLength, params, s
         <CardContent className="max-h-[400px] overflow-y-auto">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
             {cars.map((car, index) => {
-              const distanceToCarAhead = calculateDistanceToCarAhead(
-                index,
-                cars,
-                laneLength,
-                params.lengthCar // Pass the car length in meters
-              );
+              const distanceToCarAhead = distancesToCarAhead[index];
 
               const packId = carPackMap[car.id];
 
@@ -184,9 +187,13 @@ const CarStatsCard: React.FC<CarStatsCardProps> = ({ cars, laneLength, params, s
                        <span className="font-medium ml-1">{Math.round(conversions.speed.toDisplay(car.speed))} {conversions.speed.unit}</span>
                      </div>
                      <div className="col-span-2 grid grid-cols-2 gap-2">
+                      <div>
+                        <span className="text-muted-foreground">Vehicle Class:</span>
+                        <span className="font-medium ml-1">{getVehicleClass(car.vehicleType, params.vehicleClasses).name}</span>
+                      </div>
                       <div>
                         <span className="text-muted-foreground">Driver Type:</span>
-                        <span className="font-medium ml-1 capitalize">{car.driverType}</span>
+                        <span className="font-medium ml-1">{getDriverProfile(car.driverType, params.driverProfiles).name}</span>
                       </div>
 
                       <div>
@@ -203,7 +210,7 @@ const CarStatsCard: React.FC<CarStatsCardProps> = ({ cars, laneLength, params, s
                       </div>
                       <div>
                         <span className="text-muted-foreground">Vehicle Length:</span>
-                        <span className="font-medium ml-1">{(params.lengthCar * 3.28084).toFixed(1)} ft ({(params.lengthCar).toFixed(1)} m)</span>
+                        <span className="font-medium ml-1">{(car.length * 3.28084).toFixed(1)} ft ({car.length.toFixed(1)} m)</span>
                       </div>
                     </div>
                      <div>
@@ -237,6 +244,26 @@ const CarStatsCard: React.FC<CarStatsCardProps> = ({ cars, laneLength, params, s
                       <span className="text-muted-foreground">Lane Stickiness:</span>
                       <span className="font-medium ml-1">{car.laneStickiness?.toFixed(2)}</span>
                     </div>
+                    <div>
+                      <span className="text-muted-foreground">Time Headway:</span>
+                      <span className="font-medium ml-1">{(car.timeHeadway ?? params.tDist).toFixed(1)} s</span>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">Reaction Time:</span>
+                      <span className="font-medium ml-1">{(car.reactionTime ?? 0).toFixed(2)} s</span>
+                    </div>
+                    {car.occupancy !== undefined && (
+                      <div>
+                        <span className="text-muted-foreground">Occupancy:</span>
+                        <span className="font-medium ml-1">{car.occupancy} {car.occupancy === 1 ? "person" : "people"}</span>
+                      </div>
+                    )}
+                    {car.keepsRight !== undefined && (
+                      <div>
+                        <span className="text-muted-foreground">Keeps Right:</span>
+                        <span className="font-medium ml-1">{car.keepsRight ? "Yes" : "No"}</span>
+                      </div>
+                    )}
                   </div>
                   <div className="mt-2">
                     <div className="w-full bg-gray-200 rounded-full h-2.5">
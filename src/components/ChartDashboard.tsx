@@ -1,5 +1,5 @@
 
-import React from "react";
+import React, { useMemo } from "react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -10,9 +10,16 @@ import DensityThroughputChart from "./DensityThroughputChart";
 import LaneUtilizationChart from "./LaneUtilizationChart";
 import PackFormationChart from "./PackFormationChart";
 import AveragePackLengthChart from "./AveragePackLengthChart";
+import SafetyAnalysisChart from "./SafetyAnalysisChart";
+import DemandHysteresisChart from "./DemandHysteresisChart";
 import { Car } from "@/utils/trafficSimulation";
 import { SimulationParams } from "@/utils/trafficSimulation";
 import { UnitSystem } from "@/utils/unitConversion";
+import { getScenarioTimeline } from "@/utils/scenarioEvents";
+import type { SafetySummary } from "@/utils/safetyMetrics";
+import type { DemandDataPoint } from "@/utils/simulationMetrics";
+import { runCellTransmission } from "@/utils/cellTransmission";
+import { getUnitConversions } from "@/utils/unitConversion";
 
 interface ChartDashboardProps {
   // Core data
@@ -31,6 +38,8 @@ interface ChartDashboardProps {
   laneUtilizationHistory: any[];
   packHistory: any[];
   packLengthHistory: any[];
+  demandHistory?: DemandDataPoint[];
+  safetySummary?: SafetySummary | null;
   
   // Pack formation controls
   showPackFormation: boolean;
@@ -55,6 +64,8 @@ const ChartDashboard: React.FC<ChartDashboardProps> = ({
   laneUtilizationHistory,
   packHistory,
   packLengthHistory,
+  demandHistory = [],
+  safetySummary = null,
   showPackFormation,
   previousRunsData = [],
   previousRunsPackLengthData = [],
@@ -62,6 +73,21 @@ const ChartDashboard: React.FC<ChartDashboardProps> = ({
   onTogglePreviousRuns,
   showPreviousRuns = false
 }) => {
+  // Scripted events that have fired so far, marked on the time-series charts
+  const firedScenarioEvents = useMemo(
+    () => getScenarioTimeline(params).filter(event => event.time <= elapsedTime),
+    [params, elapsedTime]
+  );
+
+  // Macroscopic (CTM) prediction for the same road; unlimited runs are solved ten minutes ahead
+  const macroHorizon =
+    (params.simulationDuration ?? 0) > 0 ? params.simulationDuration : Math.ceil((elapsedTime + 1) / 600) * 600;
+  const macro = useMemo(
+    () => (laneLength > 0 ? runCellTransmission(params, laneLength, macroHorizon) : undefined),
+    [params, laneLength, macroHorizon]
+  );
+  const conversions = getUnitConversions(unitSystem);
+
   return (
     <div className="space-y-6">
       <div className="text-center mb-6">
@@ -70,10 +96,11 @@ const ChartDashboard: React.FC<ChartDashboardProps> = ({
       </div>
 
       <Tabs defaultValue="performance" className="w-full">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="performance">Performance Metrics</TabsTrigger>
           <TabsTrigger value="distribution">Traffic Distribution</TabsTrigger>
           <TabsTrigger value="behavior">Traffic Behavior</TabsTrigger>
+          <TabsTrigger value="safety">Safety</TabsTrigger>
           <TabsTrigger value="packs" disabled={!showPackFormation}>Pack Analysis</TabsTrigger>
         </TabsList>
 
@@ -106,6 +133,7 @@ const ChartDashboard: React.FC<ChartDashboardProps> = ({
                   laneLength={laneLength}
                   unitSystem={unitSystem}
                   simulationParams={params}
+                  macroSeries={macro?.series}
                 />
                 <div className="text-xs text-gray-500 p-3 bg-gray-50 rounded">
                   <strong>Speed-Density Relationship:</strong> Shows the fundamental traffic engineering relationship. 
@@ -123,12 +151,34 @@ const ChartDashboard: React.FC<ChartDashboardProps> = ({
                   trafficRule={trafficRule}
                   unitSystem={unitSystem}
                   simulationParams={params}
+                  macroSeries={macro?.series}
                 />
                 <div className="text-xs text-gray-500 p-3 bg-gray-50 rounded">
                   <strong>Flow Efficiency:</strong> Relationship between traffic density and throughput. 
                   Optimal flow occurs at moderate densities before congestion reduces throughput.
                 </div>
+                {macro && (
+                  <div className="text-xs text-gray-500 p-3 bg-gray-50 rounded">
+                    <strong>Macroscopic Comparison:</strong> The dashed lines come from a Cell Transmission Model of the
+                    same road with a triangular fundamental diagram: free speed{" "}
+                    {conversions.speed.toDisplay(macro.diagram.freeSpeed).toFixed(0)} {conversions.speed.unit}, jam
+                    density {conversions.density.toDisplay(macro.diagram.jamDensity).toFixed(0)} {conversions.density.unit}{" "}
+                    per lane, capacity {Math.round(macro.diagram.capacity)} veh/h per lane at{" "}
+                    {conversions.density.toDisplay(macro.diagram.criticalDensity).toFixed(1)} {conversions.density.unit},
+                    jams moving upstream at {conversions.speed.toDisplay(macro.diagram.waveSpeed).toFixed(1)}{" "}
+                    {conversions.speed.unit}. Ramps, closures, lane drops and scenario events are not part of it.
+                  </div>
+                )}
               </div>
+
+              {(params.demandProfile?.length || demandHistory.length > 0) && (
+                <DemandHysteresisChart
+                  dataHistory={demandHistory}
+                  topology={params.roadTopology ?? "ring"}
+                  numLanes={params.numLanes}
+                  unitSystem={unitSystem}
+                />
+              )}
             </CardContent>
           </Card>
         </TabsContent>
@@ -160,12 +210,21 @@ const ChartDashboard: React.FC<ChartDashboardProps> = ({
                     dataHistory={percentageByLaneHistory}
                     numLanes={params.numLanes}
                     trafficRule={trafficRule}
+                    scenarioEvents={firedScenarioEvents}
                   />
                   <div className="text-xs text-gray-500 p-3 bg-gray-50 rounded">
                     <strong>Lane Distribution:</strong> Percentage of vehicles in each lane over time. 
                     Shows lane preference patterns under {trafficRule} traffic rules.
                   </div>
                 </div>
+                <LaneUtilizationChart
+                  cars={cars}
+                  elapsedTime={elapsedTime}
+                  dataHistory={laneUtilizationHistory}
+                  numLanes={params.numLanes}
+                  laneRules={params.laneRules}
+                  vehicleClasses={params.vehicleClasses}
+                />
               </div>
             </CardContent>
           </Card>
@@ -201,6 +260,7 @@ const ChartDashboard: React.FC<ChartDashboardProps> = ({
                     dataHistory={densityOfCarPacksHistory}
                     numLanes={params.numLanes}
                     trafficRule={trafficRule}
+                    scenarioEvents={firedScenarioEvents}
                   />
                   <div className="text-xs text-gray-500 p-3 bg-gray-50 rounded">
                     <strong>Freeway Density Analysis:</strong> Shows overall traffic density (black line), 
@@ -213,6 +273,40 @@ const ChartDashboard: React.FC<ChartDashboardProps> = ({
           </Card>
         </TabsContent>
 
+        <TabsContent value="safety" className="space-y-6">
+          <Card>
+            <CardHeader className="pb-2">
+              <div className="flex justify-between items-start">
+                <div>
+                  <CardTitle className="text-lg">Safety Analysis</CardTitle>
+                  <CardDescription>
+                    Near-crash conflicts and how close vehicles come to colliding
+                  </CardDescription>
+                </div>
+                <div className="flex gap-2">
+                  <Badge variant="outline" className="capitalize">
+                    {trafficRule} Rules
+                  </Badge>
+                  <Badge variant="outline">
+                    {params.numLanes} {params.numLanes === 1 ? 'Lane' : 'Lanes'}
+                  </Badge>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                <SafetyAnalysisChart summary={safetySummary} />
+                <div className="text-xs text-gray-500 p-3 bg-gray-50 rounded">
+                  <strong>Surrogate Safety Measures:</strong> Time to collision is how long until the follower
+                  would hit its leader at current speeds; post-encroachment time is how long until it reaches the
+                  spot the leader's rear occupies now; deceleration to avoid crash is the braking needed to match
+                  the leader's speed in the remaining gap. Exposure counts the time vehicle pairs spend in each range.
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="packs" className="space-y-6">
           {showPackFormation ? (
             <Card>
@@ -241,6 +335,7 @@ const ChartDashboard: React.FC<ChartDashboardProps> = ({
                       onSaveCurrentRun={onSaveCurrentRun}
                       onTogglePreviousRuns={onTogglePreviousRuns}
                       showPreviousRuns={showPreviousRuns}
+                      scenarioEvents={firedScenarioEvents}
                     />
                     <div className="text-xs text-gray-500 p-3 bg-gray-50 rounded">
                       <strong>Pack Formation:</strong> Tracks the number of distinct traffic packs over time. 
@@ -255,6 +350,7 @@ const ChartDashboard: React.FC<ChartDashboardProps> = ({
                       onSaveCurrentRun={onSaveCurrentRun}
                       onTogglePreviousRuns={onTogglePreviousRuns}
                       showPreviousRuns={showPreviousRuns}
+                      scenarioEvents={firedScenarioEvents}
                     />
                     <div className="text-xs text-gray-500 p-3 bg-gray-50 rounded">
                       <strong>Pack Length Evolution:</strong> Average length of traffic packs in number of cars. 
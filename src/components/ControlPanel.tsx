@@ -7,9 +7,36 @@ import { Slider } from "@/components/ui/slider";
 import { Separator } from "@/components/ui/separator";
 import { Button } from "@/components/ui/button";
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Switch } from "@/components/ui/switch";
 import { SimulationParams } from "@/utils/trafficSimulation";
+import {
+  DEFAULT_CACC_TIME_GAP,
+  carFollowingModels,
+  defaultCarFollowingSettings,
+  type CarFollowingModelType,
+  type CarFollowingSettings,
+} from "@/utils/carFollowing";
+import type { RoadTopology } from "@/utils/roadTopology";
+import type { HeadwayDistribution } from "@/utils/inflow";
+import { DEFAULT_CA_CELL_SIZE, type CaLaneChangeRule, type SimulationEngineType } from "@/utils/cellularAutomaton";
+import { generateSeed } from "@/utils/random";
+import { MAX_REACTION_TIME } from "@/utils/perception";
+import { DEFAULT_TRAJECTORY_INTERVAL, MAX_TRAJECTORY_SAMPLES } from "@/utils/trajectoryRecorder";
+import type { TrajectoryExportFormat } from "@/utils/trajectoryExport";
+import { defaultVehicleClasses } from "@/utils/vehicleClasses";
+import { defaultDriverProfiles } from "@/utils/driverProfiles";
+import { defaultOccupancyShares } from "@/utils/laneRules";
+import { Download, Shuffle } from "lucide-react";
 import { JsonImportExport } from "./JsonImportExport";
 import { InfoTooltip } from "./InfoTooltip";
+import { RampEditor } from "./RampEditor";
+import { RoadGeometryEditor } from "./RoadGeometryEditor";
+import { ScenarioEventEditor } from "./ScenarioEventEditor";
+import { SpeedZoneEditor } from "./SpeedZoneEditor";
+import { VehicleClassEditor } from "./VehicleClassEditor";
+import { DriverProfileEditor } from "./DriverProfileEditor";
+import { LaneRuleEditor } from "./LaneRuleEditor";
+import { DemandProfileEditor } from "./DemandProfileEditor";
 import { UnitSystem, getUnitConversions } from "@/utils/unitConversion";
 import { CollapsibleSection } from "./ui/CollapsibleSection";
 
@@ -19,6 +46,24 @@ interface BatchSimulation {
   params: Partial<SimulationParams>;
 }
 
+// Slider ranges for the car-following parameters; `models` limits a slider to the models that use it
+const carFollowingSliders: {
+  key: keyof CarFollowingSettings;
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+  step: number;
+  models?: CarFollowingModelType[];
+}[] = [
+  { key: "maxAcceleration", label: "Max Acceleration", unit: "m/s²", min: 0.3, max: 3, step: 0.1 },
+  { key: "minGap", label: "Minimum Gap", unit: "m", min: 0.5, max: 5, step: 0.5 },
+  { key: "accelerationExponent", label: "Acceleration Exponent", unit: "", min: 1, max: 8, step: 1, models: ["idm"] },
+  { key: "gippsReactionTime", label: "Reaction Time", unit: "s", min: 0.3, max: 2, step: 0.1, models: ["gipps"] },
+  { key: "ovmSensitivity", label: "Sensitivity", unit: "1/s", min: 0.1, max: 2, step: 0.1, models: ["ovm"] },
+  { key: "kraussSigma", label: "Driver Imperfection", unit: "", min: 0, max: 1, step: 0.05, models: ["krauss"] },
+];
+
 interface ControlPanelProps {
   params: SimulationParams;
   onUpdateParams: (params: Partial<SimulationParams>) => void;
@@ -29,6 +74,7 @@ interface ControlPanelProps {
   onCarSizeChange?: (size: number) => void;
   unitSystem?: UnitSystem;
   onUnitSystemChange?: (system: UnitSystem) => void;
+  onExportTrajectory?: (format: TrajectoryExportFormat) => void;
 }
 
 const ControlPanel: React.FC<ControlPanelProps> = ({
@@ -41,30 +87,15 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
   onCarSizeChange,
   unitSystem = 'imperial',
   onUnitSystemChange,
+  onExportTrajectory,
 }) => {
   const conversions = getUnitConversions(unitSystem);
-  const handleVehicleTypeDensityChange = (vehicleType: 'car' | 'truck' | 'motorcycle', value: number) => {
-    const newVehicleTypeDensity = { ...params.vehicleTypeDensity };
-    newVehicleTypeDensity[vehicleType] = value;
-    
-    // Ensure percentages add up to 100
-    const total = Object.values(newVehicleTypeDensity).reduce((sum, val) => sum + val, 0);
-    if (total !== 100) {
-      // Proportionally adjust other values
-      const others = Object.keys(newVehicleTypeDensity).filter(key => key !== vehicleType) as ('car' | 'truck' | 'motorcycle')[];
-      const remaining = 100 - value;
-      const otherTotal = others.reduce((sum, key) => sum + newVehicleTypeDensity[key], 0);
-      
-      if (otherTotal > 0) {
-        others.forEach(key => {
-          newVehicleTypeDensity[key] = Math.round((newVehicleTypeDensity[key] / otherTotal) * remaining);
-        });
-      }
-    }
-    
-    onUpdateParams({ vehicleTypeDensity: newVehicleTypeDensity });
-  };
+  const carFollowingModel = params.carFollowingModel ?? "idm";
+  const carFollowingParams = params.carFollowingParams ?? defaultCarFollowingSettings;
 
+  const handleCarFollowingParamChange = (key: keyof CarFollowingSettings, value: number) => {
+    onUpdateParams({ carFollowingParams: { ...carFollowingParams, [key]: value } });
+  };
   const addLane = () => {
     if (params.numLanes < 6) {
       onUpdateParams({ 
@@ -139,126 +170,18 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
 
             <Separator />
 
-            {/* Vehicle Type Distribution */}
+            {/* Vehicle classes and mix */}
             <div className="space-y-3">
               <div className="flex items-center">
-                <Label className="text-sm font-medium">Vehicle Type Distribution</Label>
-                <InfoTooltip content="Percentage distribution of different vehicle types in the simulation" />
-              </div>
-              
-              <div className="space-y-2">
-                <div className="flex items-center gap-2">
-                  <div className="flex items-center">
-                    <Label>Cars:</Label>
-                    <InfoTooltip content="Percentage of cars in the simulation" />
-                  </div>
-                  <Input
-                    type="number"
-                    value={params.vehicleTypeDensity.car}
-                    onChange={(e) => {
-                      const value = parseInt(e.target.value) || 0;
-                      if (value >= 0 && value <= 100) {
-                        handleVehicleTypeDensityChange('car', value);
-                      }
-                    }}
-                    onKeyDown={(e) => {
-                      // Allow: backspace, delete, tab, escape, enter, and decimal points
-                      if ([46, 8, 9, 27, 13, 110, 190].includes(e.keyCode) ||
-                          // Allow: Ctrl+A, Command+A
-                          (e.keyCode === 65 && (e.ctrlKey === true || e.metaKey === true)) ||
-                          // Allow: home, end, left, right, down, up
-                          (e.keyCode >= 35 && e.keyCode <= 40)) {
-                        // Let it happen, don't do anything
-                        return;
-                      }
-                      // Ensure that it is a number and stop the keypress
-                      if ((e.shiftKey || (e.keyCode < 48 || e.keyCode > 57)) && (e.keyCode < 96 || e.keyCode > 105)) {
-                        e.preventDefault();
-                      }
-                    }}
-                    className="flex-1 [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
-                    min="0"
-                    max="100"
-                  />
-                  <span className="text-xs text-gray-500">%</span>
-                </div>
-                
-                <div className="flex items-center gap-2">
-                  <div className="flex items-center">
-                    <Label>Trucks:</Label>
-                    <InfoTooltip content="Percentage of trucks in the simulation" />
-                  </div>
-                  <Input
-                    type="number"
-                    value={params.vehicleTypeDensity.truck}
-                    onChange={(e) => {
-                      const value = parseInt(e.target.value) || 0;
-                      if (value >= 0 && value <= 100) {
-                        handleVehicleTypeDensityChange('truck', value);
-                      }
-                    }}
-                    onKeyDown={(e) => {
-                      // Allow: backspace, delete, tab, escape, enter, and decimal points
-                      if ([46, 8, 9, 27, 13, 110, 190].includes(e.keyCode) ||
-                          // Allow: Ctrl+A, Command+A
-                          (e.keyCode === 65 && (e.ctrlKey === true || e.metaKey === true)) ||
-                          // Allow: home, end, left, right, down, up
-                          (e.keyCode >= 35 && e.keyCode <= 40)) {
-                        // Let it happen, don't do anything
-                        return;
-                      }
-                      // Ensure that it is a number and stop the keypress
-                      if ((e.shiftKey || (e.keyCode < 48 || e.keyCode > 57)) && (e.keyCode < 96 || e.keyCode > 105)) {
-                        e.preventDefault();
-                      }
-                    }}
-                    className="flex-1 [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
-                    min="0"
-                    max="100"
-                  />
-                  <span className="text-xs text-gray-500">%</span>
-                </div>
-                
-                <div className="flex items-center gap-2">
-                  <div className="flex items-center">
-                    <Label>Motorcycles:</Label>
-                    <InfoTooltip content="Percentage of motorcycles in the simulation" />
-                  </div>
-                  <Input
-                    type="number"
-                    value={params.vehicleTypeDensity.motorcycle}
-                    onChange={(e) => {
-                      const value = parseInt(e.target.value) || 0;
-                      if (value >= 0 && value <= 100) {
-                        handleVehicleTypeDensityChange('motorcycle', value);
-                      }
-                    }}
-                    onKeyDown={(e) => {
-                      // Allow: backspace, delete, tab, escape, enter, and decimal points
-                      if ([46, 8, 9, 27, 13, 110, 190].includes(e.keyCode) ||
-                          // Allow: Ctrl+A, Command+A
-                          (e.keyCode === 65 && (e.ctrlKey === true || e.metaKey === true)) ||
-                          // Allow: home, end, left, right, down, up
-                          (e.keyCode >= 35 && e.keyCode <= 40)) {
-                        // Let it happen, don't do anything
-                        return;
-                      }
-                      // Ensure that it is a number and stop the keypress
-                      if ((e.shiftKey || (e.keyCode < 48 || e.keyCode > 57)) && (e.keyCode < 96 || e.keyCode > 105)) {
-                        e.preventDefault();
-                      }
-                    }}
-                    className="flex-1 [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
-                    min="0"
-                    max="100"
-                  />
-                  <span className="text-xs text-gray-500">%</span>
-                </div>
-                
-                <div className="text-xs text-gray-500">
-                  Total: {Object.values(params.vehicleTypeDensity).reduce((sum, val) => sum + val, 0)}%
-                </div>
+                <Label className="text-sm font-medium">Vehicle Mix</Label>
+                <InfoTooltip content="Vehicle classes and their share of traffic. Each class sets its vehicles' length, acceleration, braking, desired speed and the lanes they may use." />
               </div>
+              <VehicleClassEditor
+                vehicleClasses={params.vehicleClasses ?? defaultVehicleClasses}
+                mix={params.vehicleTypeDensity}
+                numLanes={params.numLanes ?? 1}
+                onChange={onUpdateParams}
+              />
             </div>
 
             <Separator />
@@ -386,6 +309,76 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                   ))}
                 </div>
               </div>
+
+              <div className="space-y-2 pt-4">
+                <div className="flex items-center">
+                  <Label className="text-xs">Random Seed:</Label>
+                  <InfoTooltip content="Runs with the same seed and settings are identical. Change it to get a different random traffic pattern." />
+                </div>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    value={params.seed ?? ''}
+                    onChange={(e) => {
+                      const value = Math.max(0, Math.floor(Number(e.target.value) || 0));
+                      onUpdateParams({ seed: value });
+                    }}
+                    className="flex-1 h-8"
+                    min={0}
+                    step={1}
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-8 px-2"
+                    onClick={() => onUpdateParams({ seed: generateSeed() })}
+                  >
+                    <Shuffle className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+
+              <div className="space-y-2 pt-4">
+                <div className="flex justify-between items-center">
+                  <div className="flex items-center">
+                    <Label htmlFor="trajectory-toggle" className="text-xs">Record Trajectories</Label>
+                    <InfoTooltip content={`Store every vehicle's position, speed and lane at a fixed interval. Saved simulations with a recording can be replayed from the Saved Simulations page. Recording stops once it holds ${MAX_TRAJECTORY_SAMPLES.toLocaleString()} samples (vehicles times frames).`} />
+                  </div>
+                  <Switch
+                    id="trajectory-toggle"
+                    checked={(params.trajectoryInterval ?? 0) > 0}
+                    onCheckedChange={(checked) =>
+                      onUpdateParams({ trajectoryInterval: checked ? DEFAULT_TRAJECTORY_INTERVAL : 0 })
+                    }
+                  />
+                </div>
+                {(params.trajectoryInterval ?? 0) > 0 && (
+                  <>
+                    <div className="flex justify-between items-center">
+                      <Label className="text-xs">Recording Interval</Label>
+                      <span className="text-xs text-muted-foreground">{params.trajectoryInterval}s</span>
+                    </div>
+                    <Slider
+                      value={[params.trajectoryInterval!]}
+                      onValueChange={([value]) => onUpdateParams({ trajectoryInterval: value })}
+                      min={0.5}
+                      max={10}
+                      step={0.5}
+                    />
+                    {onExportTrajectory && (
+                      <div className="flex flex-wrap items-center gap-2 pt-1">
+                        <span className="text-xs text-muted-foreground">Export run so far:</span>
+                        <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={() => onExportTrajectory("csv")}>
+                          <Download className="h-3 w-3 mr-1" /> CSV
+                        </Button>
+                        <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={() => onExportTrajectory("ndjson")}>
+                          <Download className="h-3 w-3 mr-1" /> NDJSON
+                        </Button>
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
             </CollapsibleSection>
 
             <Separator />
@@ -509,6 +502,61 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
             {/* Advanced Parameters */}
             <CollapsibleSection title="Advanced Parameters" defaultCollapsed={true}>
               <div className="space-y-4">
+                <div className="space-y-2">
+                  <div className="flex items-center">
+                    <Label className="text-xs">Road Topology</Label>
+                    <InfoTooltip content="Ring: a closed loop where exiting cars are replaced. Open road: cars enter upstream at the demand rate and leave at the downstream end." />
+                  </div>
+                  <Select
+                    value={params.roadTopology ?? "ring"}
+                    onValueChange={(value: RoadTopology) => onUpdateParams({ roadTopology: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="ring">Ring (closed loop)</SelectItem>
+                      <SelectItem value="open">Open road (inflow / outflow)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {params.roadTopology === "open" && (
+                  <>
+                    <div className="space-y-2">
+                      <div className="flex justify-between items-center">
+                        <Label className="text-xs">Inflow Demand</Label>
+                        <span className="text-xs text-muted-foreground">
+                          {params.inflowRate ?? 0} veh/h/lane
+                        </span>
+                      </div>
+                      <Slider
+                        value={[params.inflowRate ?? 0]}
+                        onValueChange={([value]) => onUpdateParams({ inflowRate: value })}
+                        min={0}
+                        max={2400}
+                        step={50}
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label className="text-xs">Arrival Headways</Label>
+                      <Select
+                        value={params.inflowDistribution ?? "poisson"}
+                        onValueChange={(value: HeadwayDistribution) => onUpdateParams({ inflowDistribution: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="poisson">Poisson (random)</SelectItem>
+                          <SelectItem value="uniform">Uniform (evenly spaced)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </>
+                )}
+
                 <div className="space-y-2">
                   <div className="flex justify-between items-center">
                     <Label className="text-xs">Freeway Length</Label>
@@ -556,11 +604,447 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                     step={1}
                   />
                 </div>
+
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <div className="flex items-center">
+                      <Label className="text-xs">Random Slowdowns</Label>
+                      <InfoTooltip content="Chance per second that a driver brakes for no reason (Nagel-Schreckenberg dawdling). This noise lets jams emerge spontaneously. Connected automated vehicles never dawdle." />
+                    </div>
+                    <span className="text-xs text-muted-foreground">
+                      {(params.randomSlowdownProbability ?? 0) > 0
+                        ? `${Math.round((params.randomSlowdownProbability ?? 0) * 100)}% per second`
+                        : "Off"}
+                    </span>
+                  </div>
+                  <Slider
+                    value={[params.randomSlowdownProbability ?? 0]}
+                    onValueChange={([value]) => onUpdateParams({ randomSlowdownProbability: value })}
+                    min={0}
+                    max={0.5}
+                    step={0.01}
+                  />
+                </div>
+
+                {(params.randomSlowdownProbability ?? 0) > 0 && (
+                  <>
+                    <div className="space-y-2">
+                      <div className="flex justify-between items-center">
+                        <Label className="text-xs">Slowdown Amount</Label>
+                        <span className="text-xs text-muted-foreground">
+                          {conversions.speed.toDisplay(params.randomSlowdownAmount ?? 0).toFixed(0)} {conversions.speed.unit}
+                        </span>
+                      </div>
+                      <Slider
+                        value={[params.randomSlowdownAmount ?? 0]}
+                        onValueChange={([value]) => onUpdateParams({ randomSlowdownAmount: value })}
+                        min={1}
+                        max={50}
+                        step={1}
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <div className="flex justify-between items-center">
+                        <Label className="text-xs">Slowdown Duration</Label>
+                        <span className="text-xs text-muted-foreground">
+                          {params.randomSlowdownDuration ?? 0} seconds
+                        </span>
+                      </div>
+                      <Slider
+                        value={[params.randomSlowdownDuration ?? 0]}
+                        onValueChange={([value]) => onUpdateParams({ randomSlowdownDuration: value })}
+                        min={0.5}
+                        max={10}
+                        step={0.5}
+                      />
+                    </div>
+                  </>
+                )}
+              </div>
+            </CollapsibleSection>
+
+            <Separator />
+
+            {/* Simulation Engine */}
+            <CollapsibleSection title="Simulation Engine" defaultCollapsed={true}>
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <div className="flex items-center">
+                    <Label className="text-xs">Engine</Label>
+                    <InfoTooltip content="Continuous car-following moves every vehicle by its acceleration each time step. The Nagel-Schreckenberg cellular automaton cuts the lanes into cells and updates whole-cell speeds once per second: a coarse, fast baseline for fundamental-diagram studies." />
+                  </div>
+                  <Select
+                    value={params.engine ?? "continuous"}
+                    onValueChange={(value: SimulationEngineType) => onUpdateParams({ engine: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="continuous">Continuous car-following</SelectItem>
+                      <SelectItem value="cellular">Cellular automaton (Nagel-Schreckenberg)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {params.engine === "cellular" && (
+                  <>
+                    <div className="space-y-2">
+                      <div className="flex justify-between items-center">
+                        <div className="flex items-center">
+                          <Label className="text-xs">Cell Size</Label>
+                          <InfoTooltip content="Length of one cell. A vehicle covers as many cells as its length needs plus room to stand behind the car ahead, and its speed is a whole number of cells per second." />
+                        </div>
+                        <span className="text-xs text-muted-foreground">
+                          {(params.caCellSize ?? DEFAULT_CA_CELL_SIZE).toFixed(1)} m
+                        </span>
+                      </div>
+                      <Slider
+                        value={[params.caCellSize ?? DEFAULT_CA_CELL_SIZE]}
+                        onValueChange={([value]) => onUpdateParams({ caCellSize: value })}
+                        min={2.5}
+                        max={10}
+                        step={0.5}
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <div className="flex justify-between items-center">
+                        <div className="flex items-center">
+                          <Label className="text-xs">Slowdown Probability</Label>
+                          <InfoTooltip content="The NaSch dawdling probability p: the chance that a moving vehicle drops one cell per second of speed at each update. 0.25 is the classic choice for spontaneous jams." />
+                        </div>
+                        <span className="text-xs text-muted-foreground">
+                          {(params.caSlowdownProbability ?? 0).toFixed(2)}
+                        </span>
+                      </div>
+                      <Slider
+                        value={[params.caSlowdownProbability ?? 0]}
+                        onValueChange={([value]) => onUpdateParams({ caSlowdownProbability: value })}
+                        min={0}
+                        max={0.5}
+                        step={0.01}
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <div className="flex items-center">
+                        <Label className="text-xs">Lane Changes</Label>
+                        <InfoTooltip content="Symmetric: a hindered vehicle moves to whichever side has the longer gap. Keep right: vehicles pass on the left and move back right once the right lane is as free." />
+                      </div>
+                      <Select
+                        value={params.caLaneChangeRule ?? "symmetric"}
+                        onValueChange={(value: CaLaneChangeRule) => onUpdateParams({ caLaneChangeRule: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="symmetric">Symmetric</SelectItem>
+                          <SelectItem value="asymmetric">Keep right, pass left</SelectItem>
+                          <SelectItem value="none">No lane changes</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <p className="text-xs text-muted-foreground">
+                      The automaton does not model ramps, lane closures, lane drops or CACC platooning, and keeps the
+                      number of vehicles on a ring fixed.
+                    </p>
+                  </>
+                )}
+              </div>
+            </CollapsibleSection>
+
+            <Separator />
+
+            {/* Car-Following Model */}
+            <CollapsibleSection title="Car-Following Model" defaultCollapsed={true}>
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <div className="flex items-center">
+                    <Label className="text-xs">Model</Label>
+                    <InfoTooltip content="Longitudinal model that sets each driver's acceleration from their speed, the gap to the car ahead and its speed. Lane-change decisions use the same model." />
+                  </div>
+                  <Select
+                    value={carFollowingModel}
+                    onValueChange={(value: CarFollowingModelType) => onUpdateParams({ carFollowingModel: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.values(carFollowingModels).map(model => (
+                        <SelectItem key={model.type} value={model.type}>{model.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <Label className="text-xs">Comfortable Deceleration</Label>
+                    <span className="text-xs text-muted-foreground">
+                      {params.aMax.toFixed(1)} m/s²
+                    </span>
+                  </div>
+                  <Slider
+                    value={[params.aMax]}
+                    onValueChange={([value]) => onUpdateParams({ aMax: value })}
+                    min={0.5}
+                    max={4}
+                    step={0.1}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <div className="flex items-center">
+                      <Label className="text-xs">Safe Deceleration</Label>
+                      <InfoTooltip content="MOBIL safety limit: a lane change is called off if the car behind in the target lane, or the changing car itself, would have to brake harder than this." />
+                    </div>
+                    <span className="text-xs text-muted-foreground">
+                      {(params.safeDeceleration ?? 4).toFixed(1)} m/s²
+                    </span>
+                  </div>
+                  <Slider
+                    value={[params.safeDeceleration ?? 4]}
+                    onValueChange={([value]) => onUpdateParams({ safeDeceleration: value })}
+                    min={1}
+                    max={9}
+                    step={0.5}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <div className="flex items-center">
+                      <Label className="text-xs">Reaction Time</Label>
+                      <InfoTooltip content="Mean delay with which drivers respond to the car ahead: each driver acts on the gap and leader speed as they were this long ago. Delays amplify small disturbances into stop-and-go waves." />
+                    </div>
+                    <span className="text-xs text-muted-foreground">
+                      {(params.reactionTime ?? 0).toFixed(1)} s
+                    </span>
+                  </div>
+                  <Slider
+                    value={[params.reactionTime ?? 0]}
+                    onValueChange={([value]) => onUpdateParams({ reactionTime: value })}
+                    min={0}
+                    max={MAX_REACTION_TIME}
+                    step={0.1}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <Label className="text-xs">Reaction Time Spread</Label>
+                    <span className="text-xs text-muted-foreground">
+                      ±{(params.sdReactionTime ?? 0).toFixed(2)} s
+                    </span>
+                  </div>
+                  <Slider
+                    value={[params.sdReactionTime ?? 0]}
+                    onValueChange={([value]) => onUpdateParams({ sdReactionTime: value })}
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    disabled={!params.reactionTime}
+                  />
+                </div>
+
+                {carFollowingSliders
+                  .filter(slider => !slider.models || slider.models.includes(carFollowingModel))
+                  .map(slider => (
+                    <div key={slider.key} className="space-y-2">
+                      <div className="flex justify-between items-center">
+                        <Label className="text-xs">{slider.label}</Label>
+                        <span className="text-xs text-muted-foreground">
+                          {carFollowingParams[slider.key]} {slider.unit}
+                        </span>
+                      </div>
+                      <Slider
+                        value={[carFollowingParams[slider.key]]}
+                        onValueChange={([value]) => handleCarFollowingParamChange(slider.key, value)}
+                        min={slider.min}
+                        max={slider.max}
+                        step={slider.step}
+                      />
+                    </div>
+                  ))}
               </div>
             </CollapsibleSection>
 
             <Separator />
 
+            {/* Driver population */}
+            <CollapsibleSection title="Driver Profiles" defaultCollapsed={true}>
+              <DriverProfileEditor
+                profiles={params.driverProfiles ?? defaultDriverProfiles}
+                onChange={(driverProfiles) => onUpdateParams({ driverProfiles })}
+              />
+            </CollapsibleSection>
+
+            <Separator />
+
+            {/* Connected automated vehicles */}
+            <CollapsibleSection title="Connected Vehicles (CACC)" defaultCollapsed={true}>
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <div className="flex items-center">
+                      <Label className="text-xs">Market Penetration</Label>
+                      <InfoTooltip content="Share of vehicles that are connected automated vehicles (the Connected automated class). They platoon behind other connected vehicles using cooperative adaptive cruise control." />
+                    </div>
+                    <span className="text-xs text-muted-foreground">
+                      {params.cavPenetration ?? 0}%
+                    </span>
+                  </div>
+                  <Slider
+                    value={[params.cavPenetration ?? 0]}
+                    onValueChange={([value]) => onUpdateParams({ cavPenetration: value })}
+                    min={0}
+                    max={100}
+                    step={5}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <div className="flex items-center">
+                      <Label className="text-xs">Platoon Time Gap</Label>
+                      <InfoTooltip content="Time gap a connected vehicle keeps behind a connected leader, whose acceleration it receives over V2V" />
+                    </div>
+                    <span className="text-xs text-muted-foreground">
+                      {(params.caccTimeGap ?? DEFAULT_CACC_TIME_GAP).toFixed(1)} s
+                    </span>
+                  </div>
+                  <Slider
+                    value={[params.caccTimeGap ?? DEFAULT_CACC_TIME_GAP]}
+                    onValueChange={([value]) => onUpdateParams({ caccTimeGap: value })}
+                    min={0.3}
+                    max={2}
+                    step={0.1}
+                  />
+                </div>
+              </div>
+            </CollapsibleSection>
+
+            <Separator />
+
+            {/* Lane-use rules */}
+            <CollapsibleSection title="Lane Rules" defaultCollapsed={true}>
+              <div className="space-y-4">
+                <LaneRuleEditor
+                  rules={params.laneRules ?? []}
+                  occupancyShares={params.occupancyShares ?? defaultOccupancyShares}
+                  vehicleClasses={params.vehicleClasses ?? defaultVehicleClasses}
+                  numLanes={params.numLanes ?? 1}
+                  onChange={onUpdateParams}
+                />
+
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <div className="flex items-center">
+                      <Label htmlFor="keep-right-toggle" className="text-xs">Keep Right Except to Pass</Label>
+                      <InfoTooltip content="Share of drivers who move back right as soon as they are not passing. The others never return right on their own. When off, lane choice follows the MOBIL incentives alone." />
+                    </div>
+                    <Switch
+                      id="keep-right-toggle"
+                      checked={params.keepRightCompliance !== undefined}
+                      onCheckedChange={(checked) => onUpdateParams({ keepRightCompliance: checked ? 0.8 : undefined })}
+                    />
+                  </div>
+                  {params.keepRightCompliance !== undefined && (
+                    <>
+                      <div className="flex justify-between items-center">
+                        <Label className="text-xs">Compliance</Label>
+                        <span className="text-xs text-muted-foreground">
+                          {Math.round(params.keepRightCompliance * 100)}%
+                        </span>
+                      </div>
+                      <Slider
+                        value={[params.keepRightCompliance]}
+                        onValueChange={([value]) => onUpdateParams({ keepRightCompliance: value })}
+                        min={0}
+                        max={1}
+                        step={0.05}
+                      />
+                    </>
+                  )}
+                </div>
+              </div>
+            </CollapsibleSection>
+
+            <Separator />
+
+            {/* Ramps */}
+            <CollapsibleSection title="Ramps" defaultCollapsed={true}>
+              <RampEditor
+                ramps={params.ramps ?? []}
+                freewayLength={params.freewayLength ?? 16}
+                onChange={(ramps) => onUpdateParams({ ramps })}
+                unitSystem={unitSystem}
+              />
+            </CollapsibleSection>
+
+            <Separator />
+
+            {/* Lane drops and work zones */}
+            <CollapsibleSection title="Road Geometry" defaultCollapsed={true}>
+              <RoadGeometryEditor
+                roadSegments={params.roadSegments ?? []}
+                laneClosures={params.laneClosures ?? []}
+                numLanes={params.numLanes ?? 1}
+                freewayLength={params.freewayLength ?? 16}
+                onChange={onUpdateParams}
+                unitSystem={unitSystem}
+              />
+            </CollapsibleSection>
+
+            <Separator />
+
+            {/* Speed-limit zones */}
+            <CollapsibleSection title="Speed Zones" defaultCollapsed={true}>
+              <SpeedZoneEditor
+                zones={params.speedLimitZones ?? []}
+                numLanes={params.numLanes ?? 1}
+                freewayLength={params.freewayLength ?? 16}
+                speedLimit={params.speedLimit}
+                vehicleClasses={params.vehicleClasses}
+                onChange={(speedLimitZones) => onUpdateParams({ speedLimitZones })}
+                unitSystem={unitSystem}
+              />
+            </CollapsibleSection>
+
+            <Separator />
+
+            {/* Time-varying demand */}
+            <CollapsibleSection title="Demand Profile" defaultCollapsed={true}>
+              <DemandProfileEditor
+                profile={params.demandProfile ?? []}
+                topology={params.roadTopology ?? "ring"}
+                numLanes={params.numLanes ?? 1}
+                simulationDuration={params.simulationDuration}
+                onChange={(demandProfile) => onUpdateParams({ demandProfile })}
+                unitSystem={unitSystem}
+              />
+            </CollapsibleSection>
+
+            <Separator />
+
+            {/* Scripted perturbations */}
+            <CollapsibleSection title="Scenario Events" defaultCollapsed={true}>
+              <ScenarioEventEditor
+                events={params.scenarioEvents ?? []}
+                params={params}
+                onChange={(scenarioEvents) => onUpdateParams({ scenarioEvents })}
+                unitSystem={unitSystem}
+              />
+            </CollapsibleSection>
+
+            <Separator />
+
             {/* Car Display Size */}
             {onCarSizeChange && (
               <CollapsibleSection title="Display Settings" defaultCollapsed={true}>
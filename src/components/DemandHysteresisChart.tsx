@@ -0,0 +1,261 @@
+import React, { useMemo, useRef } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { ScatterChart, Scatter, LineChart, Line, XAxis, YAxis, CartesianGrid, Legend, ZAxis } from "recharts";
+import { Download } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { DemandDataPoint } from "@/utils/simulationMetrics";
+import type { DemandPhase } from "@/utils/demandProfile";
+import type { RoadTopology } from "@/utils/roadTopology";
+import { UnitSystem, getUnitConversions } from "@/utils/unitConversion";
+
+interface DemandHysteresisChartProps {
+  dataHistory: DemandDataPoint[];
+  topology: RoadTopology;
+  numLanes: number;
+  unitSystem?: UnitSystem;
+}
+
+const phaseLabels: Record<DemandPhase, string> = {
+  rising: "Loading (demand rising)",
+  steady: "Steady demand",
+  falling: "Recovery (demand falling)",
+};
+
+const phaseColors: Record<DemandPhase, string> = {
+  rising: "hsl(24, 90%, 50%)",
+  steady: "hsl(220, 9%, 60%)",
+  falling: "hsl(220, 70%, 50%)",
+};
+
+const DemandHysteresisChart: React.FC<DemandHysteresisChartProps> = ({
+  dataHistory,
+  topology,
+  numLanes,
+  unitSystem = 'imperial',
+}) => {
+  const chartRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
+  const conversions = useMemo(() => getUnitConversions(unitSystem), [unitSystem]);
+  const isOpen = topology === "open";
+
+  // Flow-density points per phase, in time order so each branch draws as a path
+  const branches = useMemo(() => {
+    const byPhase: Record<DemandPhase, { density: number; flow: number; time: number }[]> = {
+      rising: [],
+      steady: [],
+      falling: [],
+    };
+    dataHistory.forEach(point => {
+      byPhase[point.phase].push({
+        density: parseFloat(conversions.density.toDisplay(point.density).toFixed(2)),
+        flow: point.flow,
+        time: point.time,
+      });
+    });
+    return byPhase;
+  }, [dataHistory, conversions]);
+
+  // What the profile asked for next to what the road delivered: total inflow
+  // and flow on an open road, target and actual density on a ring
+  const responseData = useMemo(
+    () =>
+      dataHistory.map(point => ({
+        time: point.time,
+        demand: isOpen
+          ? Math.round(point.demand * numLanes)
+          : parseFloat(conversions.density.toDisplay(point.demand).toFixed(2)),
+        response: isOpen ? point.flow : parseFloat(conversions.density.toDisplay(point.density).toFixed(2)),
+      })),
+    [dataHistory, isOpen, numLanes, conversions]
+  );
+
+  // Highest flow reached while demand was rising and while it was falling;
+  // a lower recovery peak is the capacity drop after breakdown
+  const branchPeaks = useMemo(() => {
+    const peak = (phase: DemandPhase) =>
+      dataHistory.filter(point => point.phase === phase).reduce((max, point) => Math.max(max, point.flow), 0);
+    return { loading: peak("rising"), recovery: peak("falling") };
+  }, [dataHistory]);
+
+  const responseUnit = isOpen ? "veh/h" : conversions.density.unit;
+
+  const handleExportImage = () => {
+    if (!chartRef.current) return;
+
+    try {
+      const svgElement = chartRef.current.querySelector("svg");
+      if (!svgElement) {
+        throw new Error("SVG element not found");
+      }
+
+      const clonedSvg = svgElement.cloneNode(true) as SVGElement;
+      clonedSvg.setAttribute("style", "background-color: white;");
+
+      const svgData = new XMLSerializer().serializeToString(clonedSvg);
+      const svgBlob = new Blob([svgData], { type: "image/svg+xml;charset=utf-8" });
+
+      const downloadLink = document.createElement("a");
+      downloadLink.href = URL.createObjectURL(svgBlob);
+      downloadLink.download = "demand-hysteresis.svg";
+      document.body.appendChild(downloadLink);
+      downloadLink.click();
+      document.body.removeChild(downloadLink);
+
+      toast({
+        title: "Chart exported",
+        description: "Hysteresis chart has been exported successfully",
+        duration: 3000,
+      });
+    } catch (error) {
+      console.error("Error exporting chart:", error);
+      toast({
+        title: "Export failed",
+        description: "Could not export the chart. Please try again.",
+        variant: "destructive",
+        duration: 3000,
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex justify-between items-center">
+          <CardTitle className="text-lg">Demand Profile & Hysteresis</CardTitle>
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-1"
+            onClick={handleExportImage}
+          >
+            <Download size={16} />
+            Export
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Flow against density while demand builds up and while it decays
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {dataHistory.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No samples yet. The first one is taken when the run starts.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-3">
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <p className="text-xs text-muted-foreground">Peak flow while loading</p>
+                <p className="text-2xl font-bold" style={{ color: phaseColors.rising }}>
+                  {branchPeaks.loading.toLocaleString()}
+                </p>
+                <p className="text-xs text-muted-foreground">veh/h</p>
+              </div>
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <p className="text-xs text-muted-foreground">Peak flow while recovering</p>
+                <p className="text-2xl font-bold" style={{ color: phaseColors.falling }}>
+                  {branchPeaks.recovery.toLocaleString()}
+                </p>
+                <p className="text-xs text-muted-foreground">veh/h</p>
+              </div>
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <p className="text-xs text-muted-foreground">Capacity drop</p>
+                <p className="text-2xl font-bold">
+                  {branchPeaks.loading > 0 && branchPeaks.recovery > 0
+                    ? `${Math.round((1 - branchPeaks.recovery / branchPeaks.loading) * 100)}%`
+                    : "–"}
+                </p>
+                <p className="text-xs text-muted-foreground">recovery vs loading peak</p>
+              </div>
+            </div>
+
+            <div className="h-[320px]" ref={chartRef}>
+              <ChartContainer
+                className="h-full"
+                config={{
+                  rising: { label: phaseLabels.rising, color: phaseColors.rising },
+                  steady: { label: phaseLabels.steady, color: phaseColors.steady },
+                  falling: { label: phaseLabels.falling, color: phaseColors.falling },
+                }}
+              >
+                <ScatterChart margin={{ top: 10, right: 30, bottom: 30, left: 20 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    type="number"
+                    dataKey="density"
+                    name="Density"
+                    label={{ value: `Density (${conversions.density.unit})`, position: "insideBottom", offset: -15 }}
+                  />
+                  <YAxis
+                    type="number"
+                    dataKey="flow"
+                    name="Flow"
+                    label={{ value: "Flow (veh/h)", angle: -90, position: "insideLeft" }}
+                  />
+                  <ZAxis range={[30, 30]} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Legend verticalAlign="top" />
+                  {(Object.keys(phaseLabels) as DemandPhase[]).map(phase => (
+                    <Scatter
+                      key={phase}
+                      name={phaseLabels[phase]}
+                      data={branches[phase]}
+                      fill={phaseColors[phase]}
+                      line={phase !== "steady"}
+                      lineType="joint"
+                    />
+                  ))}
+                </ScatterChart>
+              </ChartContainer>
+            </div>
+
+            <div className="h-[220px]">
+              <ChartContainer
+                className="h-full"
+                config={{
+                  demand: { label: isOpen ? "Demand" : "Target density", color: "hsl(var(--muted-foreground))" },
+                  response: { label: isOpen ? "Flow" : "Density", color: "hsl(var(--primary))" },
+                }}
+              >
+                <LineChart data={responseData} margin={{ top: 10, right: 30, bottom: 30, left: 20 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    dataKey="time"
+                    type="number"
+                    domain={['dataMin', 'dataMax']}
+                    label={{ value: "Time (seconds)", position: "insideBottom", offset: -15 }}
+                  />
+                  <YAxis label={{ value: responseUnit, angle: -90, position: "insideLeft" }} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Legend verticalAlign="top" />
+                  <Line
+                    type="linear"
+                    dataKey="demand"
+                    name={isOpen ? "Demand" : "Target density"}
+                    stroke="hsl(var(--muted-foreground))"
+                    strokeDasharray="5 3"
+                    dot={false}
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="response"
+                    name={isOpen ? "Flow" : "Density"}
+                    stroke="hsl(var(--primary))"
+                    dot={false}
+                  />
+                </LineChart>
+              </ChartContainer>
+            </div>
+          </>
+        )}
+
+        <div className="text-xs text-muted-foreground space-y-1">
+          <p>• The loading and recovery branches only coincide when traffic never breaks down</p>
+          <p>• A recovery branch below the loading one is the hysteresis of congested traffic: queues discharge at less than the flow that created them</p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DemandHysteresisChart;
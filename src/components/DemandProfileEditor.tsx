@@ -0,0 +1,184 @@
+import React, { useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Download, Plus, Trash2, TrendingUp, Upload } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import {
+  createRushHourProfile,
+  demandProfileToCsv,
+  parseDemandCsv,
+  sortDemandProfile,
+  type DemandPoint,
+} from "@/utils/demandProfile";
+import type { RoadTopology } from "@/utils/roadTopology";
+import { UnitSystem, getUnitConversions } from "@/utils/unitConversion";
+
+interface DemandProfileEditorProps {
+  profile: DemandPoint[];
+  topology: RoadTopology;
+  numLanes: number;
+  simulationDuration?: number; // s, 0 or unset for an unlimited run
+  onChange: (profile: DemandPoint[]) => void;
+  unitSystem?: UnitSystem;
+}
+
+export const DemandProfileEditor: React.FC<DemandProfileEditorProps> = ({
+  profile,
+  topology,
+  numLanes,
+  simulationDuration = 0,
+  onChange,
+  unitSystem = 'imperial',
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const conversions = getUnitConversions(unitSystem);
+  const isOpen = topology === "open";
+
+  // Open-road demand is an inflow and needs no conversion; ring demand is a density
+  const toDisplay = (demand: number) => (isOpen ? demand : conversions.density.toDisplay(demand));
+  const fromDisplay = (value: number) => (isOpen ? value : conversions.density.fromDisplay(value));
+  const demandUnit = isOpen ? "veh/h/lane" : conversions.density.unit;
+
+  // Rows stay in the order they were added so editing a time does not move them;
+  // the simulation sorts the points by time
+  const points = profile;
+  const lastTime = points.reduce((latest, point) => Math.max(latest, point.time), 0);
+
+  const updatePoint = (index: number, changes: Partial<DemandPoint>) => {
+    onChange(points.map((point, i) => (i === index ? { ...point, ...changes } : point)));
+  };
+
+  const addPoint = () => {
+    const last = sortDemandProfile(points)[points.length - 1];
+    onChange([...points, last ? { time: last.time + 300, demand: last.demand } : { time: 0, demand: isOpen ? 1200 : 20 * numLanes }]);
+  };
+
+  const handleImportCsv = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ""; // allow picking the same file again
+    if (!file) return;
+    try {
+      const imported = parseDemandCsv(await file.text());
+      onChange(imported);
+      toast({
+        title: "Demand profile imported",
+        description: `${imported.length} points from ${file.name}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Could not read the file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleExportCsv = () => {
+    const blob = new Blob([demandProfileToCsv(points)], { type: "text/csv;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const downloadLink = document.createElement("a");
+    downloadLink.href = url;
+    downloadLink.download = "demand-profile.csv";
+    document.body.appendChild(downloadLink);
+    downloadLink.click();
+    document.body.removeChild(downloadLink);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      {points.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Constant demand. Add points, load a rush hour or import a CSV of "time,demand" rows
+          (seconds and {isOpen ? "veh/h/lane" : "vehicles per km across all lanes"}) to vary it over the run.
+        </p>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          {isOpen
+            ? "Upstream inflow, interpolated linearly between points."
+            : "Vehicles on the ring per unit length across all lanes, interpolated linearly between points. Exiting cars are not replaced while there are too many."}
+        </p>
+      )}
+
+      {points.length > 0 && (
+        <div className="space-y-1">
+          <div className="grid grid-cols-[1fr_1fr_2rem] gap-2">
+            <Label className="text-xs">Time (s)</Label>
+            <Label className="text-xs">Demand ({demandUnit})</Label>
+          </div>
+          {points.map((point, index) => (
+            <div key={index} className="grid grid-cols-[1fr_1fr_2rem] gap-2 items-center">
+              <Input
+                type="number"
+                className="h-8 text-xs"
+                value={point.time}
+                onChange={(e) => updatePoint(index, { time: Math.max(0, Number(e.target.value) || 0) })}
+                min={0}
+                step={60}
+              />
+              <Input
+                type="number"
+                className="h-8 text-xs"
+                value={parseFloat(toDisplay(point.demand).toFixed(2))}
+                onChange={(e) => updatePoint(index, { demand: fromDisplay(Math.max(0, Number(e.target.value) || 0)) })}
+                min={0}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => onChange(points.filter((_, i) => i !== index))}
+                aria-label="Remove demand point"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {simulationDuration > 0 && lastTime > simulationDuration && (
+        <p className="text-xs text-amber-600">
+          The run ends after {simulationDuration}s, before the last point at {lastTime}s.
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={addPoint}>
+          <Plus className="h-3 w-3 mr-1" /> Point
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 px-2 text-xs"
+          onClick={() => onChange(createRushHourProfile(topology, numLanes))}
+        >
+          <TrendingUp className="h-3 w-3 mr-1" /> Rush hour
+        </Button>
+        <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="h-3 w-3 mr-1" /> CSV
+        </Button>
+        {points.length > 0 && (
+          <>
+            <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={handleExportCsv}>
+              <Download className="h-3 w-3 mr-1" /> CSV
+            </Button>
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => onChange([])}>
+              Clear
+            </Button>
+          </>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,text/csv,text/plain"
+          className="hidden"
+          onChange={handleImportCsv}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default DemandProfileEditor;
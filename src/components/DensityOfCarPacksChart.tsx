@@ -7,6 +7,8 @@ import { Download } from "lucide-react";
 import { Car } from "@/utils/trafficSimulation";
 import { useToast } from "@/hooks/use-toast";
 import { calculateStabilizedValue, extractDataValues } from "@/utils/stabilizedValueCalculator";
+import type { ScenarioEvent } from "@/utils/scenarioEvents";
+import { renderScenarioEventMarkers } from "./scenarioEventMarkers";
 
 interface DensityOfCarPacksDataPoint {
   time: number;
@@ -22,6 +24,7 @@ interface DensityOfCarPacksChartProps {
   dataHistory: DensityOfCarPacksDataPoint[];
   numLanes: number;
   trafficRule: 'american' | 'european';
+  scenarioEvents?: ScenarioEvent[]; // scripted events to mark on the time axis
 }
 
 // Helper function to identify packs across all lanes
@@ -71,7 +74,8 @@ const DensityOfCarPacksChart: React.FC<DensityOfCarPacksChartProps> = ({
   laneLength,
   dataHistory,
   numLanes,
-  trafficRule
+  trafficRule,
+  scenarioEvents = []
 }) => {
   const chartRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
@@ -211,6 +215,7 @@ const DensityOfCarPacksChart: React.FC<DensityOfCarPacksChartProps> = ({
               />
               <ChartTooltip content={<ChartTooltipContent />} />
               <Legend />
+              {renderScenarioEventMarkers(scenarioEvents, chartData)}
               
               <Line
                 dataKey="overallDensity"
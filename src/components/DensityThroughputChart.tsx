@@ -10,6 +10,7 @@ import { Car } from "@/utils/trafficSimulation";
 import { useToast } from "@/hooks/use-toast";
 import { calculateStabilizedValue, extractDataValues } from "@/utils/stabilizedValueCalculator";
 import { getUnitConversions } from "@/utils/unitConversion";
+import { compareWithMacro, type CtmSeriesPoint } from "@/utils/cellTransmission";
 
 interface DensityThroughputDataPoint {
   density: number;
@@ -26,8 +27,12 @@ interface DensityThroughputChartProps {
   trafficRule: 'american' | 'european';
   unitSystem?: UnitSystem;
   simulationParams: any;
+  macroSeries?: CtmSeriesPoint[]; // Cell Transmission Model prediction for the same road
 }
 
+// The macroscopic prediction is drawn as a line only
+const renderLineOnly = () => <g />;
+
 const DensityThroughputChart: React.FC<DensityThroughputChartProps> = ({
   cars,
   laneLength,
@@ -36,7 +41,8 @@ const DensityThroughputChart: React.FC<DensityThroughputChartProps> = ({
   numLanes,
   trafficRule,
   unitSystem = 'imperial',
-  simulationParams
+  simulationParams,
+  macroSeries
 }) => {
   const chartRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
@@ -47,8 +53,8 @@ const DensityThroughputChart: React.FC<DensityThroughputChartProps> = ({
     
     const avgSpeed = cars.reduce((sum, car) => sum + car.speed, 0) / cars.length;
     const density = cars.length / laneLength;
-    const throughputPerLane = avgSpeed * density;
-    const totalThroughput = throughputPerLane * (cars.length > 0 ? Math.max(...cars.map(c => c.lane)) + 1 : 1);
+    // Density counts every lane, so this is the flow across all lanes
+    const totalThroughput = avgSpeed * density;
     
     return {
       time: parseFloat(elapsedTime.toFixed(2)),
@@ -72,6 +78,23 @@ const DensityThroughputChart: React.FC<DensityThroughputChartProps> = ({
     return historicalData;
   }, [dataHistory, currentPoint]);
 
+  // Macroscopic flow over the time span the micro samples cover
+  const macroData = useMemo(() => {
+    if (!macroSeries || chartData.length === 0) return [];
+    const start = chartData[0].time;
+    const end = chartData[chartData.length - 1].time;
+    return macroSeries
+      .filter(point => point.time >= start && point.time <= end)
+      .map(point => ({ time: parseFloat(point.time.toFixed(2)), throughput: Math.round(point.flow) }));
+  }, [macroSeries, chartData]);
+
+  const macroAgreement = useMemo(
+    () =>
+      macroSeries &&
+      compareWithMacro(dataHistory.map(point => ({ time: point.time, value: point.throughput })), macroSeries, "flow"),
+    [macroSeries, dataHistory]
+  );
+
   // Calculate stabilized values for density and throughput
   const stabilizedValues = useMemo(() => {
     const densityData = extractDataValues(dataHistory, 'density');
@@ -252,6 +275,13 @@ const DensityThroughputChart: React.FC<DensityThroughputChartProps> = ({
                 stroke="hsl(var(--destructive))"
                 strokeWidth={2}
               />
+              {macroData.length > 0 && (
+                <Scatter
+                  data={macroData}
+                  line={{ stroke: "hsl(var(--muted-foreground))", strokeDasharray: "5 3", strokeWidth: 2 }}
+                  shape={renderLineOnly}
+                />
+              )}
             </ScatterChart>
           </ChartContainer>
         </div>
@@ -279,6 +309,14 @@ const DensityThroughputChart: React.FC<DensityThroughputChartProps> = ({
               </span>
             </div>
           </div>
+          {macroAgreement && (
+            <div className="flex justify-between text-xs mt-2">
+              <span>Micro vs CTM (mean difference):</span>
+              <span className="font-mono">
+                {Math.round(macroAgreement.meanAbsoluteError)} veh/h ({Math.round(macroAgreement.relativeError * 100)}%)
+              </span>
+            </div>
+          )}
           <p className="text-xs text-gray-500 mt-2">
             ✓ indicates stabilized operating conditions. This shows the steady-state flow characteristics.
           </p>
@@ -287,6 +325,7 @@ const DensityThroughputChart: React.FC<DensityThroughputChartProps> = ({
         <div className="mt-4 text-xs text-muted-foreground">
           <p>• Blue dots: Historical data points</p>
           <p>• Red dot: Current simulation state</p>
+          {macroSeries && <p>• Dashed line: Cell Transmission Model (macroscopic) prediction</p>}
           <p>• Optimal throughput typically occurs at moderate densities</p>
         </div>
         
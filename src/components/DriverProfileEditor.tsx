@@ -0,0 +1,150 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  driverTraitBounds,
+  type DriverProfile,
+  type DriverTrait,
+  type Distribution,
+} from "@/utils/driverProfiles";
+
+interface DriverProfileEditorProps {
+  profiles: DriverProfile[];
+  onChange: (profiles: DriverProfile[]) => void;
+}
+
+// Traits in the order they are listed, with the fallback shown for optional ones
+const traits: { key: DriverTrait; label: string; unit?: string; step: number; fallback?: string }[] = [
+  { key: "laneChangeProbability", label: "Lane-change prob.", step: 0.05 },
+  { key: "laneStickiness", label: "Lane stickiness", step: 0.05 },
+  { key: "politeness", label: "Politeness", step: 0.05, fallback: "global" },
+  { key: "speedFactor", label: "Speed multiplier", step: 0.05, fallback: "1" },
+  { key: "timeHeadway", label: "Time headway", unit: "s", step: 0.1, fallback: "global" },
+  { key: "reactionTime", label: "Reaction time", unit: "s", step: 0.1, fallback: "global" },
+];
+
+// Next unused id of the form "profile-N"
+const nextProfileId = (profiles: DriverProfile[]): string => {
+  const numbers = profiles.map(profile => parseInt(profile.id.replace(/^profile-/, ""), 10)).filter(n => !isNaN(n));
+  return `profile-${numbers.length > 0 ? Math.max(...numbers) + 1 : 1}`;
+};
+
+export const DriverProfileEditor: React.FC<DriverProfileEditorProps> = ({ profiles, onChange }) => {
+  const total = profiles.reduce((sum, profile) => sum + profile.share, 0);
+
+  const updateProfile = (id: string, changes: Partial<DriverProfile>) => {
+    onChange(profiles.map(profile => (profile.id === id ? { ...profile, ...changes } : profile)));
+  };
+
+  // Mean and spread are edited; the clipping range is kept, or the trait's
+  // full range when an optional trait gets a distribution. Clearing the mean
+  // of an optional trait hands it back to the global parameters.
+  const updateTrait = (profile: DriverProfile, key: DriverTrait, field: "mean" | "sd", value: string) => {
+    const current = profile[key];
+    if (value === "" && field === "mean" && key !== "laneChangeProbability" && key !== "laneStickiness") {
+      updateProfile(profile.id, { [key]: undefined });
+      return;
+    }
+    const { min, max } = current ?? driverTraitBounds[key];
+    const number = Math.max(0, Number(value) || 0);
+    const distribution: Distribution = { mean: (min + max) / 2, sd: 0, min, max, ...current, [field]: number };
+    updateProfile(profile.id, { [key]: distribution });
+  };
+
+  const addProfile = () => {
+    onChange([
+      ...profiles,
+      {
+        id: nextProfileId(profiles),
+        name: "New profile",
+        share: 0,
+        laneChangeProbability: { mean: 0.5, sd: 0.15, min: 0, max: 1 },
+        laneStickiness: { mean: 0.6, sd: 0.15, min: 0, max: 1 },
+      },
+    ]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {profiles.map(profile => (
+        <div key={profile.id} className="p-2 rounded-md border border-gray-200 space-y-2">
+          <div className="flex items-center gap-2">
+            <Input
+              className="h-8 text-xs"
+              value={profile.name}
+              onChange={(e) => updateProfile(profile.id, { name: e.target.value })}
+              aria-label="Profile name"
+            />
+            <Input
+              type="number"
+              className="h-8 w-20 text-xs shrink-0"
+              value={profile.share}
+              onChange={(e) => updateProfile(profile.id, { share: Math.max(0, Number(e.target.value) || 0) })}
+              min={0}
+              max={100}
+              aria-label="Share (%)"
+            />
+            <span className="text-xs text-muted-foreground">%</span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0"
+              onClick={() => onChange(profiles.filter(p => p.id !== profile.id))}
+              disabled={profiles.length <= 1}
+              aria-label="Remove driver profile"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-[1fr_4.5rem_4.5rem] gap-x-2 gap-y-1 items-center">
+            <span />
+            <Label className="text-xs text-muted-foreground">Mean</Label>
+            <Label className="text-xs text-muted-foreground">Std. dev.</Label>
+            {traits.map(trait => {
+              const distribution = profile[trait.key];
+              return (
+                <React.Fragment key={trait.key}>
+                  <Label className="text-xs">
+                    {trait.label}{trait.unit ? ` (${trait.unit})` : ""}
+                  </Label>
+                  <Input
+                    type="number"
+                    className="h-7 text-xs"
+                    value={distribution?.mean ?? ""}
+                    placeholder={trait.fallback}
+                    onChange={(e) => updateTrait(profile, trait.key, "mean", e.target.value)}
+                    step={trait.step}
+                    min={0}
+                  />
+                  <Input
+                    type="number"
+                    className="h-7 text-xs"
+                    value={distribution?.sd ?? ""}
+                    disabled={!distribution}
+                    onChange={(e) => updateTrait(profile, trait.key, "sd", e.target.value)}
+                    step={trait.step}
+                    min={0}
+                  />
+                </React.Fragment>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={addProfile}>
+          <Plus className="h-3 w-3 mr-1" /> Driver profile
+        </Button>
+        <span className="text-xs text-muted-foreground">
+          Total: {total}%{total !== 100 && total > 0 ? " (shares are scaled to 100%)" : ""}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default DriverProfileEditor;
@@ -4,6 +4,14 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { toast } from "@/hooks/use-toast";
 import { SimulationParams } from "@/utils/trafficSimulation";
+import { carFollowingModels, defaultCarFollowingSettings, type CarFollowingSettings } from "@/utils/carFollowing";
+import type { Ramp } from "@/utils/ramps";
+import type { LaneClosure, RoadSegment } from "@/utils/roadGeometry";
+import { scenarioEventLabels, type ScenarioEvent } from "@/utils/scenarioEvents";
+import type { SpeedLimitZone } from "@/utils/speedZones";
+import { defaultVehicleClasses, vehicleIcons, type VehicleClass } from "@/utils/vehicleClasses";
+import type { DriverProfile } from "@/utils/driverProfiles";
+import type { LaneRule } from "@/utils/laneRules";
 import { Copy, FileText } from "lucide-react";
 
 interface BatchSimulation {
@@ -121,7 +129,14 @@ export const JsonImportExport: React.FC<JsonImportExportProps> = ({ onImport, on
         'truckLength', 'motorcycleLength', 'truckPercentage', 'motorcyclePercentage',
         'carPercentage', 'dt', 'aMax', 'k', 'lengthCar', 'initialGap',
         'brakeTime', 'brakeCarIndex', 'minSpeed', 'stdSpeed', 'sigmaDistTripPlanned',
-        'politenessFactor', 'rightLaneBias', 'accelerationThreshold', 'simulationDuration'
+        'politenessFactor', 'rightLaneBias', 'accelerationThreshold', 'simulationDuration',
+        'seed', 'carFollowingModel', 'carFollowingParams', 'roadTopology', 'inflowRate',
+        'inflowDistribution', 'ramps', 'roadSegments', 'laneClosures', 'scenarioEvents',
+        'brakeSpeed', 'brakeDuration', 'speedLimitZones', 'safeDeceleration', 'safetyThresholds',
+        'reactionTime', 'sdReactionTime', 'vehicleClasses', 'driverProfiles', 'cavPenetration',
+        'caccTimeGap', 'laneRules', 'occupancyShares', 'keepRightCompliance',
+        'demandProfile', 'engine', 'caCellSize', 'caLaneChangeRule', 'caSlowdownProbability',
+        'trajectoryInterval'
       ];
       
       console.log('Current params before import:', currentParams);
@@ -136,18 +151,244 @@ export const JsonImportExport: React.FC<JsonImportExportProps> = ({ onImport, on
         }
       });
       
-      // Special handling for nested objects like vehicleTypeDensity
+      if (validParams.vehicleClasses !== undefined) {
+        const isVehicleClass = (vehicleClass: unknown) =>
+          typeof vehicleClass === 'object' && vehicleClass !== null &&
+          typeof (vehicleClass as VehicleClass).id === 'string' &&
+          typeof (vehicleClass as VehicleClass).name === 'string' &&
+          typeof (vehicleClass as VehicleClass).length === 'number' &&
+          typeof (vehicleClass as VehicleClass).desiredSpeedFactor === 'number' &&
+          ['undefined', 'boolean'].includes(typeof (vehicleClass as VehicleClass).cacc) &&
+          vehicleIcons.includes((vehicleClass as VehicleClass).icon);
+        if (
+          !Array.isArray(validParams.vehicleClasses) ||
+          validParams.vehicleClasses.length === 0 ||
+          !validParams.vehicleClasses.every(isVehicleClass)
+        ) {
+          throw new Error('Invalid vehicleClasses: expected an array of { id, name, length, desiredSpeedFactor, icon, ... }');
+        }
+      }
+
+      if (validParams.driverProfiles !== undefined) {
+        const isDistribution = (distribution: unknown) =>
+          typeof distribution === 'object' && distribution !== null &&
+          ['mean', 'sd', 'min', 'max'].every(key => typeof (distribution as Record<string, unknown>)[key] === 'number');
+        const isProfile = (profile: unknown) =>
+          typeof profile === 'object' && profile !== null &&
+          typeof (profile as DriverProfile).id === 'string' &&
+          typeof (profile as DriverProfile).name === 'string' &&
+          typeof (profile as DriverProfile).share === 'number' &&
+          isDistribution((profile as DriverProfile).laneChangeProbability) &&
+          isDistribution((profile as DriverProfile).laneStickiness) &&
+          (['politeness', 'speedFactor', 'timeHeadway', 'reactionTime'] as const).every(
+            trait => (profile as DriverProfile)[trait] === undefined || isDistribution((profile as DriverProfile)[trait])
+          );
+        if (
+          !Array.isArray(validParams.driverProfiles) ||
+          validParams.driverProfiles.length === 0 ||
+          !validParams.driverProfiles.every(isProfile)
+        ) {
+          throw new Error(
+            'Invalid driverProfiles: expected an array of { id, name, share, laneChangeProbability, laneStickiness, ... } with { mean, sd, min, max } distributions'
+          );
+        }
+      }
+
+      if (validParams.laneRules !== undefined) {
+        const isClassList = (classes: unknown) =>
+          classes === undefined || (Array.isArray(classes) && classes.every(id => typeof id === 'string'));
+        const isLaneRule = (rule: unknown) =>
+          typeof rule === 'object' && rule !== null &&
+          typeof (rule as LaneRule).id === 'string' &&
+          typeof (rule as LaneRule).lane === 'number' &&
+          ['undefined', 'number'].includes(typeof (rule as LaneRule).minOccupancy) &&
+          isClassList((rule as LaneRule).allowedClasses) &&
+          isClassList((rule as LaneRule).exemptClasses);
+        if (!Array.isArray(validParams.laneRules) || !validParams.laneRules.every(isLaneRule)) {
+          throw new Error('Invalid laneRules: expected an array of { id, lane, allowedClasses?, minOccupancy?, exemptClasses? }');
+        }
+      }
+
+      if (
+        validParams.occupancyShares !== undefined &&
+        (!Array.isArray(validParams.occupancyShares) ||
+          !validParams.occupancyShares.every(share => typeof share === 'number' && share >= 0))
+      ) {
+        throw new Error('Invalid occupancyShares: expected an array of percentages for 1, 2, 3, ... people on board');
+      }
+
+      (['randomSlowdownProbability', 'randomSlowdownAmount', 'randomSlowdownDuration'] as const).forEach(key => {
+        const value = validParams[key];
+        if (value !== undefined && (typeof value !== 'number' || value < 0)) {
+          throw new Error(`Invalid ${key}: expected a number of at least 0`);
+        }
+      });
+      if ((validParams.randomSlowdownProbability ?? 0) > 1) {
+        throw new Error('Invalid randomSlowdownProbability: expected a chance per second between 0 and 1');
+      }
+
+      if (
+        validParams.demandProfile !== undefined &&
+        (!Array.isArray(validParams.demandProfile) ||
+          !validParams.demandProfile.every(point =>
+            typeof point === 'object' && point !== null &&
+            typeof point.time === 'number' && typeof point.demand === 'number'
+          ))
+      ) {
+        throw new Error('Invalid demandProfile: expected an array of { time, demand }');
+      }
+
+      if (validParams.roadTopology !== undefined && !['ring', 'open'].includes(validParams.roadTopology)) {
+        throw new Error('Invalid roadTopology: expected "ring" or "open"');
+      }
+      if (
+        validParams.inflowDistribution !== undefined &&
+        !['poisson', 'uniform'].includes(validParams.inflowDistribution)
+      ) {
+        throw new Error('Invalid inflowDistribution: expected "poisson" or "uniform"');
+      }
+      if (
+        validParams.cavPenetration !== undefined &&
+        (typeof validParams.cavPenetration !== 'number' || validParams.cavPenetration < 0 || validParams.cavPenetration > 100)
+      ) {
+        throw new Error('Invalid cavPenetration: expected a share of connected vehicles between 0 and 100 percent');
+      }
+
+      if (validParams.engine !== undefined && !['continuous', 'cellular'].includes(validParams.engine)) {
+        throw new Error('Invalid engine: expected "continuous" or "cellular"');
+      }
+      if (validParams.caCellSize !== undefined && (typeof validParams.caCellSize !== 'number' || validParams.caCellSize <= 0)) {
+        throw new Error('Invalid caCellSize: expected a cell length in meters above 0');
+      }
+      if (
+        validParams.caLaneChangeRule !== undefined &&
+        !['symmetric', 'asymmetric', 'none'].includes(validParams.caLaneChangeRule)
+      ) {
+        throw new Error('Invalid caLaneChangeRule: expected "symmetric", "asymmetric" or "none"');
+      }
+      if (
+        validParams.caSlowdownProbability !== undefined &&
+        (typeof validParams.caSlowdownProbability !== 'number' ||
+          validParams.caSlowdownProbability < 0 ||
+          validParams.caSlowdownProbability > 1)
+      ) {
+        throw new Error('Invalid caSlowdownProbability: expected a chance per update between 0 and 1');
+      }
+      if (
+        validParams.trajectoryInterval !== undefined &&
+        (typeof validParams.trajectoryInterval !== 'number' || validParams.trajectoryInterval < 0)
+      ) {
+        throw new Error('Invalid trajectoryInterval: expected seconds between frames, or 0 to record nothing');
+      }
+
+      // The vehicle mix in the file replaces the current one; every share
+      // must name a class of the imported (or current) registry
       if (parsedParams.vehicleTypeDensity && typeof parsedParams.vehicleTypeDensity === 'object') {
         console.log('Processing vehicleTypeDensity:', parsedParams.vehicleTypeDensity);
-        validParams.vehicleTypeDensity = { ...currentParams.vehicleTypeDensity };
-        
+        const classIds = (validParams.vehicleClasses ?? currentParams.vehicleClasses ?? defaultVehicleClasses)
+          .map(vehicleClass => vehicleClass.id);
         Object.entries(parsedParams.vehicleTypeDensity).forEach(([type, value]) => {
-          if (['car', 'truck', 'motorcycle'].includes(type) && typeof value === 'number') {
-            console.log(`Setting vehicle type ${type} density to:`, value);
-            // @ts-ignore - We know the type is valid
-            validParams.vehicleTypeDensity[type] = value;
+          if (!classIds.includes(type)) {
+            throw new Error(`Unknown vehicle class in vehicleTypeDensity: ${type}`);
+          }
+          if (typeof value !== 'number' || value < 0) {
+            throw new Error(`Invalid share for vehicle class ${type}: expected a non-negative number`);
+          }
+        });
+        validParams.vehicleTypeDensity = { ...parsedParams.vehicleTypeDensity };
+      }
+
+      // Merge partial car-following parameters over the current ones
+      if (parsedParams.carFollowingParams && typeof parsedParams.carFollowingParams === 'object') {
+        const carFollowingParams: CarFollowingSettings = {
+          ...defaultCarFollowingSettings,
+          ...currentParams.carFollowingParams,
+        };
+
+        Object.entries(parsedParams.carFollowingParams).forEach(([key, value]) => {
+          if (key in defaultCarFollowingSettings && typeof value === 'number') {
+            carFollowingParams[key as keyof CarFollowingSettings] = value;
           }
         });
+        validParams.carFollowingParams = carFollowingParams;
+      }
+
+      if (validParams.safetyThresholds !== undefined) {
+        const thresholds = validParams.safetyThresholds as unknown;
+        if (
+          typeof thresholds !== 'object' || thresholds === null ||
+          !Object.entries(thresholds).every(([key, value]) => ['ttc', 'pet', 'drac'].includes(key) && typeof value === 'number')
+        ) {
+          throw new Error('Invalid safetyThresholds: expected { ttc, pet, drac } numbers');
+        }
+      }
+
+      if (validParams.ramps !== undefined) {
+        const isRamp = (ramp: unknown) =>
+          typeof ramp === 'object' && ramp !== null &&
+          typeof (ramp as Ramp).id === 'string' &&
+          ((ramp as Ramp).type === 'on' || (ramp as Ramp).type === 'off') &&
+          ((ramp as Ramp).side === 'left' || (ramp as Ramp).side === 'right') &&
+          typeof (ramp as Ramp).position === 'number' &&
+          typeof (ramp as Ramp).length === 'number';
+        if (!Array.isArray(validParams.ramps) || !validParams.ramps.every(isRamp)) {
+          throw new Error('Invalid ramps: expected an array of { id, type, side, position, length }');
+        }
+      }
+
+      if (validParams.roadSegments !== undefined) {
+        const isSegment = (segment: unknown) =>
+          typeof segment === 'object' && segment !== null &&
+          typeof (segment as RoadSegment).id === 'string' &&
+          typeof (segment as RoadSegment).start === 'number' &&
+          typeof (segment as RoadSegment).end === 'number' &&
+          typeof (segment as RoadSegment).numLanes === 'number';
+        if (!Array.isArray(validParams.roadSegments) || !validParams.roadSegments.every(isSegment)) {
+          throw new Error('Invalid roadSegments: expected an array of { id, start, end, numLanes }');
+        }
+      }
+
+      if (validParams.laneClosures !== undefined) {
+        const isClosure = (closure: unknown) =>
+          typeof closure === 'object' && closure !== null &&
+          typeof (closure as LaneClosure).id === 'string' &&
+          typeof (closure as LaneClosure).lane === 'number' &&
+          typeof (closure as LaneClosure).start === 'number' &&
+          typeof (closure as LaneClosure).end === 'number';
+        if (!Array.isArray(validParams.laneClosures) || !validParams.laneClosures.every(isClosure)) {
+          throw new Error('Invalid laneClosures: expected an array of { id, lane, start, end }');
+        }
+      }
+
+      if (validParams.scenarioEvents !== undefined) {
+        const isScenarioEvent = (event: unknown) =>
+          typeof event === 'object' && event !== null &&
+          typeof (event as ScenarioEvent).id === 'string' &&
+          typeof (event as ScenarioEvent).time === 'number' &&
+          (event as ScenarioEvent).type in scenarioEventLabels;
+        if (!Array.isArray(validParams.scenarioEvents) || !validParams.scenarioEvents.every(isScenarioEvent)) {
+          throw new Error('Invalid scenarioEvents: expected an array of { id, time, type, ... }');
+        }
+        const topology = validParams.roadTopology ?? currentParams.roadTopology ?? 'ring';
+        if (topology !== 'open' && validParams.scenarioEvents.some(event => event.type === 'demand')) {
+          throw new Error('Invalid scenarioEvents: demand events need an open road (roadTopology "open")');
+        }
+      }
+
+      if (validParams.speedLimitZones !== undefined) {
+        const isZone = (zone: unknown) =>
+          typeof zone === 'object' && zone !== null &&
+          typeof (zone as SpeedLimitZone).id === 'string' &&
+          typeof (zone as SpeedLimitZone).start === 'number' &&
+          typeof (zone as SpeedLimitZone).end === 'number' &&
+          typeof (zone as SpeedLimitZone).speedLimit === 'number';
+        if (!Array.isArray(validParams.speedLimitZones) || !validParams.speedLimitZones.every(isZone)) {
+          throw new Error('Invalid speedLimitZones: expected an array of { id, start, end, speedLimit }');
+        }
+      }
+
+      if (validParams.carFollowingModel !== undefined && !(validParams.carFollowingModel in carFollowingModels)) {
+        throw new Error(`Unknown car-following model: ${validParams.carFollowingModel}`);
       }
       
       console.log('Final params to import:', validParams);
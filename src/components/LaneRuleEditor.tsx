@@ -0,0 +1,158 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Plus, Trash2 } from "lucide-react";
+import { hasOccupancyRules, type LaneRule } from "@/utils/laneRules";
+import type { VehicleClass } from "@/utils/vehicleClasses";
+
+interface LaneRuleEditorProps {
+  rules: LaneRule[];
+  occupancyShares: number[];
+  vehicleClasses: VehicleClass[];
+  numLanes: number;
+  onChange: (changes: { laneRules?: LaneRule[]; occupancyShares?: number[] }) => void;
+}
+
+// Next unused id of the form "rule-N"
+const nextRuleId = (rules: LaneRule[]): string => {
+  const numbers = rules.map(rule => parseInt(rule.id.replace(/^rule-/, ""), 10)).filter(n => !isNaN(n));
+  return `rule-${numbers.length > 0 ? Math.max(...numbers) + 1 : 1}`;
+};
+
+export const LaneRuleEditor: React.FC<LaneRuleEditorProps> = ({
+  rules,
+  occupancyShares,
+  vehicleClasses,
+  numLanes,
+  onChange,
+}) => {
+  const updateRule = (id: string, changes: Partial<LaneRule>) => {
+    onChange({ laneRules: rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)) });
+  };
+
+  // Managed lanes are usually the leftmost one
+  const addRule = () => {
+    onChange({ laneRules: [...rules, { id: nextRuleId(rules), lane: 0, minOccupancy: 2 }] });
+  };
+
+  const classToggles = (value: string[] | undefined, onValueChange: (values: string[]) => void) => (
+    <ToggleGroup
+      type="multiple"
+      size="sm"
+      className="justify-start flex-wrap gap-1"
+      value={value ?? []}
+      onValueChange={onValueChange}
+    >
+      {vehicleClasses.map(vehicleClass => (
+        <ToggleGroupItem key={vehicleClass.id} value={vehicleClass.id} className="h-7 px-2 text-xs">
+          {vehicleClass.name}
+        </ToggleGroupItem>
+      ))}
+    </ToggleGroup>
+  );
+
+  return (
+    <div className="space-y-3">
+      {rules.length === 0 && (
+        <p className="text-xs text-muted-foreground">No lane rules. Every vehicle may use every lane its class allows.</p>
+      )}
+
+      {rules.map(rule => (
+        <div key={rule.id} className="p-2 rounded-md border border-gray-200 space-y-2">
+          <div className="flex items-center gap-2">
+            <Select value={String(rule.lane)} onValueChange={(value) => updateRule(rule.id, { lane: Number(value) })}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: numLanes }, (_, lane) => (
+                  <SelectItem key={lane} value={String(lane)}>
+                    Lane {lane + 1}{lane === 0 ? " (left)" : lane === numLanes - 1 ? " (right)" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0"
+              onClick={() => onChange({ laneRules: rules.filter(r => r.id !== rule.id) })}
+              aria-label="Remove lane rule"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs">Allowed classes (all when none selected)</Label>
+            {classToggles(rule.allowedClasses, (values) =>
+              updateRule(rule.id, { allowedClasses: values.length > 0 ? values : undefined })
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs">Minimum occupancy (HOV)</Label>
+            <Input
+              type="number"
+              className="h-8 text-xs"
+              value={rule.minOccupancy ?? 1}
+              onChange={(e) => {
+                const minOccupancy = Math.max(1, Math.round(Number(e.target.value) || 1));
+                updateRule(rule.id, { minOccupancy: minOccupancy > 1 ? minOccupancy : undefined });
+              }}
+              step={1}
+              min={1}
+            />
+          </div>
+
+          {(rule.minOccupancy ?? 1) > 1 && (
+            <div className="space-y-1">
+              <Label className="text-xs">Exempt from occupancy</Label>
+              {classToggles(rule.exemptClasses, (values) =>
+                updateRule(rule.id, { exemptClasses: values.length > 0 ? values : undefined })
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+
+      {hasOccupancyRules(rules) && (
+        <div className="space-y-1">
+          <Label className="text-xs">Vehicles by people on board (%)</Label>
+          <div className="grid grid-cols-4 gap-2">
+            {occupancyShares.map((share, index) => (
+              <div key={index} className="space-y-1">
+                <span className="text-xs text-muted-foreground">
+                  {index + 1}{index === occupancyShares.length - 1 ? "+" : ""}
+                </span>
+                <Input
+                  type="number"
+                  className="h-8 text-xs"
+                  value={share}
+                  onChange={(e) =>
+                    onChange({
+                      occupancyShares: occupancyShares.map((s, i) =>
+                        i === index ? Math.max(0, Number(e.target.value) || 0) : s
+                      ),
+                    })
+                  }
+                  min={0}
+                  max={100}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={addRule}>
+        <Plus className="h-3 w-3 mr-1" /> Lane rule
+      </Button>
+    </div>
+  );
+};
+
+export default LaneRuleEditor;
@@ -7,6 +7,8 @@ import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, Responsi
 import { Download, Info } from "lucide-react";
 import { Car } from "@/utils/trafficSimulation";
 import { useToast } from "@/hooks/use-toast";
+import { describeLaneRules, type LaneRule } from "@/utils/laneRules";
+import type { VehicleClass } from "@/utils/vehicleClasses";
 
 interface LaneUtilizationDataPoint {
   time: number;
@@ -18,6 +20,8 @@ interface LaneUtilizationChartProps {
   elapsedTime: number;
   dataHistory: LaneUtilizationDataPoint[];
   numLanes: number;
+  laneRules?: LaneRule[];
+  vehicleClasses?: VehicleClass[];
 }
 
 const LANE_COLORS = [
@@ -33,11 +37,24 @@ const LaneUtilizationChart: React.FC<LaneUtilizationChartProps> = ({
   cars,
   elapsedTime,
   dataHistory,
-  numLanes
+  numLanes,
+  laneRules,
+  vehicleClasses
 }) => {
   const chartRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
 
+  // Restrictions per lane, e.g. "HOV 2+"; empty for open lanes
+  const laneRestrictions = useMemo(
+    () => Array.from({ length: numLanes }, (_, index) => describeLaneRules(laneRules, index, vehicleClasses)),
+    [laneRules, vehicleClasses, numLanes]
+  );
+
+  const laneName = (index: number) => {
+    const side = index === 0 ? ' (Left)' : index === numLanes - 1 ? ' (Right)' : '';
+    return `Lane ${index + 1}${side}${laneRestrictions[index] ? ` · ${laneRestrictions[index]}` : ''}`;
+  };
+
   const currentPoint = useMemo(() => {
     const laneDistribution: { [key: string]: number } = {};
     const totalCars = cars.length;
@@ -213,6 +230,9 @@ const LaneUtilizationChart: React.FC<LaneUtilizationChartProps> = ({
                       style={{ backgroundColor: LANE_COLORS[index % LANE_COLORS.length] }}
                     />
                     <span className="font-medium">Lane {index + 1}</span>
+                    {laneRestrictions[index] && (
+                      <span className="px-1 rounded bg-blue-100 text-blue-800">{laneRestrictions[index]}</span>
+                    )}
                   </div>
                   <div className="text-right">
                     <div className={`font-bold ${isOverUtilized ? 'text-red-600' : isUnderUtilized ? 'text-amber-600' : 'text-green-600'}`}>
@@ -236,7 +256,7 @@ const LaneUtilizationChart: React.FC<LaneUtilizationChartProps> = ({
               Array.from({ length: numLanes }, (_, index) => [
                 `lane${index}`,
                 {
-                  label: `Lane ${index + 1}${index === 0 ? ' (Left)' : index === numLanes - 1 ? ' (Right)' : ''}`,
+                  label: laneName(index),
                   color: LANE_COLORS[index % LANE_COLORS.length]
                 }
               ])
@@ -272,7 +292,7 @@ const LaneUtilizationChart: React.FC<LaneUtilizationChartProps> = ({
               <Tooltip 
                 formatter={(value, name) => [
                   `${value}%`, 
-                  `Lane ${parseInt(name.toString().replace('lane', '')) + 1}`
+                  laneName(parseInt(name.toString().replace('lane', '')))
                 ]}
                 labelFormatter={(label) => `Time: ${label}s`}
               />
@@ -284,8 +304,9 @@ const LaneUtilizationChart: React.FC<LaneUtilizationChartProps> = ({
                   key={`lane${index}`}
                   type="monotone"
                   dataKey={`lane${index}`}
-                  name={`Lane ${index + 1}${index === 0 ? ' (Left)' : index === numLanes - 1 ? ' (Right)' : ''}`}
+                  name={laneName(index)}
                   stroke={LANE_COLORS[index % LANE_COLORS.length]}
+                  strokeDasharray={laneRestrictions[index] ? "6 3" : undefined}
                   fill={`url(#gradient-lane${index})`}
                   strokeWidth={2}
                   dot={{ r: 3, strokeWidth: 2 }}
@@ -314,6 +335,9 @@ const LaneUtilizationChart: React.FC<LaneUtilizationChartProps> = ({
           <p>• Left lanes (blue) are typically for faster traffic and passing</p>
           <p>• Right lanes are for slower traffic and vehicles preparing to exit</p>
           <p>• Cars automatically move to exit lanes when approaching their destination</p>
+          {laneRestrictions.some(Boolean) && (
+            <p>• Restricted lanes (dashed) only admit the vehicles their rules allow</p>
+          )}
         </div>
       </CardContent>
     </Card>
@@ -4,8 +4,11 @@ import { Button } from "@/components/ui/button";
 import { ChartContainer } from "@/components/ui/chart";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
 import { Download } from "lucide-react";
-import { Car } from "@/utils/trafficSimulation";
 import { useToast } from "@/hooks/use-toast";
+import type { PackDensityItem } from "@/utils/packMetrics";
+
+export type { PackDensityItem } from "@/utils/packMetrics";
+export { calculatePackDensityMetrics } from "@/utils/packMetrics";
 
 // Helper function to inline styles for SVG export
 const inlineStyles = (svgElement: SVGElement) => {
@@ -86,13 +89,6 @@ const inlineStyles = (svgElement: SVGElement) => {
   });
 };
 
-export interface PackDensityItem {
-  packId: number;
-  carCount: number;
-  avgSpeed: number;
-  density: number;
-}
-
 interface PackDensityChartProps {
   packDensityData: PackDensityItem[];
 }
@@ -245,79 +241,4 @@ const PackDensityChart: React.FC<PackDensityChartProps> = ({ packDensityData })
   );
 };
 
-// Helper function to calculate pack density metrics
-export const calculatePackDensityMetrics = (cars: Car[], laneLength: number): PackDensityItem[] => {
-  if (cars.length === 0) return [];
-  
-  // Sort cars by position
-  const sortedCars = [...cars].sort((a, b) => a.position - b.position);
-  
-  let packId = 1;
-  let packStartIdx = 0;
-  let packs: {
-    packId: number;
-    cars: Car[];
-    startPos: number;
-    endPos: number;
-  }[] = [];
-  
-  // Consistent and reasonable threshold for pack detection
-  const totalGapThreshold = 0.01; // in miles (~53 ft)
-  
-  // First identify packs
-  for (let i = 1; i < sortedCars.length; i++) {
-    const car = sortedCars[i];
-    const prevCar = sortedCars[i - 1];
-    
-    // Calculate gap between current car and previous car
-    let gap = car.position - prevCar.position;
-    
-    // Adjust for track wraparound
-    if (gap < 0) {
-      gap += laneLength;
-    }
-    
-    // Check for new pack based on gap
-    if (gap > totalGapThreshold) {
-      // End current pack
-      let startPos = sortedCars[packStartIdx].position;
-      let endPos = prevCar.position;
-      
-      packs.push({
-        packId,
-        cars: sortedCars.slice(packStartIdx, i),
-        startPos,
-        endPos: endPos < startPos ? endPos + laneLength : endPos // Handle wraparound
-      });
-      
-      // Start new pack
-      packId++;
-      packStartIdx = i;
-    }
-  }
-  
-  // Don't forget the last pack
-  packs.push({
-    packId,
-    cars: sortedCars.slice(packStartIdx),
-    startPos: sortedCars[packStartIdx].position,
-    endPos: sortedCars[sortedCars.length - 1].position
-  });
-  
-  // Calculate metrics for each pack
-  return packs.map(pack => {
-    const carCount = pack.cars.length;
-    const packLength = (pack.endPos - pack.startPos + laneLength) % laneLength;
-    const density = packLength > 0 ? (carCount / packLength) : 0; // Cars per mile
-    const avgSpeed = pack.cars.reduce((sum, car) => sum + car.speed, 0) / carCount;
-    
-    return {
-      packId: pack.packId,
-      carCount,
-      avgSpeed,
-      density
-    };
-  });
-};
-
 export default PackDensityChart;
@@ -4,14 +4,13 @@ import { Button } from "@/components/ui/button";
 import { ChartContainer } from "@/components/ui/chart";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
 import { Download, BarChart2 } from "lucide-react";
-import { Car } from "@/utils/trafficSimulation";
 import { useToast } from "@/hooks/use-toast";
+import type { PackHistoryItem } from "@/utils/packMetrics";
+import type { ScenarioEvent } from "@/utils/scenarioEvents";
+import { renderScenarioEventMarkers } from "./scenarioEventMarkers";
 
-export interface PackHistoryItem {
-  time: number;
-  packCount: number;
-  runId?: string; // Add runId to distinguish between different simulation runs
-}
+export type { PackHistoryItem } from "@/utils/packMetrics";
+export { identifyPacks } from "@/utils/packMetrics";
 
 interface PackFormationChartProps {
   packHistory: PackHistoryItem[];
@@ -19,6 +18,7 @@ interface PackFormationChartProps {
   onSaveCurrentRun?: () => void;
   onTogglePreviousRuns?: () => void;
   showPreviousRuns?: boolean;
+  scenarioEvents?: ScenarioEvent[]; // scripted events to mark on the time axis
 }
 
 const COLORS = [
@@ -34,7 +34,8 @@ const PackFormationChart: React.FC<PackFormationChartProps> = ({
   previousRunsData = [],
   onSaveCurrentRun,
   onTogglePreviousRuns,
-  showPreviousRuns = false
+  showPreviousRuns = false,
+  scenarioEvents = []
 }) => {
   const chartRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
@@ -172,6 +173,7 @@ const PackFormationChart: React.FC<PackFormationChartProps> = ({
               />
               <Tooltip formatter={(value) => [`${value}`, "Number of Packs"]} />
               <Legend />
+              {renderScenarioEventMarkers(scenarioEvents, packHistory)}
               <Line
                 type="monotone"
                 dataKey="packCount"
@@ -204,50 +206,4 @@ const PackFormationChart: React.FC<PackFormationChartProps> = ({
   );
 };
 
-// Helper function to identify packs, to be used across components
-export const identifyPacks = (cars: Car[], laneLength: number): number => {
-  if (!cars.length) return 0;
-
-  const sortedCars = [...cars].sort((a, b) => a.position - b.position);
-
-  let currentPack: number[] = [sortedCars[0].id];
-  let currentPackSpeed = sortedCars[0].speed;
-  let packCount = 0;
-
-  // All thresholds in miles
-  const gapThreshold = 0.20; // in miles (~53 ft)
-  const speedDiffThreshold = 20; // mph
-
-  for (let i = 1; i < sortedCars.length; i++) {
-    const car = sortedCars[i];
-    const prevCar = sortedCars[i - 1];
-
-    // Calculate gap between current car and previous car
-    let gap = car.position - prevCar.position;
-    if (gap < 0) {
-      gap += sortedCars[sortedCars.length - 1].position + gapThreshold; // handle wraparound
-    }
-
-    const speedDifference = Math.abs(car.speed - currentPackSpeed);
-    const isNewPackBySpeed = speedDifference > speedDiffThreshold;
-    const isNewPackByGap = gap > gapThreshold;
-
-    if (!isNewPackBySpeed && !isNewPackByGap) {
-      currentPack.push(car.id);
-    } else {
-      if (currentPack.length > 0) {
-        packCount++;
-      }
-      currentPack = [car.id];
-      currentPackSpeed = car.speed;
-    }
-  }
-
-  if (currentPack.length > 0) {
-    packCount++;
-  }
-
-  return packCount;
-};
-
 export default PackFormationChart;
@@ -7,6 +7,8 @@ import { Download } from "lucide-react";
 import { Car } from "@/utils/trafficSimulation";
 import { useToast } from "@/hooks/use-toast";
 import { calculateStabilizedValue, extractDataValues } from "@/utils/stabilizedValueCalculator";
+import type { ScenarioEvent } from "@/utils/scenarioEvents";
+import { renderScenarioEventMarkers } from "./scenarioEventMarkers";
 
 interface PercentageOfCarsByLaneDataPoint {
   time: number;
@@ -19,6 +21,7 @@ interface PercentageOfCarsByLaneChartProps {
   dataHistory: PercentageOfCarsByLaneDataPoint[];
   numLanes: number;
   trafficRule: 'american' | 'european';
+  scenarioEvents?: ScenarioEvent[]; // scripted events to mark on the time axis
 }
 
 const PercentageOfCarsByLaneChart: React.FC<PercentageOfCarsByLaneChartProps> = ({
@@ -26,7 +29,8 @@ const PercentageOfCarsByLaneChart: React.FC<PercentageOfCarsByLaneChartProps> =
   elapsedTime,
   dataHistory,
   numLanes,
-  trafficRule
+  trafficRule,
+  scenarioEvents = []
 }) => {
   const chartRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
@@ -163,6 +167,7 @@ const PercentageOfCarsByLaneChart: React.FC<PercentageOfCarsByLaneChartProps> =
               />
               <ChartTooltip content={<ChartTooltipContent />} />
               <Legend />
+              {renderScenarioEventMarkers(scenarioEvents, chartData)}
               
               {Array.from({ length: numLanes }, (_, i) => (
                 <Line
@@ -0,0 +1,144 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import type { Ramp, RampSide, RampType } from "@/utils/ramps";
+import { UnitSystem, getUnitConversions } from "@/utils/unitConversion";
+
+interface RampEditorProps {
+  ramps: Ramp[];
+  freewayLength: number; // km
+  onChange: (ramps: Ramp[]) => void;
+  unitSystem?: UnitSystem;
+}
+
+// Next unused id of the form "ramp-N"
+const nextRampId = (ramps: Ramp[]): string => {
+  const numbers = ramps.map(ramp => parseInt(ramp.id.replace(/^ramp-/, ""), 10)).filter(n => !isNaN(n));
+  return `ramp-${numbers.length > 0 ? Math.max(...numbers) + 1 : 1}`;
+};
+
+export const RampEditor: React.FC<RampEditorProps> = ({
+  ramps,
+  freewayLength,
+  onChange,
+  unitSystem = 'imperial',
+}) => {
+  const conversions = getUnitConversions(unitSystem);
+
+  const updateRamp = (id: string, changes: Partial<Ramp>) => {
+    onChange(ramps.map(ramp => (ramp.id === id ? { ...ramp, ...changes } : ramp)));
+  };
+
+  const addRamp = (type: RampType) => {
+    onChange([
+      ...ramps,
+      {
+        id: nextRampId(ramps),
+        type,
+        position: freewayLength / 2,
+        length: 0.3,
+        side: "right",
+        ...(type === "on" ? { flow: 600 } : {}),
+      },
+    ]);
+  };
+
+  // Distances are edited in display units and stored in km, clamped to the road
+  const toKm = (value: string, max: number) =>
+    Math.min(Math.max(conversions.distance.fromDisplay(Number(value) || 0), 0), max);
+
+  return (
+    <div className="space-y-3">
+      {ramps.length === 0 && (
+        <p className="text-xs text-muted-foreground">No ramps. Cars enter and leave as on a plain freeway.</p>
+      )}
+
+      {ramps.map(ramp => (
+        <div key={ramp.id} className="p-2 rounded-md border border-gray-200 space-y-2">
+          <div className="flex items-center gap-2">
+            <Select value={ramp.type} onValueChange={(value: RampType) => updateRamp(ramp.id, { type: value })}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="on">On-ramp</SelectItem>
+                <SelectItem value="off">Off-ramp</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={ramp.side} onValueChange={(value: RampSide) => updateRamp(ramp.id, { side: value })}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="right">Right side</SelectItem>
+                <SelectItem value="left">Left side</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0"
+              onClick={() => onChange(ramps.filter(r => r.id !== ramp.id))}
+              aria-label="Remove ramp"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs">Position ({conversions.distance.unit})</Label>
+              <Input
+                type="number"
+                className="h-8 text-xs"
+                value={parseFloat(conversions.distance.toDisplay(ramp.position).toFixed(2))}
+                onChange={(e) => updateRamp(ramp.id, { position: toKm(e.target.value, freewayLength) })}
+                step={0.1}
+                min={0}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Length ({conversions.distance.unit})</Label>
+              <Input
+                type="number"
+                className="h-8 text-xs"
+                value={parseFloat(conversions.distance.toDisplay(ramp.length).toFixed(2))}
+                onChange={(e) => updateRamp(ramp.id, { length: toKm(e.target.value, freewayLength) })}
+                step={0.05}
+                min={0}
+              />
+            </div>
+          </div>
+
+          {ramp.type === "on" && (
+            <div className="space-y-1">
+              <Label className="text-xs">Demand (veh/h)</Label>
+              <Input
+                type="number"
+                className="h-8 text-xs"
+                value={ramp.flow ?? 0}
+                onChange={(e) => updateRamp(ramp.id, { flow: Math.max(0, Number(e.target.value) || 0) })}
+                step={50}
+                min={0}
+              />
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={() => addRamp("on")}>
+          <Plus className="h-3 w-3 mr-1" /> On-ramp
+        </Button>
+        <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={() => addRamp("off")}>
+          <Plus className="h-3 w-3 mr-1" /> Off-ramp
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default RampEditor;
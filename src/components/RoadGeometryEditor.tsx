@@ -0,0 +1,197 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import type { LaneClosure, RoadSegment } from "@/utils/roadGeometry";
+import { UnitSystem, getUnitConversions } from "@/utils/unitConversion";
+
+interface RoadGeometryEditorProps {
+  roadSegments: RoadSegment[];
+  laneClosures: LaneClosure[];
+  numLanes: number;
+  freewayLength: number; // km
+  onChange: (changes: { roadSegments?: RoadSegment[]; laneClosures?: LaneClosure[] }) => void;
+  unitSystem?: UnitSystem;
+}
+
+// Next unused id of the form "<prefix>-N"
+const nextId = (items: { id: string }[], prefix: string): string => {
+  const numbers = items
+    .map(item => parseInt(item.id.replace(new RegExp(`^${prefix}-`), ""), 10))
+    .filter(n => !isNaN(n));
+  return `${prefix}-${numbers.length > 0 ? Math.max(...numbers) + 1 : 1}`;
+};
+
+export const RoadGeometryEditor: React.FC<RoadGeometryEditorProps> = ({
+  roadSegments,
+  laneClosures,
+  numLanes,
+  freewayLength,
+  onChange,
+  unitSystem = 'imperial',
+}) => {
+  const conversions = getUnitConversions(unitSystem);
+
+  // Distances are edited in display units and stored in km, clamped to the road
+  const toKm = (value: string) =>
+    Math.min(Math.max(conversions.distance.fromDisplay(Number(value) || 0), 0), freewayLength);
+  const toDisplay = (km: number) => parseFloat(conversions.distance.toDisplay(km).toFixed(2));
+
+  const updateSegment = (id: string, changes: Partial<RoadSegment>) => {
+    onChange({ roadSegments: roadSegments.map(segment => (segment.id === id ? { ...segment, ...changes } : segment)) });
+  };
+
+  const updateClosure = (id: string, changes: Partial<LaneClosure>) => {
+    onChange({ laneClosures: laneClosures.map(closure => (closure.id === id ? { ...closure, ...changes } : closure)) });
+  };
+
+  const addSegment = () => {
+    onChange({
+      roadSegments: [
+        ...roadSegments,
+        {
+          id: nextId(roadSegments, "segment"),
+          start: freewayLength / 2,
+          end: Math.min(freewayLength / 2 + 1, freewayLength),
+          numLanes: Math.max(1, numLanes - 1),
+        },
+      ],
+    });
+  };
+
+  const addClosure = () => {
+    onChange({
+      laneClosures: [
+        ...laneClosures,
+        {
+          id: nextId(laneClosures, "closure"),
+          lane: numLanes - 1,
+          start: freewayLength / 4,
+          end: Math.min(freewayLength / 4 + 0.5, freewayLength),
+        },
+      ],
+    });
+  };
+
+  // Start and end inputs shared by segments and closures
+  const renderInterval = (
+    item: { start: number; end: number },
+    update: (changes: { start?: number; end?: number }) => void
+  ) => (
+    <div className="grid grid-cols-2 gap-2">
+      <div className="space-y-1">
+        <Label className="text-xs">From ({conversions.distance.unit})</Label>
+        <Input
+          type="number"
+          className="h-8 text-xs"
+          value={toDisplay(item.start)}
+          onChange={(e) => update({ start: toKm(e.target.value) })}
+          step={0.1}
+          min={0}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs">To ({conversions.distance.unit})</Label>
+        <Input
+          type="number"
+          className="h-8 text-xs"
+          value={toDisplay(item.end)}
+          onChange={(e) => update({ end: toKm(e.target.value) })}
+          step={0.1}
+          min={0}
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Lane Drops</Label>
+        {roadSegments.length === 0 && (
+          <p className="text-xs text-muted-foreground">All {numLanes} lanes run the full length of the road.</p>
+        )}
+        {roadSegments.map(segment => (
+          <div key={segment.id} className="p-2 rounded-md border border-gray-200 space-y-2">
+            <div className="flex items-center gap-2">
+              <Select
+                value={String(segment.numLanes)}
+                onValueChange={(value) => updateSegment(segment.id, { numLanes: Number(value) })}
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: numLanes }, (_, i) => i + 1).map(count => (
+                    <SelectItem key={count} value={String(count)}>
+                      {count} {count === 1 ? "lane" : "lanes"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                onClick={() => onChange({ roadSegments: roadSegments.filter(s => s.id !== segment.id) })}
+                aria-label="Remove lane drop"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            {renderInterval(segment, changes => updateSegment(segment.id, changes))}
+          </div>
+        ))}
+        <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={addSegment} disabled={numLanes < 2}>
+          <Plus className="h-3 w-3 mr-1" /> Lane drop
+        </Button>
+        <p className="text-xs text-muted-foreground">Dropped lanes are taken from the right.</p>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Lane Closures</Label>
+        {laneClosures.length === 0 && (
+          <p className="text-xs text-muted-foreground">No work zones.</p>
+        )}
+        {laneClosures.map(closure => (
+          <div key={closure.id} className="p-2 rounded-md border border-gray-200 space-y-2">
+            <div className="flex items-center gap-2">
+              <Select
+                value={String(closure.lane)}
+                onValueChange={(value) => updateClosure(closure.id, { lane: Number(value) })}
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: numLanes }, (_, lane) => (
+                    <SelectItem key={lane} value={String(lane)}>
+                      Lane {lane + 1}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                onClick={() => onChange({ laneClosures: laneClosures.filter(c => c.id !== closure.id) })}
+                aria-label="Remove lane closure"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            {renderInterval(closure, changes => updateClosure(closure.id, changes))}
+          </div>
+        ))}
+        <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={addClosure}>
+          <Plus className="h-3 w-3 mr-1" /> Lane closure
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default RoadGeometryEditor;
@@ -0,0 +1,219 @@
+import React, { useMemo, useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ReferenceLine } from "recharts";
+import { Download } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  safetyMeasureLabels,
+  type SafetyDistribution,
+  type SafetyMeasure,
+  type SafetySummary,
+} from "@/utils/safetyMetrics";
+
+interface SafetyAnalysisChartProps {
+  summary: SafetySummary | null;
+}
+
+const measureUnits: Record<SafetyMeasure, string> = {
+  collision: "m",
+  ttc: "s",
+  pet: "s",
+  drac: "m/s²",
+};
+
+const measureColors: Record<SafetyMeasure, string> = {
+  collision: "#111827",
+  ttc: "#dc2626",
+  pet: "#f59e0b",
+  drac: "#8b5cf6",
+};
+
+// Conflicts listed under the histogram
+const RECENT_CONFLICTS = 10;
+
+const SafetyAnalysisChart: React.FC<SafetyAnalysisChartProps> = ({ summary }) => {
+  const chartRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
+  const [measure, setMeasure] = useState<SafetyDistribution>("ttc");
+
+  const histogram = useMemo(
+    () =>
+      (summary?.histograms[measure] ?? []).map(bin => ({
+        bin: `${bin.from}`,
+        exposure: parseFloat(bin.exposure.toFixed(1)),
+      })),
+    [summary, measure]
+  );
+
+  const recentConflicts = useMemo(
+    () => (summary?.conflicts ?? []).slice(-RECENT_CONFLICTS).reverse(),
+    [summary]
+  );
+
+  const thresholdBin = useMemo(() => {
+    if (!summary) return undefined;
+    const threshold = summary.thresholds[measure];
+    // Category axis: mark the bin the threshold falls in
+    return summary.histograms[measure].find(bin => threshold >= bin.from && threshold < bin.to)?.from;
+  }, [summary, measure]);
+
+  const handleExportImage = () => {
+    if (!chartRef.current) return;
+
+    try {
+      const svgElement = chartRef.current.querySelector("svg");
+      if (!svgElement) {
+        throw new Error("SVG element not found");
+      }
+
+      const clonedSvg = svgElement.cloneNode(true) as SVGElement;
+      clonedSvg.setAttribute("style", "background-color: white;");
+
+      const svgData = new XMLSerializer().serializeToString(clonedSvg);
+      const svgBlob = new Blob([svgData], { type: "image/svg+xml;charset=utf-8" });
+
+      const downloadLink = document.createElement("a");
+      downloadLink.href = URL.createObjectURL(svgBlob);
+      downloadLink.download = `safety-${measure}-distribution.svg`;
+      document.body.appendChild(downloadLink);
+      downloadLink.click();
+      document.body.removeChild(downloadLink);
+
+      toast({
+        title: "Chart exported",
+        description: "Safety distribution chart has been exported successfully",
+        duration: 3000,
+      });
+    } catch (error) {
+      console.error("Error exporting chart:", error);
+      toast({
+        title: "Export failed",
+        description: "Could not export the chart. Please try again.",
+        variant: "destructive",
+        duration: 3000,
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex justify-between items-center">
+          <CardTitle className="text-lg">Surrogate Safety Measures</CardTitle>
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-1"
+            onClick={handleExportImage}
+          >
+            <Download size={16} />
+            Export
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Conflicts between each vehicle and the one ahead in its lane
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {(Object.keys(safetyMeasureLabels) as SafetyMeasure[]).map(key => (
+            <div key={key} className="p-3 bg-gray-50 rounded-lg">
+              <p className="text-xs text-muted-foreground">{safetyMeasureLabels[key]}</p>
+              <p className="text-2xl font-bold" style={{ color: measureColors[key] }}>
+                {summary?.counts[key] ?? 0}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {key === "collision"
+                  ? "vehicles overlapping"
+                  : `${key === "drac" ? "above" : "below"} ${summary?.thresholds[key] ?? "–"} ${measureUnits[key]}`}
+              </p>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex justify-between items-center">
+            <h4 className="text-sm font-semibold">Exposure distribution</h4>
+            <Select value={measure} onValueChange={(value) => setMeasure(value as SafetyDistribution)}>
+              <SelectTrigger className="w-[240px] h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(["ttc", "pet", "drac"] as SafetyDistribution[]).map(key => (
+                  <SelectItem key={key} value={key}>{safetyMeasureLabels[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="h-[300px]" ref={chartRef}>
+            <ChartContainer
+              className="h-full"
+              config={{ exposure: { label: "Exposure (s)", color: measureColors[measure] } }}
+            >
+              <BarChart data={histogram}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="bin"
+                  label={{ value: `${safetyMeasureLabels[measure]} (${measureUnits[measure]})`, position: "insideBottom", offset: -5 }}
+                />
+                <YAxis label={{ value: "Pair time (s)", angle: -90, position: "insideLeft" }} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                {thresholdBin !== undefined && (
+                  <ReferenceLine
+                    x={`${thresholdBin}`}
+                    stroke="#dc2626"
+                    strokeDasharray="4 4"
+                    label={{ value: "threshold", position: "insideTopRight", fontSize: 10, fill: "#dc2626" }}
+                  />
+                )}
+                <Bar dataKey="exposure" fill={measureColors[measure]} />
+              </BarChart>
+            </ChartContainer>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">Recent conflicts</h4>
+          {recentConflicts.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No conflicts so far.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-xs">Time</TableHead>
+                  <TableHead className="text-xs">Measure</TableHead>
+                  <TableHead className="text-xs">Follower → Leader</TableHead>
+                  <TableHead className="text-xs">Lane</TableHead>
+                  <TableHead className="text-xs text-right">Worst value</TableHead>
+                  <TableHead className="text-xs text-right">Duration</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {recentConflicts.map(conflict => (
+                  <TableRow key={conflict.id}>
+                    <TableCell className="text-xs">{conflict.time.toFixed(1)} s</TableCell>
+                    <TableCell className="text-xs">{safetyMeasureLabels[conflict.measure]}</TableCell>
+                    <TableCell className="text-xs">
+                      Car {conflict.followerId + 1} → Car {conflict.leaderId + 1}
+                    </TableCell>
+                    <TableCell className="text-xs">{conflict.lane + 1}</TableCell>
+                    <TableCell className="text-xs text-right font-mono">
+                      {conflict.value.toFixed(2)} {measureUnits[conflict.measure]}
+                    </TableCell>
+                    <TableCell className="text-xs text-right font-mono">{conflict.duration.toFixed(1)} s</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SafetyAnalysisChart;
@@ -0,0 +1,190 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  scenarioEventLabels,
+  type ScenarioEvent,
+  type ScenarioEventType,
+} from "@/utils/scenarioEvents";
+import type { SimulationParams } from "@/utils/trafficSimulation";
+import { UnitSystem, getUnitConversions } from "@/utils/unitConversion";
+
+interface ScenarioEventEditorProps {
+  events: ScenarioEvent[];
+  params: SimulationParams;
+  onChange: (events: ScenarioEvent[]) => void;
+  unitSystem?: UnitSystem;
+}
+
+// Next unused id of the form "event-N"
+const nextEventId = (events: ScenarioEvent[]): string => {
+  const numbers = events.map(event => parseInt(event.id.replace(/^event-/, ""), 10)).filter(n => !isNaN(n));
+  return `event-${numbers.length > 0 ? Math.max(...numbers) + 1 : 1}`;
+};
+
+// A new event of the given type with values taken from the current parameters
+const createEvent = (type: ScenarioEventType, id: string, time: number, params: SimulationParams): ScenarioEvent => {
+  const laneLength = params.freewayLength ?? 16;
+  switch (type) {
+    case "brake":
+      return { id, type, time, carId: params.brakeCarIndex, speed: params.brakeSpeed ?? 0, duration: 10 };
+    case "stall":
+      return { id, type, time, carId: params.brakeCarIndex, duration: 30 };
+    case "closeLane":
+      return { id, type, time, lane: (params.numLanes ?? 1) - 1, start: laneLength / 2, end: Math.min(laneLength / 2 + 0.5, laneLength), duration: 120 };
+    case "speedLimit":
+      return { id, type, time, speedLimit: Math.round(params.speedLimit * 0.7) };
+    case "demand":
+      return { id, type, time, inflowRate: params.inflowRate ?? 1200 };
+  }
+};
+
+export const ScenarioEventEditor: React.FC<ScenarioEventEditorProps> = ({
+  events,
+  params,
+  onChange,
+  unitSystem = 'imperial',
+}) => {
+  const conversions = getUnitConversions(unitSystem);
+  const laneLength = params.freewayLength ?? 16;
+  // A ring has no upstream inflow for demand events to change
+  const isOpenRoad = params.roadTopology === "open";
+
+  const updateEvent = (id: string, changes: Partial<ScenarioEvent>) => {
+    onChange(events.map(event => (event.id === id ? ({ ...event, ...changes } as ScenarioEvent) : event)));
+  };
+
+  const changeType = (event: ScenarioEvent, type: ScenarioEventType) => {
+    onChange(events.map(e => (e.id === event.id ? createEvent(type, event.id, event.time, params) : e)));
+  };
+
+  const addEvent = () => {
+    const lastTime = events.reduce((latest, event) => Math.max(latest, event.time), 0);
+    onChange([...events, createEvent("brake", nextEventId(events), lastTime + (events.length > 0 ? 30 : params.brakeTime), params)]);
+  };
+
+  const numberField = (
+    label: string,
+    value: number | undefined,
+    onValue: (value: number | undefined) => void,
+    options: { step?: number; min?: number; placeholder?: string } = {}
+  ) => (
+    <div className="space-y-1">
+      <Label className="text-xs">{label}</Label>
+      <Input
+        type="number"
+        className="h-8 text-xs"
+        value={value === undefined ? "" : parseFloat(value.toFixed(2))}
+        placeholder={options.placeholder}
+        onChange={(e) => onValue(e.target.value === "" ? undefined : Math.max(options.min ?? 0, Number(e.target.value) || 0))}
+        step={options.step ?? 1}
+        min={options.min ?? 0}
+      />
+    </div>
+  );
+
+  // Fields specific to each event type, with speeds and distances in display units
+  const renderFields = (event: ScenarioEvent) => {
+    const toSpeed = (value: number | undefined) => conversions.speed.fromDisplay(value ?? 0);
+    const toKm = (value: number | undefined) => Math.min(conversions.distance.fromDisplay(value ?? 0), laneLength);
+    const carField = (carId: number) =>
+      numberField("Car #", carId + 1, value => updateEvent(event.id, { carId: Math.max(1, Math.round(value ?? 1)) - 1 }), { min: 1 });
+
+    switch (event.type) {
+      case "brake":
+        return (
+          <div className="grid grid-cols-3 gap-2">
+            {carField(event.carId)}
+            {numberField(`To (${conversions.speed.unit})`, conversions.speed.toDisplay(event.speed), value => updateEvent(event.id, { speed: toSpeed(value) }), { step: 5 })}
+            {numberField("For (s)", event.duration, value => updateEvent(event.id, { duration: value ?? 0 }))}
+          </div>
+        );
+      case "stall":
+        return (
+          <div className="grid grid-cols-2 gap-2">
+            {carField(event.carId)}
+            {numberField("For (s)", event.duration, value => updateEvent(event.id, { duration: value }), { placeholder: "rest of run" })}
+          </div>
+        );
+      case "closeLane":
+        return (
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs">Lane</Label>
+              <Select value={String(event.lane)} onValueChange={(value) => updateEvent(event.id, { lane: Number(value) })}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: params.numLanes ?? 1 }, (_, lane) => (
+                    <SelectItem key={lane} value={String(lane)}>Lane {lane + 1}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {numberField("For (s)", event.duration, value => updateEvent(event.id, { duration: value }), { placeholder: "rest of run" })}
+            {numberField(`From (${conversions.distance.unit})`, conversions.distance.toDisplay(event.start), value => updateEvent(event.id, { start: toKm(value) }), { step: 0.1 })}
+            {numberField(`To (${conversions.distance.unit})`, conversions.distance.toDisplay(event.end), value => updateEvent(event.id, { end: toKm(value) }), { step: 0.1 })}
+          </div>
+        );
+      case "speedLimit":
+        return numberField(`New limit (${conversions.speed.unit})`, conversions.speed.toDisplay(event.speedLimit), value => updateEvent(event.id, { speedLimit: toSpeed(value) }), { step: 5 });
+      case "demand":
+        return numberField("New demand (veh/h/lane)", event.inflowRate, value => updateEvent(event.id, { inflowRate: value ?? 0 }), { step: 50 });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {events.length === 0 && (
+        <p className="text-xs text-muted-foreground">No scripted events. Add one to replay the same perturbation in every run.</p>
+      )}
+
+      {[...events].sort((a, b) => a.time - b.time).map(event => (
+        <div key={event.id} className="p-2 rounded-md border border-gray-200 space-y-2">
+          <div className="flex items-end gap-2">
+            <div className="w-20 shrink-0">
+              {numberField("At (s)", event.time, value => updateEvent(event.id, { time: value ?? 0 }))}
+            </div>
+            <Select value={event.type} onValueChange={(value: ScenarioEventType) => changeType(event, value)}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(scenarioEventLabels) as ScenarioEventType[]).map(type => (
+                  <SelectItem key={type} value={type} disabled={type === "demand" && !isOpenRoad}>
+                    {scenarioEventLabels[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0"
+              onClick={() => onChange(events.filter(e => e.id !== event.id))}
+              aria-label="Remove event"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          {renderFields(event)}
+        </div>
+      ))}
+
+      <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={addEvent}>
+        <Plus className="h-3 w-3 mr-1" /> Event
+      </Button>
+      {!isOpenRoad && events.some(event => event.type === "demand") && (
+        <p className="text-xs text-destructive">
+          Demand events need an open road and have no effect on a ring. Remove them or switch the road to open.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ScenarioEventEditor;
@@ -1,5 +1,6 @@
 import React from "react";
 import { SimulationParams } from "@/utils/trafficSimulation";
+import { getVehicleClass } from "@/utils/vehicleClasses";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Button } from "@/components/ui/button";
 import { ChevronDown, ChevronUp } from "lucide-react";
@@ -22,9 +23,10 @@ const SimulationParameters: React.FC<SimulationParametersProps> = ({
   const distanceUnit = unitSystem === 'metric' ? 'km' : 'miles';
   const densityUnit = unitSystem === 'metric' ? 'veh/km' : 'veh/mile';
   
-  // Format vehicle type distribution
+  // Format vehicle class distribution
   const vehicleDistribution = Object.entries(params.vehicleTypeDensity)
-    .map(([type, percent]) => `${type}: ${percent}%`)
+    .filter(([, percent]) => percent > 0)
+    .map(([type, percent]) => `${getVehicleClass(type, params.vehicleClasses).name}: ${percent}%`)
     .join(', ');
 
   return (
@@ -62,7 +64,7 @@ const SimulationParameters: React.FC<SimulationParametersProps> = ({
           
           <div className="space-y-1">
             <p className="font-medium">Vehicle Parameters</p>
-            <p>Car Length: {params.lengthCar} m</p>
+            <p>Car Length: {getVehicleClass("car", params.vehicleClasses).length} m</p>
             <p>Time Headway: {params.tDist} s</p>
             <p>Max Deceleration: {params.aMax} m/s²</p>
             <p>Politeness: {params.politenessFactor?.toFixed(2) || '0.50'}</p>
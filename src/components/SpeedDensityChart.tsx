@@ -10,6 +10,7 @@ import { Car } from "@/utils/trafficSimulation";
 import { useToast } from "@/hooks/use-toast";
 import { calculateStabilizedValue, extractDataValues } from "@/utils/stabilizedValueCalculator";
 import { UnitSystem, getUnitConversions } from "@/utils/unitConversion";
+import { compareWithMacro, type CtmSeriesPoint } from "@/utils/cellTransmission";
 
 interface SpeedDensityDataPoint {
   density: number;
@@ -26,8 +27,12 @@ interface SpeedDensityChartProps {
   laneLength: number;
   unitSystem?: UnitSystem;
   simulationParams: any; // Add simulationParams prop
+  macroSeries?: CtmSeriesPoint[]; // Cell Transmission Model prediction for the same road
 }
 
+// The macroscopic prediction is drawn as a line only
+const renderLineOnly = () => <g />;
+
 const SpeedDensityChart: React.FC<SpeedDensityChartProps> = ({
   cars,
   elapsedTime,
@@ -36,7 +41,8 @@ const SpeedDensityChart: React.FC<SpeedDensityChartProps> = ({
   trafficRule,
   laneLength,
   unitSystem = 'imperial',
-  simulationParams
+  simulationParams,
+  macroSeries
 }) => {
   const conversions = getUnitConversions(unitSystem);
   const chartRef = useRef<HTMLDivElement>(null);
@@ -69,6 +75,26 @@ const SpeedDensityChart: React.FC<SpeedDensityChartProps> = ({
     return historicalData;
   }, [dataHistory, currentPoint, conversions]);
 
+  // Macroscopic speed over the time span the micro samples cover
+  const macroData = useMemo(() => {
+    if (!macroSeries || chartData.length === 0) return [];
+    const start = chartData[0].time;
+    const end = chartData[chartData.length - 1].time;
+    return macroSeries
+      .filter(point => point.time >= start && point.time <= end)
+      .map(point => ({
+        time: parseFloat(point.time.toFixed(2)),
+        speed: parseFloat(conversions.speed.toDisplay(point.speed).toFixed(2)),
+      }));
+  }, [macroSeries, chartData, conversions]);
+
+  const macroAgreement = useMemo(
+    () =>
+      macroSeries &&
+      compareWithMacro(dataHistory.map(point => ({ time: point.time, value: point.speed })), macroSeries, "speed"),
+    [macroSeries, dataHistory]
+  );
+
   // Calculate stabilized values
   const stabilizedValues = useMemo(() => {
     const densityData = extractDataValues(dataHistory, 'density').map(d => conversions.density.toDisplay(d));
@@ -216,6 +242,13 @@ const SpeedDensityChart: React.FC<SpeedDensityChartProps> = ({
                 stroke="hsl(var(--destructive))"
                 strokeWidth={2}
               />
+              {macroData.length > 0 && (
+                <Scatter
+                  data={macroData}
+                  line={{ stroke: "hsl(var(--muted-foreground))", strokeDasharray: "5 3", strokeWidth: 2 }}
+                  shape={renderLineOnly}
+                />
+              )}
             </ScatterChart>
           </ChartContainer>
         </div>
@@ -239,6 +272,15 @@ const SpeedDensityChart: React.FC<SpeedDensityChartProps> = ({
               </span>
             </div>
           </div>
+          {macroAgreement && (
+            <div className="flex justify-between text-xs mt-2">
+              <span>Micro vs CTM (mean difference):</span>
+              <span className="font-mono">
+                {conversions.speed.toDisplay(macroAgreement.meanAbsoluteError).toFixed(1)} {conversions.speed.unit} (
+                {Math.round(macroAgreement.relativeError * 100)}%)
+              </span>
+            </div>
+          )}
           <p className="text-xs text-gray-500 mt-2">
             ✓ indicates stabilized values. Higher density typically leads to lower speeds.
           </p>
@@ -247,6 +289,7 @@ const SpeedDensityChart: React.FC<SpeedDensityChartProps> = ({
         <div className="mt-4 text-xs text-muted-foreground">
           <p>• Blue dots: Historical speed measurements</p>
           <p>• Red dot: Current simulation state</p>
+          {macroSeries && <p>• Dashed line: Cell Transmission Model (macroscopic) prediction</p>}
           <p>• X-axis shows simulation time in seconds</p>
           <p>• Y-axis shows average speed in {conversions.speed.unit}</p>
         </div>
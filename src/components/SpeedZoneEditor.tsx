@@ -0,0 +1,156 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import type { SpeedLimitZone } from "@/utils/speedZones";
+import { defaultVehicleClasses, type VehicleClass } from "@/utils/vehicleClasses";
+import { UnitSystem, getUnitConversions } from "@/utils/unitConversion";
+
+interface SpeedZoneEditorProps {
+  zones: SpeedLimitZone[];
+  numLanes: number;
+  freewayLength: number; // km
+  speedLimit: number; // km/h, global limit
+  vehicleClasses?: VehicleClass[];
+  onChange: (zones: SpeedLimitZone[]) => void;
+  unitSystem?: UnitSystem;
+}
+
+// Next unused id of the form "zone-N"
+const nextZoneId = (zones: SpeedLimitZone[]): string => {
+  const numbers = zones.map(zone => parseInt(zone.id.replace(/^zone-/, ""), 10)).filter(n => !isNaN(n));
+  return `zone-${numbers.length > 0 ? Math.max(...numbers) + 1 : 1}`;
+};
+
+export const SpeedZoneEditor: React.FC<SpeedZoneEditorProps> = ({
+  zones,
+  numLanes,
+  freewayLength,
+  speedLimit,
+  vehicleClasses = defaultVehicleClasses,
+  onChange,
+  unitSystem = 'imperial',
+}) => {
+  const conversions = getUnitConversions(unitSystem);
+
+  // Distances and speeds are edited in display units and stored in km and km/h
+  const toKm = (value: string) =>
+    Math.min(Math.max(conversions.distance.fromDisplay(Number(value) || 0), 0), freewayLength);
+  const toDisplayDistance = (km: number) => parseFloat(conversions.distance.toDisplay(km).toFixed(2));
+
+  const updateZone = (id: string, changes: Partial<SpeedLimitZone>) => {
+    onChange(zones.map(zone => (zone.id === id ? { ...zone, ...changes } : zone)));
+  };
+
+  const addZone = () => {
+    onChange([
+      ...zones,
+      {
+        id: nextZoneId(zones),
+        start: freewayLength / 2,
+        end: Math.min(freewayLength / 2 + 1, freewayLength),
+        speedLimit: Math.round(speedLimit * 0.6),
+      },
+    ]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {zones.length === 0 && (
+        <p className="text-xs text-muted-foreground">The global speed limit applies everywhere.</p>
+      )}
+
+      {zones.map(zone => (
+        <div key={zone.id} className="p-2 rounded-md border border-gray-200 space-y-2">
+          <div className="flex items-center gap-2">
+            <Select
+              value={zone.lanes?.length ? String(zone.lanes[0]) : "all"}
+              onValueChange={(value) => updateZone(zone.id, { lanes: value === "all" ? undefined : [Number(value)] })}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All lanes</SelectItem>
+                {Array.from({ length: numLanes }, (_, lane) => (
+                  <SelectItem key={lane} value={String(lane)}>Lane {lane + 1}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={zone.vehicleTypes?.length ? zone.vehicleTypes[0] : "all"}
+              onValueChange={(value) =>
+                updateZone(zone.id, { vehicleTypes: value === "all" ? undefined : [value] })
+              }
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All vehicles</SelectItem>
+                {vehicleClasses.map(vehicleClass => (
+                  <SelectItem key={vehicleClass.id} value={vehicleClass.id}>{vehicleClass.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0"
+              onClick={() => onChange(zones.filter(z => z.id !== zone.id))}
+              aria-label="Remove speed zone"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs">From ({conversions.distance.unit})</Label>
+              <Input
+                type="number"
+                className="h-8 text-xs"
+                value={toDisplayDistance(zone.start)}
+                onChange={(e) => updateZone(zone.id, { start: toKm(e.target.value) })}
+                step={0.1}
+                min={0}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">To ({conversions.distance.unit})</Label>
+              <Input
+                type="number"
+                className="h-8 text-xs"
+                value={toDisplayDistance(zone.end)}
+                onChange={(e) => updateZone(zone.id, { end: toKm(e.target.value) })}
+                step={0.1}
+                min={0}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Limit ({conversions.speed.unit})</Label>
+              <Input
+                type="number"
+                className="h-8 text-xs"
+                value={Math.round(conversions.speed.toDisplay(zone.speedLimit))}
+                onChange={(e) =>
+                  updateZone(zone.id, { speedLimit: Math.max(5, conversions.speed.fromDisplay(Number(e.target.value) || 0)) })
+                }
+                step={5}
+                min={5}
+              />
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={addZone}>
+        <Plus className="h-3 w-3 mr-1" /> Speed zone
+      </Button>
+    </div>
+  );
+};
+
+export default SpeedZoneEditor;
@@ -15,6 +15,8 @@ interface StatsDisplayProps {
   laneLength: number;
   elapsedTime: number;
   laneChanges: number;
+  rejectedLaneChanges?: number; // lane changes called off as unsafe
+  randomSlowdowns?: number; // shown only while random slowdowns are on
   unitSystem?: UnitSystem;
 }
 
@@ -23,6 +25,8 @@ const StatsDisplay: React.FC<StatsDisplayProps> = ({
   laneLength,
   elapsedTime,
   laneChanges,
+  rejectedLaneChanges = 0,
+  randomSlowdowns,
   unitSystem = 'imperial',
 }) => {
   const conversions = getUnitConversions(unitSystem);
@@ -32,10 +36,9 @@ const StatsDisplay: React.FC<StatsDisplayProps> = ({
     const maxSpeed = Math.max(...cars.map((car) => car.speed));
     const densityRaw = cars.length / laneLength; // cars per mile (internal)
     
-    // Calculate freeway throughput (cars per hour per lane)
-    // Throughput = average speed * density
-    const throughputPerLane = avgSpeed * densityRaw;
-    const totalThroughput = throughputPerLane * (cars.length > 0 ? Math.max(...cars.map(c => c.lane)) + 1 : 1);
+    // Calculate freeway throughput (cars per hour across all lanes)
+    // Throughput = average speed * density, which already counts every lane
+    const totalThroughput = avgSpeed * densityRaw;
     
     // Format elapsed time as "X.X sec (Y min)"
     const elapsedSeconds = parseFloat(elapsedTime.toFixed(1));
@@ -91,8 +94,23 @@ const StatsDisplay: React.FC<StatsDisplayProps> = ({
           
           <div className="space-y-1">
             <p className="text-sm text-muted-foreground">Lane Changes</p>
-            <p className="text-2xl font-bold">{laneChanges}</p>
+            <p className="text-2xl font-bold">
+              {laneChanges}
+              <span
+                className="ml-2 text-sm font-normal text-muted-foreground"
+                title="Lane changes called off because the gap was too short or would force hard braking, counted once per attempt however long the driver waits for a gap"
+              >
+                {rejectedLaneChanges} rejected as unsafe
+              </span>
+            </p>
           </div>
+
+          {randomSlowdowns !== undefined && (
+            <div className="space-y-1">
+              <p className="text-sm text-muted-foreground">Random Slowdowns</p>
+              <p className="text-2xl font-bold">{randomSlowdowns}</p>
+            </div>
+          )}
         </div>
       </CardContent>
     </Card>
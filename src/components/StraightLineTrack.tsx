@@ -1,7 +1,12 @@
 
 import React from "react";
-import { Car, calculateDistanceToCarAhead } from "@/utils/trafficSimulation";
+import { Car, calculateDistancesToCarAhead } from "@/utils/trafficSimulation";
 import CarComponent from "./CarComponent";
+import type { RoadTopology } from "@/utils/roadTopology";
+import type { Ramp } from "@/utils/ramps";
+import { getBlockedIntervals, type LaneClosure, type RoadSegment } from "@/utils/roadGeometry";
+import type { SpeedLimitZone } from "@/utils/speedZones";
+import type { VehicleClass } from "@/utils/vehicleClasses";
 import { UnitSystem, getUnitConversions } from "@/utils/unitConversion";
 import { motion } from "framer-motion";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -15,6 +20,12 @@ interface StraightLineTrackProps {
   onResumeCar?: (carId: number) => void;
   carSize?: number;
   unitSystem?: UnitSystem;
+  roadTopology?: RoadTopology;
+  ramps?: Ramp[];
+  roadSegments?: RoadSegment[];
+  laneClosures?: LaneClosure[];
+  speedLimitZones?: SpeedLimitZone[];
+  vehicleClasses?: VehicleClass[];
 }
 
 const StraightLineTrack: React.FC<StraightLineTrackProps> = ({
@@ -26,6 +37,12 @@ const StraightLineTrack: React.FC<StraightLineTrackProps> = ({
   onResumeCar,
   carSize = 24,
   unitSystem = 'imperial',
+  roadTopology = 'ring',
+  ramps = [],
+  roadSegments = [],
+  laneClosures = [],
+  speedLimitZones = [],
+  vehicleClasses,
 }) => {
   const conversions = getUnitConversions(unitSystem);
   const laneHeight = 80; // Height of each lane in pixels
@@ -37,7 +54,34 @@ const StraightLineTrack: React.FC<StraightLineTrackProps> = ({
   const totalTrackHeight = laneHeight * numLanes;
   const laneCenterOffset = laneHeight * 0.6;
   const carHeight = 20;
+
+  // Ramps get a band above (left side) or below (right side) the lanes
+  const rampBandHeight = 36;
+  const leftBand = ramps.some(ramp => ramp.side === "left") ? rampBandHeight : 0;
+  const rightBand = ramps.some(ramp => ramp.side === "right") ? rampBandHeight : 0;
+  const laneTop = (laneIndex: number) => laneIndex * laneHeight + trackPadding + leftBand;
+  const getCarLaneOffset = (lane: number) => {
+    // CarComponent shifts cars 10px down, so subtract it to center them in a ramp band
+    if (lane < 0) return trackPadding + rampBandHeight / 2 - 10;
+    if (lane >= numLanes) return laneTop(numLanes) + rampBandHeight / 2 - 10;
+    return laneTop(lane) + laneCenterOffset + carHeight / 2;
+  };
   
+  const distancesToCarAhead = React.useMemo(
+    () => calculateDistancesToCarAhead(cars, laneLength, undefined, roadTopology),
+    [cars, laneLength, roadTopology]
+  );
+
+  // Lane drops and closures are drawn as hatched stretches of their lane
+  const blockedIntervals = React.useMemo(
+    () => getBlockedIntervals(roadSegments, laneClosures, numLanes),
+    [roadSegments, laneClosures, numLanes]
+  );
+  const closedLaneStyle = {
+    backgroundImage:
+      'repeating-linear-gradient(45deg, rgba(220, 38, 38, 0.35) 0px, rgba(220, 38, 38, 0.35) 6px, rgba(255, 255, 255, 0.5) 6px, rgba(255, 255, 255, 0.5) 12px)',
+  };
+
   // Animation variants
   const laneVariant = {
     hidden: { opacity: 0, y: 20 },
@@ -181,7 +225,7 @@ const StraightLineTrack: React.FC<StraightLineTrackProps> = ({
             <div 
               className="relative rounded-lg border-2 border-gray-200 overflow-hidden"
               style={{ 
-                height: `${numLanes * laneHeight + trackPadding * 2}px`,
+                height: `${numLanes * laneHeight + trackPadding * 2 + leftBand + rightBand}px`,
                 background: 'linear-gradient(135deg, #f8fafc 0%, #f1f5f9 100%)'
               }}
             >
@@ -191,7 +235,7 @@ const StraightLineTrack: React.FC<StraightLineTrackProps> = ({
                   key={i}
                   className={`absolute left-0 right-0 h-[${laneHeight}px] bg-gradient-to-r ${getLaneGradient(i)}`}
                   style={{
-                    top: `${i * laneHeight + trackPadding}px`,
+                    top: `${laneTop(i)}px`,
                     height: `${laneHeight}px`,
                     borderBottom: i < numLanes - 1 ? '1px dashed rgba(203, 213, 225, 0.6)' : 'none'
                   }}
@@ -225,6 +269,78 @@ const StraightLineTrack: React.FC<StraightLineTrackProps> = ({
                 </motion.div>
               ))}
               
+              {/* Speed-limit zones, tinted over the lanes they apply to with a sign at the start */}
+              {speedLimitZones.map(zone => {
+                const lanes = zone.lanes?.length
+                  ? zone.lanes.filter(lane => lane >= 0 && lane < numLanes)
+                  : Array.from({ length: numLanes }, (_, lane) => lane);
+                const left = (zone.start / laneLength) * trackContentWidth;
+                const width = Math.max(2, ((zone.end - zone.start) / laneLength) * trackContentWidth);
+                const limit = Math.round(conversions.speed.toDisplay(zone.speedLimit));
+                const vehicles = zone.vehicleTypes?.length ? ` (${zone.vehicleTypes.join(", ")})` : "";
+                return (
+                  <React.Fragment key={zone.id}>
+                    {lanes.map(lane => (
+                      <div
+                        key={`${zone.id}-${lane}`}
+                        className="absolute bg-amber-300/20 border-l-2 border-amber-500 pointer-events-none"
+                        style={{ left: `${left}px`, width: `${width}px`, top: `${laneTop(lane)}px`, height: `${laneHeight}px` }}
+                      />
+                    ))}
+                    {lanes.length > 0 && (
+                      <div
+                        className="absolute -translate-x-1/2 w-7 h-7 rounded-full bg-white border-[3px] border-red-500 flex items-center justify-center text-[10px] font-bold text-gray-800 shadow-sm"
+                        style={{ left: `${left}px`, top: `${laneTop(lanes[0]) + 2}px` }}
+                        title={`${limit} ${conversions.speed.unit}${vehicles} from ${conversions.distance.toDisplay(zone.start).toFixed(2)} to ${conversions.distance.toDisplay(zone.end).toFixed(2)} ${conversions.distance.unit}`}
+                      >
+                        {limit}
+                      </div>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+
+              {/* Closed lanes */}
+              {blockedIntervals.map((interval, index) => (
+                <div
+                  key={`closed-${index}`}
+                  className="absolute border-y border-red-400 pointer-events-none"
+                  style={{
+                    ...closedLaneStyle,
+                    left: `${(interval.start / laneLength) * trackContentWidth}px`,
+                    width: `${Math.max(2, ((interval.end - interval.start) / laneLength) * trackContentWidth)}px`,
+                    top: `${laneTop(interval.lane)}px`,
+                    height: `${laneHeight}px`,
+                  }}
+                  title={`Lane ${interval.lane + 1} closed from ${conversions.distance.toDisplay(interval.start).toFixed(2)} to ${conversions.distance.toDisplay(interval.end).toFixed(2)} ${conversions.distance.unit}`}
+                />
+              ))}
+
+              {/* Ramps */}
+              {ramps.map(ramp => {
+                const left = (ramp.position / laneLength) * trackContentWidth;
+                const width = Math.max(4, (ramp.length / laneLength) * trackContentWidth);
+                return (
+                  <div
+                    key={ramp.id}
+                    className={`absolute rounded-md border flex items-center justify-center text-[10px] font-medium ${
+                      ramp.type === "on"
+                        ? "bg-emerald-100 border-emerald-400 text-emerald-700"
+                        : "bg-rose-100 border-rose-400 text-rose-700"
+                    }`}
+                    style={{
+                      left: `${left}px`,
+                      width: `${width}px`,
+                      top: `${ramp.side === "left" ? trackPadding + 4 : laneTop(numLanes) + 4}px`,
+                      height: `${rampBandHeight - 8}px`,
+                    }}
+                    title={`${ramp.type === "on" ? "On-ramp" : "Off-ramp"} at ${conversions.distance.toDisplay(ramp.position).toFixed(2)} ${conversions.distance.unit}`}
+                  >
+                    {width > 50 && (ramp.type === "on" ? "On-ramp" : "Off-ramp")}
+                  </div>
+                );
+              })}
+
               {/* Cars */}
               <div className="absolute inset-0 overflow-visible">
                 {cars.map((car, index) => (
@@ -234,12 +350,13 @@ const StraightLineTrack: React.FC<StraightLineTrackProps> = ({
                     laneLength={laneLength} 
                     trackLength={trackContentWidth}
                     trackType="straight"
-                    distanceToCarAhead={calculateDistanceToCarAhead(index, cars, laneLength)}
-                    laneOffset={car.lane * laneHeight + laneCenterOffset + carHeight / 2 + trackPadding}
+                    distanceToCarAhead={distancesToCarAhead[index]}
+                    laneOffset={getCarLaneOffset(car.lane)}
                     isStopped={stoppedCars.has(car.id)}
                     onStopCar={onStopCar}
                     onResumeCar={onResumeCar}
                     carSize={carSize}
+                    vehicleClasses={vehicleClasses}
                   />
                 ))}
               </div>
@@ -274,6 +391,12 @@ const StraightLineTrack: React.FC<StraightLineTrackProps> = ({
                 <div className="w-3 h-3 rounded-full bg-red-500/20 border border-red-500"></div>
                 <span>Stopped</span>
               </div>
+              {blockedIntervals.length > 0 && (
+                <div className="flex items-center gap-1.5">
+                  <div className="w-3 h-3 border border-red-400" style={closedLaneStyle}></div>
+                  <span>Closed lane</span>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -1,9 +1,14 @@
-import React, { useState } from "react";
-import { Car, calculateDistanceToCarAhead } from "@/utils/trafficSimulation";
+import React, { useMemo, useState } from "react";
+import { Car, calculateDistancesToCarAhead } from "@/utils/trafficSimulation";
 import CarComponent from "./CarComponent";
 import StraightLineTrack from "./StraightLineTrack";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { UnitSystem } from "@/utils/unitConversion";
+import type { RoadTopology } from "@/utils/roadTopology";
+import type { Ramp } from "@/utils/ramps";
+import type { LaneClosure, RoadSegment } from "@/utils/roadGeometry";
+import type { SpeedLimitZone } from "@/utils/speedZones";
+import type { VehicleClass } from "@/utils/vehicleClasses";
+import { UnitSystem, getUnitConversions } from "@/utils/unitConversion";
 
 interface TrafficTrackProps {
   cars: Car[];
@@ -14,6 +19,12 @@ interface TrafficTrackProps {
   onResumeCar?: (carId: number) => void;
   carSize?: number;
   unitSystem?: UnitSystem;
+  roadTopology?: RoadTopology;
+  ramps?: Ramp[];
+  roadSegments?: RoadSegment[];
+  laneClosures?: LaneClosure[];
+  speedLimitZones?: SpeedLimitZone[];
+  vehicleClasses?: VehicleClass[];
 }
 
 const TrafficTrack: React.FC<TrafficTrackProps> = ({
@@ -25,6 +36,12 @@ const TrafficTrack: React.FC<TrafficTrackProps> = ({
   onResumeCar,
   carSize = 24,
   unitSystem = 'imperial',
+  roadTopology = 'ring',
+  ramps = [],
+  roadSegments,
+  laneClosures,
+  speedLimitZones = [],
+  vehicleClasses,
 }) => {
   const [activeView, setActiveView] = useState<"circular" | "straight">("straight");
   const trackRadius = 180; // radius in pixels
@@ -34,6 +51,31 @@ const TrafficTrack: React.FC<TrafficTrackProps> = ({
   // For circular view, we only show one lane
   const totalTrackSize = trackRadius * 2 + trackWidth;
   
+  const conversions = getUnitConversions(unitSystem);
+  const distancesToCarAhead = useMemo(
+    () => calculateDistancesToCarAhead(cars, laneLength, undefined, roadTopology),
+    [cars, laneLength, roadTopology]
+  );
+
+  // SVG arc along the track between two positions, `radiusOffset` pixels
+  // outside (positive) or inside (negative) the lane
+  const getTrackArc = (start: number, end: number, radiusOffset: number) => {
+    const radius = trackRadius + radiusOffset;
+    const centerY = trackRadius + 10; // CarComponent shifts cars 10px down
+    const startAngle = (start / laneLength) * 2 * Math.PI;
+    const endAngle = (Math.min(end, laneLength) / laneLength) * 2 * Math.PI;
+    const largeArc = endAngle - startAngle > Math.PI ? 1 : 0;
+    const x1 = trackRadius + radius * Math.cos(startAngle);
+    const y1 = centerY + radius * Math.sin(startAngle);
+    const x2 = trackRadius + radius * Math.cos(endAngle);
+    const y2 = centerY + radius * Math.sin(endAngle);
+    return `M ${x1} ${y1} A ${radius} ${radius} 0 ${largeArc} 1 ${x2} ${y2}`;
+  };
+
+  // Ramps run outside the circle on the right side and inside it on the left
+  const getRampArc = (ramp: Ramp) =>
+    getTrackArc(ramp.position, ramp.position + ramp.length, ramp.side === "right" ? 22 : -22);
+
   // Set a very high z-index for the tooltips to ensure they appear above everything
   const tooltipZIndex = 2147483647; // Maximum 32-bit integer
   
@@ -86,6 +128,51 @@ const TrafficTrack: React.FC<TrafficTrackProps> = ({
                 />
               </div>
               
+              {/* Ramps */}
+              {ramps.length > 0 && (
+                <svg
+                  className="absolute left-0 top-0 pointer-events-none overflow-visible"
+                  width={totalTrackSize}
+                  height={totalTrackSize}
+                >
+                  {ramps.map(ramp => (
+                    <path
+                      key={ramp.id}
+                      d={getRampArc(ramp)}
+                      fill="none"
+                      stroke={ramp.type === "on" ? "#10b981" : "#f43f5e"}
+                      strokeWidth={8}
+                      strokeLinecap="round"
+                      opacity={0.8}
+                    />
+                  ))}
+                </svg>
+              )}
+
+              {/* Speed-limit zones */}
+              {speedLimitZones.length > 0 && (
+                <svg
+                  className="absolute left-0 top-0 overflow-visible"
+                  width={totalTrackSize}
+                  height={totalTrackSize}
+                >
+                  {speedLimitZones.map(zone => (
+                    <path
+                      key={zone.id}
+                      d={getTrackArc(zone.start, zone.end, 0)}
+                      fill="none"
+                      stroke="#f59e0b"
+                      strokeWidth={14}
+                      opacity={0.45}
+                    >
+                      <title>
+                        {`${Math.round(conversions.speed.toDisplay(zone.speedLimit))} ${conversions.speed.unit} zone`}
+                      </title>
+                    </path>
+                  ))}
+                </svg>
+              )}
+
               {/* Cars container with high z-index to ensure tooltips appear above all */}
               <div className="relative" style={{ zIndex: 2 }}>
                 {cars.map((car, index) => (
@@ -95,11 +182,12 @@ const TrafficTrack: React.FC<TrafficTrackProps> = ({
                     laneLength={laneLength} 
                     trackRadius={trackRadius}
                     trackType="circular"
-                    distanceToCarAhead={calculateDistanceToCarAhead(index, cars, laneLength)}
+                    distanceToCarAhead={distancesToCarAhead[index]}
                     isStopped={stoppedCars.has(car.id)}
                     onStopCar={onStopCar}
                     onResumeCar={onResumeCar}
                     carSize={carSize}
+                    vehicleClasses={vehicleClasses}
                   />
                 ))}
               </div>
@@ -132,6 +220,12 @@ const TrafficTrack: React.FC<TrafficTrackProps> = ({
               onResumeCar={onResumeCar}
               carSize={carSize}
               unitSystem={unitSystem}
+              roadTopology={roadTopology}
+              ramps={ramps}
+              roadSegments={roadSegments}
+              laneClosures={laneClosures}
+              speedLimitZones={speedLimitZones}
+              vehicleClasses={vehicleClasses}
             />
           </TabsContent>
         </Tabs>
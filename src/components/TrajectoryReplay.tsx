@@ -0,0 +1,195 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronLeft, ChevronRight, Pause, Play } from "lucide-react";
+import TrafficTrack from "@/components/TrafficTrack";
+import ChartDashboard from "@/components/ChartDashboard";
+import { indexedDBService, SavedSimulation } from "@/services/indexedDBService";
+import {
+  decodeChunk,
+  frameToCars,
+  locateFrame,
+  type TrajectoryChunk,
+  type TrajectorySummary,
+} from "@/utils/trajectoryRecorder";
+import { UnitSystem } from "@/utils/unitConversion";
+
+interface TrajectoryReplayProps {
+  simulation: SavedSimulation;
+  summary: TrajectorySummary;
+  unitSystem?: UnitSystem;
+}
+
+const PLAYBACK_SPEEDS = [0.5, 1, 2, 5, 10, 20];
+
+// Samples of a chart history taken up to `time`
+const upTo = <T extends { time: number }>(history: T[] | undefined, time: number): T[] =>
+  (history ?? []).filter(point => point.time <= time);
+
+const TrajectoryReplay: React.FC<TrajectoryReplayProps> = ({ simulation, summary, unitSystem = 'imperial' }) => {
+  const [chunks, setChunks] = useState<TrajectoryChunk[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playbackSpeed, setPlaybackSpeed] = useState(1);
+  const lastFrame = summary.frameCount - 1;
+
+  useEffect(() => {
+    indexedDBService
+      .getTrajectoryChunks(simulation.id)
+      .then(setChunks)
+      .catch(error => {
+        console.error('Error loading trajectory:', error);
+        setLoadError("Could not load the recorded trajectory.");
+      });
+  }, [simulation.id]);
+
+  // Only the chunk under the cursor is decoded
+  const { chunk: chunkIndex, offset } = locateFrame(frameIndex);
+  const chunkFrames = useMemo(
+    () => (chunks?.[chunkIndex] ? decodeChunk(chunks[chunkIndex]) : []),
+    [chunks, chunkIndex]
+  );
+  const frame = chunkFrames[offset];
+  const time = frame?.time ?? summary.startTime;
+
+  const vehicles = useMemo(() => new Map(summary.vehicles.map(vehicle => [vehicle.id, vehicle])), [summary]);
+  const cars = useMemo(() => (frame ? frameToCars(frame, vehicles) : []), [frame, vehicles]);
+
+  // Advance by the simulated time that passed at the playback speed, in whole frames
+  useEffect(() => {
+    if (!isPlaying) return;
+    let previous = performance.now();
+    let accumulated = 0;
+    let handle = requestAnimationFrame(function tick(now) {
+      accumulated += ((now - previous) / 1000) * playbackSpeed;
+      previous = now;
+      const frames = Math.floor(accumulated / summary.interval);
+      if (frames > 0) {
+        accumulated -= frames * summary.interval;
+        setFrameIndex(index => Math.min(index + frames, lastFrame));
+      }
+      handle = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(handle);
+  }, [isPlaying, playbackSpeed, summary.interval, lastFrame]);
+
+  useEffect(() => {
+    if (frameIndex >= lastFrame) setIsPlaying(false);
+  }, [frameIndex, lastFrame]);
+
+  const togglePlayback = () => {
+    if (!isPlaying && frameIndex >= lastFrame) setFrameIndex(0);
+    setIsPlaying(playing => !playing);
+  };
+
+  const stepBy = (frames: number) => {
+    setIsPlaying(false);
+    setFrameIndex(index => Math.max(0, Math.min(lastFrame, index + frames)));
+  };
+
+  // Chart histories as they stood at the cursor
+  const { chartData, params } = simulation;
+  const histories = useMemo(
+    () => ({
+      speedDensityHistory: upTo(chartData.speedByLaneHistory, time),
+      densityOfCarPacksHistory: upTo(chartData.densityOfCarPacksHistory, time),
+      percentageByLaneHistory: upTo(chartData.percentageByLaneHistory, time),
+      densityThroughputHistory: upTo(chartData.densityThroughputHistory, time),
+      packHistory: upTo(chartData.packHistory, time),
+      packLengthHistory: upTo(chartData.packLengthHistory, time),
+      demandHistory: upTo(chartData.demandHistory, time),
+    }),
+    [chartData, time]
+  );
+
+  if (loadError) {
+    return <p className="text-sm text-destructive">{loadError}</p>;
+  }
+  if (!chunks) {
+    return <p className="text-sm text-muted-foreground">Loading trajectory...</p>;
+  }
+  if (chunks.length < summary.chunkCount) {
+    return <p className="text-sm text-destructive">The recorded trajectory is incomplete and cannot be replayed.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => stepBy(-1)} disabled={frameIndex === 0} title="Previous frame">
+            <ChevronLeft size={16} />
+          </Button>
+          <Button size="sm" onClick={togglePlayback} title={isPlaying ? "Pause" : "Play"}>
+            {isPlaying ? <Pause size={16} /> : <Play size={16} />}
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => stepBy(1)} disabled={frameIndex >= lastFrame} title="Next frame">
+            <ChevronRight size={16} />
+          </Button>
+          <div className="flex items-center gap-2 ml-2">
+            <Label className="text-xs">Speed</Label>
+            <Select value={String(playbackSpeed)} onValueChange={(value) => setPlaybackSpeed(Number(value))}>
+              <SelectTrigger className="h-8 w-20 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PLAYBACK_SPEEDS.map(speed => (
+                  <SelectItem key={speed} value={String(speed)}>{speed}x</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <span className="ml-auto text-sm text-muted-foreground tabular-nums">
+            {time.toFixed(1)}s / {summary.endTime.toFixed(1)}s · frame {frameIndex + 1} of {summary.frameCount}
+          </span>
+        </div>
+        <Slider
+          value={[frameIndex]}
+          onValueChange={([value]) => setFrameIndex(value)}
+          min={0}
+          max={Math.max(0, lastFrame)}
+          step={1}
+        />
+        <p className="text-xs text-muted-foreground">
+          One frame every {summary.interval}s. Cars are drawn where they were at each frame, without interpolation.
+          {summary.truncated && ` The recording reached its size limit and stopped at ${summary.endTime.toFixed(1)}s.`}
+        </p>
+      </div>
+
+      <TrafficTrack
+        cars={cars}
+        laneLength={summary.laneLength}
+        numLanes={summary.numLanes}
+        unitSystem={unitSystem}
+        roadTopology={params.roadTopology}
+        ramps={params.ramps}
+        roadSegments={params.roadSegments}
+        laneClosures={params.laneClosures}
+        speedLimitZones={params.speedLimitZones}
+        vehicleClasses={params.vehicleClasses}
+      />
+
+      <ChartDashboard
+        cars={cars}
+        elapsedTime={time}
+        laneLength={summary.laneLength}
+        params={params}
+        trafficRule={simulation.trafficRule}
+        unitSystem={unitSystem}
+        speedDensityHistory={histories.speedDensityHistory}
+        densityOfCarPacksHistory={histories.densityOfCarPacksHistory}
+        percentageByLaneHistory={histories.percentageByLaneHistory}
+        densityThroughputHistory={histories.densityThroughputHistory}
+        laneUtilizationHistory={[]}
+        packHistory={histories.packHistory}
+        packLengthHistory={histories.packLengthHistory}
+        demandHistory={histories.demandHistory}
+        showPackFormation={true}
+      />
+    </div>
+  );
+};
+
+export default TrajectoryReplay;
@@ -0,0 +1,207 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Switch } from "@/components/ui/switch";
+import { Plus, Trash2 } from "lucide-react";
+import { vehicleIcons, type VehicleClass, type VehicleIcon } from "@/utils/vehicleClasses";
+import VehicleIconGlyph from "./VehicleIconGlyph";
+
+interface VehicleClassEditorProps {
+  vehicleClasses: VehicleClass[];
+  mix: Record<string, number>; // share of each class in percent, by class id
+  numLanes: number;
+  onChange: (changes: { vehicleClasses?: VehicleClass[]; vehicleTypeDensity?: Record<string, number> }) => void;
+}
+
+// Next unused id of the form "class-N"
+const nextClassId = (vehicleClasses: VehicleClass[]): string => {
+  const numbers = vehicleClasses
+    .map(vehicleClass => parseInt(vehicleClass.id.replace(/^class-/, ""), 10))
+    .filter(n => !isNaN(n));
+  return `class-${numbers.length > 0 ? Math.max(...numbers) + 1 : 1}`;
+};
+
+// Optional numbers: an empty field means "use the car-following model setting"
+const toOptional = (value: string) => (value === "" ? undefined : Math.max(0.1, Number(value) || 0.1));
+
+export const VehicleClassEditor: React.FC<VehicleClassEditorProps> = ({
+  vehicleClasses,
+  mix,
+  numLanes,
+  onChange,
+}) => {
+  const total = Object.values(mix).reduce((sum, share) => sum + share, 0);
+
+  const updateClass = (id: string, changes: Partial<VehicleClass>) => {
+    onChange({
+      vehicleClasses: vehicleClasses.map(vehicleClass => (vehicleClass.id === id ? { ...vehicleClass, ...changes } : vehicleClass)),
+    });
+  };
+
+  const addClass = () => {
+    onChange({
+      vehicleClasses: [
+        ...vehicleClasses,
+        { id: nextClassId(vehicleClasses), name: "New class", length: 4.5, desiredSpeedFactor: 1, icon: "car" },
+      ],
+    });
+  };
+
+  const removeClass = (id: string) => {
+    onChange({
+      vehicleClasses: vehicleClasses.filter(vehicleClass => vehicleClass.id !== id),
+      vehicleTypeDensity: Object.fromEntries(Object.entries(mix).filter(([classId]) => classId !== id)),
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      {vehicleClasses.map(vehicleClass => (
+        <div key={vehicleClass.id} className="p-2 rounded-md border border-gray-200 space-y-2">
+          <div className="flex items-center gap-2">
+            <Select
+              value={vehicleClass.icon}
+              onValueChange={(value: VehicleIcon) => updateClass(vehicleClass.id, { icon: value })}
+            >
+              <SelectTrigger className="h-8 w-16 text-xs shrink-0" aria-label="Icon">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {vehicleIcons.map(icon => (
+                  <SelectItem key={icon} value={icon}>
+                    <VehicleIconGlyph icon={icon} size={14} />
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              className="h-8 text-xs"
+              value={vehicleClass.name}
+              onChange={(e) => updateClass(vehicleClass.id, { name: e.target.value })}
+              aria-label="Class name"
+            />
+            <Input
+              type="number"
+              className="h-8 w-20 text-xs shrink-0"
+              value={mix[vehicleClass.id] ?? 0}
+              onChange={(e) =>
+                onChange({ vehicleTypeDensity: { ...mix, [vehicleClass.id]: Math.max(0, Number(e.target.value) || 0) } })
+              }
+              min={0}
+              max={100}
+              aria-label="Share (%)"
+            />
+            <span className="text-xs text-muted-foreground">%</span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0"
+              onClick={() => removeClass(vehicleClass.id)}
+              disabled={vehicleClasses.length <= 1}
+              aria-label="Remove vehicle class"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs">Length (m)</Label>
+              <Input
+                type="number"
+                className="h-8 text-xs"
+                value={vehicleClass.length}
+                onChange={(e) => updateClass(vehicleClass.id, { length: Math.max(1, Number(e.target.value) || 1) })}
+                step={0.5}
+                min={1}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Desired speed factor</Label>
+              <Input
+                type="number"
+                className="h-8 text-xs"
+                value={vehicleClass.desiredSpeedFactor}
+                onChange={(e) =>
+                  updateClass(vehicleClass.id, { desiredSpeedFactor: Math.max(0.1, Number(e.target.value) || 0.1) })
+                }
+                step={0.05}
+                min={0.1}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Max accel. (m/s²)</Label>
+              <Input
+                type="number"
+                className="h-8 text-xs"
+                value={vehicleClass.maxAcceleration ?? ""}
+                placeholder="model"
+                onChange={(e) => updateClass(vehicleClass.id, { maxAcceleration: toOptional(e.target.value) })}
+                step={0.1}
+                min={0.1}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Comfort decel. (m/s²)</Label>
+              <Input
+                type="number"
+                className="h-8 text-xs"
+                value={vehicleClass.comfortableDeceleration ?? ""}
+                placeholder="model"
+                onChange={(e) => updateClass(vehicleClass.id, { comfortableDeceleration: toOptional(e.target.value) })}
+                step={0.1}
+                min={0.1}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs">Allowed lanes (all when none selected)</Label>
+            <ToggleGroup
+              type="multiple"
+              size="sm"
+              className="justify-start gap-1"
+              value={(vehicleClass.allowedLanes ?? []).map(String)}
+              onValueChange={(values) =>
+                updateClass(vehicleClass.id, {
+                  allowedLanes: values.length > 0 ? values.map(Number).sort((a, b) => a - b) : undefined,
+                })
+              }
+            >
+              {Array.from({ length: numLanes }, (_, lane) => (
+                <ToggleGroupItem key={lane} value={String(lane)} className="h-7 px-2 text-xs">
+                  {lane + 1}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor={`cacc-${vehicleClass.id}`} className="text-xs">
+              Connected (CACC platooning)
+            </Label>
+            <Switch
+              id={`cacc-${vehicleClass.id}`}
+              checked={!!vehicleClass.cacc}
+              onCheckedChange={(checked) => updateClass(vehicleClass.id, { cacc: checked || undefined })}
+            />
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={addClass}>
+          <Plus className="h-3 w-3 mr-1" /> Vehicle class
+        </Button>
+        <span className="text-xs text-muted-foreground">
+          Total: {total}%{total !== 100 && total > 0 ? " (shares are scaled to 100%)" : ""}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default VehicleClassEditor;
@@ -0,0 +1,25 @@
+import React from "react";
+import { Car as CarIcon, Truck, Bike, Bus, Caravan, Zap, Bot, type LucideProps } from "lucide-react";
+import type { VehicleIcon } from "@/utils/vehicleClasses";
+
+const icons: Record<VehicleIcon, React.ComponentType<LucideProps>> = {
+  car: CarIcon,
+  truck: Truck,
+  bus: Bus,
+  van: Caravan,
+  motorcycle: Bike,
+  electric: Zap,
+  automated: Bot,
+};
+
+interface VehicleIconGlyphProps extends LucideProps {
+  icon: VehicleIcon;
+}
+
+// Lucide icon a vehicle class is drawn with
+const VehicleIconGlyph: React.FC<VehicleIconGlyphProps> = ({ icon, ...props }) => {
+  const Icon = icons[icon] ?? CarIcon;
+  return <Icon {...props} />;
+};
+
+export default VehicleIconGlyph;
@@ -0,0 +1,35 @@
+import React from "react";
+import { ReferenceLine } from "recharts";
+import { describeScenarioEvent, type ScenarioEvent } from "@/utils/scenarioEvents";
+
+/**
+ * Vertical markers for scenario events on a time-series chart. The charts use
+ * a category time axis, so each marker snaps to the nearest sampled time and
+ * events outside the plotted window are left out.
+ * Call as a function inside the chart: recharts ignores wrapper components.
+ */
+export function renderScenarioEventMarkers(
+  events: ScenarioEvent[],
+  data: { time: number }[]
+): React.ReactNode[] {
+  if (events.length === 0 || data.length === 0) return [];
+  const first = data[0].time;
+  const last = data[data.length - 1].time;
+
+  return events
+    .filter(event => event.time >= first && event.time <= last)
+    .map(event => {
+      const nearest = data.reduce((best, point) =>
+        Math.abs(point.time - event.time) < Math.abs(best.time - event.time) ? point : best
+      );
+      return (
+        <ReferenceLine
+          key={`scenario-${event.id}`}
+          x={nearest.time}
+          stroke="#dc2626"
+          strokeDasharray="4 4"
+          label={{ value: describeScenarioEvent(event), position: "insideTopLeft", fontSize: 10, fill: "#dc2626" }}
+        />
+      );
+    });
+}
@@ -1,4 +1,5 @@
 import React, { useState, useEffect, useCallback, useRef } from "react";
+import { useLocation } from "react-router-dom";
 import TrafficTrack from "@/components/TrafficTrack";
 import ControlPanel from "@/components/ControlPanel";
 import StickyControlBar from "@/components/StickyControlBar";
@@ -7,34 +8,39 @@ import CarStatsCard from "@/components/CarStatsCard";
 import SimulationInfo from "@/components/SimulationInfo";
 import Navbar from "@/components/Navbar";
 import ChartDashboard from "@/components/ChartDashboard";
-import PackFormationChart, { identifyPacks, PackHistoryItem } from "@/components/PackFormationChart";
-import AveragePackLengthChart, { calculateAveragePackLength, PackLengthHistoryItem } from "@/components/AveragePackLengthChart";
-import PackDensityChart, { calculatePackDensityMetrics, PackDensityItem } from "@/components/PackDensityChart";
-import DensityThroughputChart from "@/components/DensityThroughputChart";
-import LaneUtilizationChart from "@/components/LaneUtilizationChart";
-import SpeedByLaneChart from "@/components/SpeedByLaneChart";
-import DensityOfCarPacksChart from "@/components/DensityOfCarPacksChart";
-import PercentageOfCarsByLaneChart from "@/components/PercentageOfCarsByLaneChart";
+import { PackHistoryItem } from "@/components/PackFormationChart";
+import { PackLengthHistoryItem } from "@/components/AveragePackLengthChart";
+import { PackDensityItem } from "@/components/PackDensityChart";
 import { 
-  initializeSimulation, 
-  updateSimulation, 
   defaultParams,
+  type SimulationEvent,
   type SimulationParams,
   type Car
 } from "@/utils/trafficSimulation";
+import {
+  SIMULATION_SNAPSHOT_VERSION,
+  type SimulationEngineSnapshot,
+  type SimulationEngineState,
+} from "@/utils/simulationEngine";
+import { SimulationWorkerClient, type SimulationWorkerFrame } from "@/services/simulationWorkerClient";
+import { BatchWorkerClient } from "@/services/batchWorkerClient";
+import type {
+  DensityThroughputDataPoint,
+  PackFormationDataPoint,
+  LaneUtilizationDataPoint,
+  SpeedDensityDataPoint,
+  DensityOfCarPacksDataPoint,
+  PercentageOfCarsByLaneDataPoint,
+  DemandDataPoint,
+} from "@/utils/simulationMetrics";
+import type { SafetySummary } from "@/utils/safetyMetrics";
+import type { TrajectoryRecording } from "@/utils/trajectoryRecorder";
+import type { TrajectoryExportFormat } from "@/utils/trajectoryExport";
+import { downloadTrajectory } from "@/services/trajectoryDownload";
 import { indexedDBService, SavedSimulation } from "@/services/indexedDBService";
 import { useToast } from "@/hooks/use-toast";
 import { UnitSystem } from "@/utils/unitConversion";
 
-interface SimulationEvent {
-  type: 'exit' | 'enter' | 'laneChange';
-  carId: number;
-  carName: string;
-  position: number;
-  speed: number;
-  lane?: number;
-}
-
 interface BatchSimulation {
   name?: string;
   duration: number;
@@ -49,41 +55,46 @@ interface SimulationRun {
   timestamp: number;
 }
 
-interface DensityThroughputDataPoint {
-  density: number;
-  throughput: number;
-  time: number;
-}
-
-interface PackFormationDataPoint {
-  density: number;
-  speedStdDev: number;
-  packCount: number;
-  time: number;
-}
-
-interface LaneUtilizationDataPoint {
-  time: number;
-  [key: string]: number; // Dynamic lane keys like "lane0", "lane1", etc.
-}
-
-interface SpeedByLaneDataPoint {
-  time: number;
-  overallAvgSpeed: number;
-  [key: string]: number;
-}
-
-interface DensityOfCarPacksDataPoint {
-  time: number;
-  overallDensity: number;
-  averagePackSize: number;
-  [key: string]: number;
-}
-
-interface PercentageOfCarsByLaneDataPoint {
-  time: number;
-  [key: string]: number;
-}
+// Build the IndexedDB record for a finished or paused run
+const createSavedSimulation = (
+  name: string,
+  simulationNumber: number,
+  state: SimulationEngineState,
+  snapshot: SimulationEngineSnapshot,
+  trajectory: TrajectoryRecording
+): SavedSimulation => {
+  const speeds = state.cars.map(car => car.speed);
+  const avgSpeed = speeds.reduce((sum, speed) => sum + speed, 0) / speeds.length;
+  const { histories } = state;
+
+  return {
+    id: `simulation-${Date.now()}`,
+    name: name,
+    timestamp: Date.now(),
+    simulationNumber,
+    params: { ...state.params },
+    trafficRule: state.trafficRule,
+    chartData: {
+      speedByLaneHistory: [...histories.speedDensityHistory],
+      densityOfCarPacksHistory: [...histories.densityOfCarPacksHistory],
+      percentageByLaneHistory: [...histories.percentageByLaneHistory],
+      densityThroughputHistory: [...histories.densityThroughputHistory],
+      packHistory: [...histories.packHistory],
+      packLengthHistory: [...histories.packLengthHistory],
+      demandHistory: [...histories.demandHistory],
+    },
+    duration: state.elapsedTime,
+    finalStats: {
+      totalCars: state.cars.length,
+      averageSpeed: parseFloat(avgSpeed.toFixed(1)),
+      maxSpeed: parseFloat(Math.max(...speeds).toFixed(1)),
+      minSpeed: parseFloat(Math.min(...speeds).toFixed(1)),
+      laneChanges: state.laneChanges,
+    },
+    snapshot,
+    trajectory: trajectory.summary.frameCount > 0 ? trajectory.summary : undefined,
+  };
+};
 
 const Index = () => {
   const [params, setParams] = useState<SimulationParams>(defaultParams);
@@ -101,22 +112,67 @@ const Index = () => {
   const [stoppedCars, setStoppedCars] = useState<Set<number>>(new Set());
   const [showPackFormation, setShowPackFormation] = useState<boolean>(false);
   const [laneChanges, setLaneChanges] = useState<number>(0);
+  const [rejectedLaneChanges, setRejectedLaneChanges] = useState<number>(0);
+  const [randomSlowdowns, setRandomSlowdowns] = useState<number>(0);
   const [carSize, setCarSize] = useState<number>(24);
   const [unitSystem, setUnitSystem] = useState<UnitSystem>('imperial');
 
-  // Chart history state variables - moved here to be declared before use
+  // Chart history state variables, mirrored from the worker when it takes a metrics sample
   const [densityThroughputHistory, setDensityThroughputHistory] = useState<DensityThroughputDataPoint[]>([]);
   const [packFormationHistory, setPackFormationHistory] = useState<PackFormationDataPoint[]>([]);
   const [laneUtilizationHistory, setLaneUtilizationHistory] = useState<LaneUtilizationDataPoint[]>([]);
-  const [speedDensityHistory, setSpeedDensityHistory] = useState<any[]>([]);
+  const [speedDensityHistory, setSpeedDensityHistory] = useState<SpeedDensityDataPoint[]>([]);
   const [densityOfCarPacksHistory, setDensityOfCarPacksHistory] = useState<DensityOfCarPacksDataPoint[]>([]);
   const [percentageByLaneHistory, setPercentageByLaneHistory] = useState<PercentageOfCarsByLaneDataPoint[]>([]);
+  const [demandHistory, setDemandHistory] = useState<DemandDataPoint[]>([]);
+  const [safetySummary, setSafetySummary] = useState<SafetySummary | null>(null);
 
-  const animationFrameRef = useRef<number | null>(null);
-  const lastTimestampRef = useRef<number | null>(null);
-  const lastPackRecordTimeRef = useRef<number>(0);
-  const lastDensityUpdateTimeRef = useRef<number>(0);
+  const workerRef = useRef<SimulationWorkerClient | null>(null);
+  const batchWorkerRef = useRef<BatchWorkerClient | null>(null);
   const { toast } = useToast();
+  const location = useLocation();
+
+  // Lazily start the simulation worker so it survives re-renders
+  const getWorker = useCallback(() => {
+    if (!workerRef.current) {
+      workerRef.current = new SimulationWorkerClient();
+    }
+    return workerRef.current;
+  }, []);
+
+  // Batch runs get a worker of their own so the live run keeps its pace
+  const getBatchWorker = useCallback(() => {
+    if (!batchWorkerRef.current) {
+      batchWorkerRef.current = new BatchWorkerClient();
+    }
+    return batchWorkerRef.current;
+  }, []);
+
+  // Copy a frame from the worker into React state for rendering
+  const applyFrame = useCallback((frame: SimulationWorkerFrame) => {
+    setCars(frame.cars);
+    setLaneLength(frame.laneLength);
+    setElapsedTime(frame.elapsedTime);
+    setLaneChanges(frame.laneChanges);
+    setRejectedLaneChanges(frame.rejectedLaneChanges);
+    setRandomSlowdowns(frame.randomSlowdowns);
+    setStoppedCars(frame.stoppedCars);
+    if (frame.finished) setIsRunning(false);
+
+    const { histories } = frame;
+    if (!histories) return;
+    setPackHistory(histories.packHistory);
+    setPackLengthHistory(histories.packLengthHistory);
+    setPackDensityData(histories.packDensityData);
+    setDensityThroughputHistory(histories.densityThroughputHistory);
+    setSpeedDensityHistory(histories.speedDensityHistory);
+    setPackFormationHistory(histories.packFormationHistory);
+    setDensityOfCarPacksHistory(histories.densityOfCarPacksHistory);
+    setPercentageByLaneHistory(histories.percentageByLaneHistory);
+    setLaneUtilizationHistory(histories.laneUtilizationHistory);
+    setDemandHistory(histories.demandHistory);
+    if (frame.safety) setSafetySummary(frame.safety);
+  }, []);
 
   // Load saved runs from localStorage on component mount
   useEffect(() => {
@@ -182,57 +238,20 @@ const Index = () => {
   }, []);
 
   const initSimulation = useCallback(() => {
-    const { cars, laneLength } = initializeSimulation(params);
-    setCars(cars);
-    setLaneLength(laneLength);
-    setElapsedTime(0);
-    setPackHistory([]);
-    setPackLengthHistory([]);
-    setPackDensityData([]);
-    setSpeedDensityHistory([]);
-    setDensityOfCarPacksHistory([]);
-    setPercentageByLaneHistory([]);
-    lastPackRecordTimeRef.current = 0;
-    lastDensityUpdateTimeRef.current = 0;
-  }, [params]);
+    getWorker().init(params);
+  }, [params, getWorker]);
 
   const resetSimulation = useCallback((params: SimulationParams) => {
     console.log('Resetting simulation with params:', params);
     
-    // Stop any running animation
-    if (animationFrameRef.current) {
-      cancelAnimationFrame(animationFrameRef.current);
-      animationFrameRef.current = null;
-    }
-    
-    lastTimestampRef.current = null;
     setIsRunning(false);
     
-    // Clear all data
-    setStoppedCars(new Set());
-    setDensityThroughputHistory([]);
-    setPackFormationHistory([]);
-    setLaneUtilizationHistory([]);
-    setSpeedDensityHistory([]);
-    setDensityOfCarPacksHistory([]);
-    setPercentageByLaneHistory([]);
-    setLaneChanges(0);
-    setElapsedTime(0);
-    setPackHistory([]);
-    setPackLengthHistory([]);
-    setPackDensityData([]);
-    
-    // Reset timers
-    lastPackRecordTimeRef.current = 0;
-    lastDensityUpdateTimeRef.current = 0;
-    
-    // Reinitialize simulation with new parameters
-    const { cars, laneLength } = initializeSimulation(params);
-    setCars(cars);
-    setLaneLength(laneLength);
+    // Reinitialize simulation with new parameters (clears stopped cars and histories);
+    // the worker pauses and posts the new initial state
+    getWorker().init(params);
     
     console.log('Simulation reset complete');
-  }, []);
+  }, [getWorker]);
 
   const handleUpdateParams = useCallback((newParams: Partial<SimulationParams>) => {
     console.log('Updating params with:', newParams);
@@ -255,209 +274,27 @@ const Index = () => {
   }, []);
 
   const handleReset = useCallback(() => {
-    if (animationFrameRef.current) {
-      cancelAnimationFrame(animationFrameRef.current);
-      animationFrameRef.current = null;
-    }
-    lastTimestampRef.current = null;
     setIsRunning(false);
-    setStoppedCars(new Set()); // Clear stopped cars on reset
-    setDensityThroughputHistory([]);
-    setPackFormationHistory([]);
-    setLaneUtilizationHistory([]);
-    setSpeedDensityHistory([]);
-    setDensityOfCarPacksHistory([]);
-    setPercentageByLaneHistory([]);
-    setLaneChanges(0);
     initSimulation();
   }, [initSimulation]);
 
   const handleStopCar = useCallback((carId: number) => {
-    setStoppedCars(prev => new Set([...prev, carId]));
+    getWorker().stopCar(carId);
     toast({
       title: "Car Stopped",
       description: `Car ${carId + 1} has been stopped for testing`,
       duration: 2000,
     });
-  }, [toast]);
+  }, [getWorker, toast]);
 
   const handleResumeCar = useCallback((carId: number) => {
-    setStoppedCars(prev => {
-      const newSet = new Set(prev);
-      newSet.delete(carId);
-      return newSet;
-    });
+    getWorker().resumeCar(carId);
     toast({
       title: "Car Resumed",
       description: `Car ${carId + 1} has resumed normal driving`,
       duration: 2000,
     });
-  }, [toast]);
-
-  const recordPackData = useCallback((newCars: Car[], time: number, currentLaneLength: number) => {
-    if (time - lastPackRecordTimeRef.current >= 0.5) {
-      const packCount = identifyPacks(newCars, currentLaneLength);
-      const averagePackLength = calculateAveragePackLength(newCars, currentLaneLength);
-      
-      setPackHistory(prev => {
-        const newHistory = [...prev, { time: parseFloat(time.toFixed(1)), packCount }];
-        if (newHistory.length > 50) {
-          return newHistory.slice(-50);
-        }
-        return newHistory;
-      });
-      
-      setPackLengthHistory(prev => {
-        const newHistory = [...prev, { time: parseFloat(time.toFixed(1)), averageLength: averagePackLength }];
-        if (newHistory.length > 50) {
-          return newHistory.slice(-50);
-        }
-        return newHistory;
-      });
-
-      // Record density-throughput data
-      if (newCars.length > 0) {
-        const avgSpeed = newCars.reduce((sum, car) => sum + car.speed, 0) / newCars.length;
-        // Calculate overall density (cars per mile)
-        const density = newCars.length / currentLaneLength;
-        // Throughput = average speed * density * number of lanes (cars per hour)
-        const numLanes = newCars.length > 0 ? Math.max(...newCars.map(c => c.lane)) + 1 : 1;
-        const throughputPerLane = avgSpeed * density;
-        const throughput = throughputPerLane * numLanes;
-        
-        setDensityThroughputHistory(prev => {
-          const newHistory = [...prev, {
-            density: parseFloat((newCars.length / currentLaneLength).toFixed(2)), // Match current point precision
-            throughput: Math.round(throughput), // Use Math.round to match current point
-            time: parseFloat(time.toFixed(1))
-          }];
-          if (newHistory.length > 100) {
-            return newHistory.slice(-100);
-          }
-          return newHistory;
-        });
-
-        // Record speed-density data
-        setSpeedDensityHistory(prev => {
-          const newHistory = [...prev, {
-            density: parseFloat(density.toFixed(3)),
-            speed: parseFloat(avgSpeed.toFixed(1)),
-            time: parseFloat(time.toFixed(1))
-          }];
-          if (newHistory.length > 100) {
-            return newHistory.slice(-100);
-          }
-          return newHistory;
-        });
-
-        // Record pack formation data
-        const speeds = newCars.map(car => car.speed);
-        const speedVariance = speeds.reduce((sum, speed) => sum + Math.pow(speed - avgSpeed, 2), 0) / speeds.length;
-        const speedStdDev = Math.sqrt(speedVariance);
-        
-        setPackFormationHistory(prev => {
-          const newHistory = [...prev, {
-            density: parseFloat(density.toFixed(2)),
-            speedStdDev: parseFloat(speedStdDev.toFixed(2)),
-            packCount,
-            time: parseFloat(time.toFixed(1))
-          }];
-          if (newHistory.length > 100) {
-            return newHistory.slice(-100);
-          }
-          return newHistory;
-        });
-
-        // Record density of car packs data
-        let totalPacks = 0;
-        let totalPackSize = 0;
-        const densityPacksPoint: DensityOfCarPacksDataPoint = {
-          time: parseFloat(time.toFixed(1)),
-          overallDensity: parseFloat(density.toFixed(2)),
-          averagePackSize: 0
-        };
-        
-        // Calculate per-lane densities for visualization
-        for (let i = 0; i < params.numLanes; i++) {
-          const carsInLane = newCars.filter(car => car.lane === i);
-          // Per-lane density in cars per mile (for visualization only)
-          const laneDensity = carsInLane.length / currentLaneLength;
-          densityPacksPoint[`lane${i}Density`] = parseFloat(laneDensity.toFixed(2));
-          totalPacks += 1; // Simplified for now
-        }
-        
-        densityPacksPoint.averagePackSize = packCount > 0 ? parseFloat((newCars.length / packCount).toFixed(1)) : 0;
-        
-        setDensityOfCarPacksHistory(prev => {
-          const newHistory = [...prev, densityPacksPoint];
-          if (newHistory.length > 50) {
-            return newHistory.slice(-50);
-          }
-          return newHistory;
-        });
-
-        // Record percentage by lane data
-        const totalCars = newCars.length;
-        const percentagePoint: PercentageOfCarsByLaneDataPoint = {
-          time: parseFloat(time.toFixed(1))
-        };
-        
-        for (let i = 0; i < params.numLanes; i++) {
-          const carsInLane = newCars.filter(car => car.lane === i).length;
-          const percentage = totalCars > 0 ? (carsInLane / totalCars) * 100 : 0;
-          percentagePoint[`lane${i}`] = parseFloat(percentage.toFixed(1));
-        }
-        
-        setPercentageByLaneHistory(prev => {
-          const newHistory = [...prev, percentagePoint];
-          if (newHistory.length > 50) {
-            return newHistory.slice(-50);
-          }
-          return newHistory;
-        });
-      }
-      
-      // Record lane utilization data as percentages
-      const laneDistribution: { [key: string]: number } = {};
-      const totalCars = newCars.length;
-      
-      for (let i = 0; i < params.numLanes; i++) {
-        laneDistribution[`lane${i}`] = 0;
-      }
-      
-      newCars.forEach(car => {
-        const laneKey = `lane${car.lane}`;
-        laneDistribution[laneKey] = (laneDistribution[laneKey] || 0) + 1;
-      });
-      
-      // Convert to percentages
-      for (let i = 0; i < params.numLanes; i++) {
-        const laneKey = `lane${i}`;
-        laneDistribution[laneKey] = totalCars > 0 ? 
-          parseFloat(((laneDistribution[laneKey] / totalCars) * 100).toFixed(1)) : 0;
-      }
-      
-      setLaneUtilizationHistory(prev => {
-        const newHistory = [...prev, {
-          time: parseFloat(time.toFixed(1)),
-          ...laneDistribution
-        }];
-        if (newHistory.length > 50) {
-          return newHistory.slice(-50);
-        }
-        return newHistory;
-      });
-
-      lastPackRecordTimeRef.current = time;
-    }
-    
-    // Update pack density data less frequently
-    if (time - lastDensityUpdateTimeRef.current >= 2) {
-      const densityData = calculatePackDensityMetrics(newCars, currentLaneLength);
-      setPackDensityData(densityData);
-      lastDensityUpdateTimeRef.current = time;
-    }
-  }, [params.numLanes]);
+  }, [getWorker, toast]);
 
   const handleSimulationEvents = useCallback((events: SimulationEvent[]) => {
     events.forEach(event => {
@@ -474,7 +311,6 @@ const Index = () => {
           variant: "default",
         });
       } else if (event.type === 'laneChange') {
-        setLaneChanges(prev => prev + 1);
         toast({
           title: "Lane Change",
           description: `${event.carName} has changed to lane ${event.lane! + 1}.`,
@@ -484,91 +320,36 @@ const Index = () => {
     });
   }, [toast]);
 
-  const animationLoop = useCallback((timestamp: number) => {
-    if (!lastTimestampRef.current) {
-      lastTimestampRef.current = timestamp;
-      animationFrameRef.current = requestAnimationFrame(animationLoop);
-      return;
-    }
-
-    // Check if simulation duration has been reached
-    if (params.simulationDuration > 0 && elapsedTime >= params.simulationDuration) {
-      setIsRunning(false);
-      return;
-    }
-
-    // Calculate delta time and apply simulation speed multiplier
-    const deltaTime = ((timestamp - lastTimestampRef.current) / 1000) * simulationSpeed;
-    lastTimestampRef.current = timestamp;
-
-    const newElapsedTime = elapsedTime + deltaTime;
-    setElapsedTime(newElapsedTime);
-    
-    // Pass the original deltaTime to updateSimulation, it will handle simulation speed internally
-    const { cars: updatedCars, events } = updateSimulation(
-      cars, 
-      laneLength, 
-      params, 
-      newElapsedTime, 
-      trafficRule, 
-      simulationSpeed,
-      stoppedCars // Pass stopped cars to simulation
-    );
-    setCars(updatedCars);
-    
-    // Handle car exit and enter events
-    if (events.length > 0) {
-      handleSimulationEvents(events);
-    }
-    
-    recordPackData(updatedCars, newElapsedTime, laneLength);
-
-    animationFrameRef.current = requestAnimationFrame(animationLoop);
-  }, [laneLength, params, elapsedTime, cars, recordPackData, handleSimulationEvents, simulationSpeed, trafficRule, stoppedCars]);
+  // Keep the worker's run settings in sync with the controls
+  useEffect(() => {
+    getWorker().setTrafficRule(trafficRule);
+  }, [trafficRule, getWorker]);
 
-  const handleSaveSimulation = useCallback(async (name: string) => {
-    if (elapsedTime === 0 || cars.length === 0) {
-      toast({
-        title: "Nothing to Save",
-        description: "Run the simulation first to generate data.",
-        variant: "default",
-      });
-      return;
-    }
+  useEffect(() => {
+    getWorker().setSimulationSpeed(simulationSpeed);
+  }, [simulationSpeed, getWorker]);
 
+  useEffect(() => {
+    return getWorker().subscribe(frame => {
+      applyFrame(frame);
+      if (frame.events.length > 0) handleSimulationEvents(frame.events);
+    });
+  }, [getWorker, applyFrame, handleSimulationEvents]);
+
+  // Save a run through IndexedDB, reporting the outcome with a toast
+  const saveEngineState = useCallback(async (
+    name: string,
+    state: SimulationEngineState,
+    snapshot: SimulationEngineSnapshot,
+    trajectory: TrajectoryRecording
+  ) => {
     try {
       const simulationNumber = await indexedDBService.getNextSimulationNumber();
-      const speeds = cars.map(car => car.speed);
-      const avgSpeed = speeds.reduce((sum, speed) => sum + speed, 0) / speeds.length;
-      const maxSpeed = Math.max(...speeds);
-      const minSpeed = Math.min(...speeds);
-
-      const savedSimulation: SavedSimulation = {
-        id: `simulation-${Date.now()}`,
-        name: name,
-        timestamp: Date.now(),
-        simulationNumber,
-        params: { ...params },
-        trafficRule: trafficRule,
-        chartData: {
-          speedByLaneHistory: [...speedDensityHistory],
-          densityOfCarPacksHistory: [...densityOfCarPacksHistory],
-          percentageByLaneHistory: [...percentageByLaneHistory],
-          densityThroughputHistory: [...densityThroughputHistory],
-          packHistory: [...packHistory],
-          packLengthHistory: [...packLengthHistory],
-        },
-        duration: elapsedTime,
-        finalStats: {
-          totalCars: cars.length,
-          averageSpeed: parseFloat(avgSpeed.toFixed(1)),
-          maxSpeed: parseFloat(maxSpeed.toFixed(1)),
-          minSpeed: parseFloat(minSpeed.toFixed(1)),
-          laneChanges: laneChanges,
-        },
-      };
-
-      await indexedDBService.saveSimulation(savedSimulation);
+      const simulation = createSavedSimulation(name, simulationNumber, state, snapshot, trajectory);
+      await indexedDBService.saveSimulation(simulation);
+      if (simulation.trajectory) {
+        await indexedDBService.saveTrajectory(simulation.id, trajectory);
+      }
       
       toast({
         title: "Simulation Saved",
@@ -583,14 +364,85 @@ const Index = () => {
         variant: "destructive",
       });
     }
-  }, [elapsedTime, cars, params, trafficRule, speedDensityHistory, densityOfCarPacksHistory, percentageByLaneHistory, densityThroughputHistory, packHistory, packLengthHistory, toast]);
+  }, [toast]);
+
+  const handleSaveSimulation = useCallback(async (name: string) => {
+    const worker = getWorker();
+    let state: SimulationEngineState;
+    let snapshot: SimulationEngineSnapshot;
+    let trajectory: TrajectoryRecording;
+    try {
+      state = await worker.getState();
+      if (state.elapsedTime === 0 || state.cars.length === 0) {
+        toast({
+          title: "Nothing to Save",
+          description: "Run the simulation first to generate data.",
+          variant: "default",
+        });
+        return;
+      }
+      snapshot = await worker.saveSnapshot();
+      trajectory = await worker.getTrajectory();
+    } catch (error) {
+      console.error('Error reading the simulation from the worker:', error);
+      toast({
+        title: "Save Failed",
+        description: "Could not save the simulation. Please try again.",
+        variant: "destructive",
+      });
+      return;
+    }
 
+    await saveEngineState(name, state, snapshot, trajectory);
+  }, [getWorker, saveEngineState, toast]);
+
+  // Export what the live run has recorded so far, fetching one chunk at a time from the worker
+  const handleExportTrajectory = useCallback(async (format: TrajectoryExportFormat) => {
+    const worker = getWorker();
+    try {
+      const summary = await worker.getTrajectorySummary();
+      if (summary.frameCount === 0) {
+        toast({
+          title: "Nothing to Export",
+          description: "Turn on trajectory recording and run the simulation first.",
+          variant: "default",
+        });
+        return;
+      }
+
+      const saved = await downloadTrajectory(
+        summary,
+        index => worker.getTrajectoryChunk(index, summary.frameCount),
+        params.roadTopology ?? 'ring',
+        format,
+        `simulation-${Math.round(summary.endTime)}s`
+      );
+      if (saved) {
+        toast({
+          title: "Trajectories Exported",
+          description: summary.truncated
+            ? `${summary.frameCount} frames exported as ${format.toUpperCase()}. Recording stopped at ${summary.endTime.toFixed(1)}s when it reached its size limit.`
+            : `${summary.frameCount} frames exported as ${format.toUpperCase()}.`,
+          duration: 3000,
+        });
+      }
+    } catch (error) {
+      console.error('Error exporting trajectories:', error);
+      toast({
+        title: "Export Failed",
+        description: "Could not export the trajectories. Please try again.",
+        variant: "destructive",
+      });
+    }
+  }, [getWorker, params.roadTopology, toast]);
+
+  // Batch simulations run headless in the batch worker, one after another
   const handleBatchImport = useCallback((simulations: BatchSimulation[]) => {
     console.log('Starting batch import:', simulations);
     
     let currentIndex = 0;
     
-    const runNextSimulation = () => {
+    const runNextSimulation = async () => {
       if (currentIndex >= simulations.length) {
         console.log('All batch simulations completed');
         toast({
@@ -604,57 +456,104 @@ const Index = () => {
       const simulation = simulations[currentIndex];
       console.log(`Starting simulation ${currentIndex + 1}/${simulations.length}:`, simulation);
       
-      // Update parameters
-      const mergedParams = { ...params, ...simulation.params };
-      setParams(mergedParams);
-      resetSimulation(mergedParams);
-      
-      // Start the simulation
-      setIsRunning(true);
-      
-      // Stop after the specified duration
-      setTimeout(() => {
-        setIsRunning(false);
-        
-        // Auto-save this simulation
-        const name = simulation.name || `Batch Sim ${currentIndex + 1}`;
-        handleSaveSimulation(name);
-        
+      const mergedParams = { ...params, ...simulation.params, simulationDuration: simulation.duration };
+      const name = simulation.name || `Batch Sim ${currentIndex + 1}`;
+      try {
+        const { state, snapshot, trajectory } = await getBatchWorker().run(mergedParams, trafficRule, simulation.duration);
+        await saveEngineState(name, state, snapshot, trajectory);
+      } catch (error) {
+        console.error('Error running batch simulation:', error);
         toast({
-          title: "Simulation Complete",
-          description: `"${name}" completed and saved.`,
-          variant: "default",
+          title: "Batch Stopped",
+          description: `"${name}" could not be run: ${error instanceof Error ? error.message : String(error)}`,
+          variant: "destructive",
         });
-        
-        currentIndex++;
-        // Wait a bit before starting the next simulation
-        setTimeout(runNextSimulation, 1000);
-      }, simulation.duration * 1000);
+        return;
+      }
+      
+      currentIndex++;
+      runNextSimulation();
     };
     
     runNextSimulation();
-  }, [params, resetSimulation, handleSaveSimulation, toast]);
+  }, [params, trafficRule, getBatchWorker, saveEngineState, toast]);
 
   useEffect(() => {
     initSimulation();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  useEffect(() => {
+    return getWorker().onRestoreError(error => {
+      toast({
+        title: "Resume Failed",
+        description: error,
+        variant: "destructive",
+      });
+    });
+  }, [getWorker, toast]);
+
+  // Resume a saved run opened from the Saved Simulations page, where it left off
+  useEffect(() => {
+    const resumeSimulationId = (location.state as { resumeSimulationId?: string } | null)?.resumeSimulationId;
+    if (!resumeSimulationId) return;
+
+    const resume = async () => {
+      try {
+        const simulation = await indexedDBService.getSimulation(resumeSimulationId);
+        const snapshot = simulation?.snapshot;
+        if (!snapshot || snapshot.version !== SIMULATION_SNAPSHOT_VERSION) {
+          toast({
+            title: "Cannot Resume",
+            description: "This saved simulation has no engine snapshot this version can restore.",
+            variant: "destructive",
+          });
+          return;
+        }
+
+        // Set the controls directly: handleUpdateParams would restart the run
+        setIsRunning(false);
+        setParams(snapshot.params);
+        setTrafficRule(snapshot.trafficRule);
+        getWorker().restoreSnapshot(snapshot);
+
+        toast({
+          title: "Simulation Resumed",
+          description: `"${simulation.name}" continues from ${Math.round(snapshot.elapsedTime)}s.`,
+          duration: 3000,
+        });
+      } catch (error) {
+        console.error('Error resuming simulation:', error);
+        toast({
+          title: "Resume Failed",
+          description: "Could not load the saved simulation.",
+          variant: "destructive",
+        });
+      }
+    };
+
+    resume();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [location.state]);
+
+  // The worker steps the engine on its own clock; the page only starts and pauses it
   useEffect(() => {
     if (isRunning) {
-      lastTimestampRef.current = null;
-      animationFrameRef.current = requestAnimationFrame(animationLoop);
-    } else if (animationFrameRef.current) {
-      cancelAnimationFrame(animationFrameRef.current);
-      animationFrameRef.current = null;
+      getWorker().run();
+    } else {
+      getWorker().pause();
     }
+  }, [isRunning, getWorker]);
 
+  // Stop the worker when leaving the page
+  useEffect(() => {
     return () => {
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
-      }
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      batchWorkerRef.current?.terminate();
+      batchWorkerRef.current = null;
     };
-  }, [isRunning, animationLoop, elapsedTime]);
+  }, []);
 
   const getPreviousRunsPackHistories = () => {
     return savedRuns.map(run => run.packHistory);
@@ -738,6 +637,12 @@ const Index = () => {
               onResumeCar={handleResumeCar}
               carSize={carSize}
               unitSystem={unitSystem}
+              roadTopology={params.roadTopology}
+              ramps={params.ramps}
+              roadSegments={params.roadSegments}
+              laneClosures={params.laneClosures}
+              speedLimitZones={params.speedLimitZones}
+              vehicleClasses={params.vehicleClasses}
             />
           </div>
         </div>
@@ -750,6 +655,8 @@ const Index = () => {
             laneLength={laneLength} 
             elapsedTime={elapsedTime}
             laneChanges={laneChanges}
+            rejectedLaneChanges={rejectedLaneChanges}
+            randomSlowdowns={(params.randomSlowdownProbability ?? 0) > 0 ? randomSlowdowns : undefined}
             unitSystem={unitSystem}
           />
           </div>
@@ -765,6 +672,7 @@ const Index = () => {
               onCarSizeChange={setCarSize}
               unitSystem={unitSystem}
               onUnitSystemChange={setUnitSystem}
+              onExportTrajectory={handleExportTrajectory}
             />
           </div>
         </div>
@@ -793,6 +701,8 @@ const Index = () => {
           laneUtilizationHistory={laneUtilizationHistory}
           packHistory={packHistory}
           packLengthHistory={packLengthHistory}
+          demandHistory={demandHistory}
+          safetySummary={safetySummary}
           showPackFormation={showPackFormation}
           previousRunsData={showPreviousRuns ? getPreviousRunsPackHistories() : []}
           previousRunsPackLengthData={showPreviousRuns ? getPreviousRunsPackLengthHistories() : []}
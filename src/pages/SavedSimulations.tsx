@@ -5,7 +5,8 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Checkbox } from "@/components/ui/checkbox";
-import { BarChart3, Calendar, CheckSquare, Clock, Copy, Edit2, Eye, Gauge, Repeat, Square, Trash2, Users } from "lucide-react";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { BarChart3, Calendar, CheckSquare, Clock, Copy, Download, Edit2, Eye, Film, Gauge, Play, Repeat, Square, Trash2, Users } from "lucide-react";
 import { indexedDBService, SavedSimulation } from "@/services/indexedDBService";
 import { useToast } from "@/hooks/use-toast";
 import { extractSimulationParams, formatParamsAsJson } from "../utils/simulationUtils";
@@ -16,7 +17,11 @@ import OverlaySpeedChart from "@/components/OverlaySpeedChart";
 import OverlayDensityChart from "@/components/OverlayDensityChart";
 import OverlayLaneUsageChart from "@/components/OverlayLaneUsageChart";
 import OverlayPackFormationChart from "@/components/OverlayPackFormationChart";
-import { Link } from "react-router-dom";
+import TrajectoryReplay from "@/components/TrajectoryReplay";
+import { downloadTrajectory } from "@/services/trajectoryDownload";
+import type { TrajectoryExportFormat } from "@/utils/trajectoryExport";
+import { Link, useNavigate } from "react-router-dom";
+import { SIMULATION_SNAPSHOT_VERSION } from "@/utils/simulationEngine";
 
 const SavedSimulations: React.FC = () => {
   const [savedSimulations, setSavedSimulations] = useState<SavedSimulation[]>([]);
@@ -24,6 +29,7 @@ const SavedSimulations: React.FC = () => {
   const [selectedSimulation, setSelectedSimulation] = useState<SavedSimulation | null>(null);
   const [selectedForComparison, setSelectedForComparison] = useState<Set<string>>(new Set());
   const { toast } = useToast();
+  const navigate = useNavigate();
 
   useEffect(() => {
     loadSimulations();
@@ -84,6 +90,33 @@ const SavedSimulations: React.FC = () => {
     }
   };
 
+  // Stream the recorded trajectory to a file, reading one chunk at a time
+  const exportTrajectory = async (simulation: SavedSimulation, format: TrajectoryExportFormat) => {
+    if (!simulation.trajectory) return;
+    try {
+      const saved = await downloadTrajectory(
+        simulation.trajectory,
+        index => indexedDBService.getTrajectoryChunk(simulation.id, index),
+        simulation.params.roadTopology ?? "ring",
+        format,
+        `simulation-${simulation.simulationNumber}`
+      );
+      if (saved) {
+        toast({
+          title: "Success",
+          description: `Trajectories exported as ${format.toUpperCase()}`,
+        });
+      }
+    } catch (error) {
+      console.error('Error exporting trajectories:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export trajectories",
+        variant: "destructive",
+      });
+    }
+  };
+
   const updateSimulationName = async (id: string, newName: string) => {
     try {
       const simulation = savedSimulations.find(sim => sim.id === id);
@@ -290,11 +323,59 @@ const SavedSimulations: React.FC = () => {
                                 laneUtilizationHistory={[]}
                                 packHistory={simulation.chartData.packHistory}
                                 packLengthHistory={simulation.chartData.packLengthHistory}
+                                demandHistory={simulation.chartData.demandHistory}
                                 showPackFormation={true}
                               />
                             )}
                           </DialogContent>
                         </Dialog>
+                        {simulation.trajectory && (
+                          <Dialog>
+                            <DialogTrigger asChild>
+                              <Button variant="outline" size="sm" title="Replay recorded trajectories">
+                                <Film size={16} />
+                              </Button>
+                            </DialogTrigger>
+                            <DialogContent className="max-w-7xl max-h-[90vh] overflow-y-auto">
+                              <DialogHeader>
+                                <DialogTitle>
+                                  Replay: {simulation.name} - Simulation #{simulation.simulationNumber}
+                                </DialogTitle>
+                              </DialogHeader>
+                              <TrajectoryReplay simulation={simulation} summary={simulation.trajectory} />
+                            </DialogContent>
+                          </Dialog>
+                        )}
+                        {simulation.trajectory && (
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="outline" size="sm" title="Export trajectories">
+                                <Download size={16} />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuItem onClick={() => exportTrajectory(simulation, "csv")}>
+                                Trajectories (CSV)
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => exportTrajectory(simulation, "ndjson")}>
+                                Trajectories (NDJSON)
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        )}
+                        {simulation.snapshot?.version === SIMULATION_SNAPSHOT_VERSION && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              navigate("/freeway-simulator", { state: { resumeSimulationId: simulation.id } });
+                            }}
+                            title="Resume simulation where it left off"
+                          >
+                            <Play size={16} />
+                          </Button>
+                        )}
                         <Button
                           variant="outline"
                           size="sm"
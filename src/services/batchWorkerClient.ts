@@ -0,0 +1,62 @@
+import type { SimulationParams } from "@/utils/trafficSimulation";
+import type { TrafficRule } from "@/utils/simulationEngine";
+import type { BatchCommand, BatchMessage, BatchResult } from "@/workers/batchProtocol";
+
+/**
+ * Page-side handle on the batch worker. Runs queue up in the worker and
+ * resolve in the order they were requested.
+ */
+export class BatchWorkerClient {
+  private worker: Worker;
+  private requests = new Map<number, { resolve: (result: BatchResult) => void; reject: (error: Error) => void }>();
+  private nextRequestId = 0;
+  private terminated = false;
+
+  constructor() {
+    this.worker = new Worker(new URL("../workers/batch.worker.ts", import.meta.url), { type: "module" });
+    this.worker.addEventListener("message", this.handleMessage);
+    this.worker.addEventListener("error", this.handleError);
+  }
+
+  private handleMessage = (event: MessageEvent<BatchMessage>) => {
+    const message = event.data;
+    const request = this.requests.get(message.requestId);
+    this.requests.delete(message.requestId);
+    if (message.type === "result") {
+      request?.resolve({ state: message.state, snapshot: message.snapshot, trajectory: message.trajectory });
+    } else {
+      request?.reject(new Error(message.error));
+    }
+  };
+
+  private handleError = (event: ErrorEvent) => {
+    console.error("Batch worker error:", event.message);
+    this.rejectAll(new Error(event.message || "The batch worker stopped unexpectedly"));
+  };
+
+  private rejectAll(error: Error): void {
+    this.requests.forEach(request => request.reject(error));
+    this.requests.clear();
+  }
+
+  /**
+   * Run one simulation headless until `duration` seconds
+   * @throws Error when the run fails or the worker stops first
+   */
+  run(params: SimulationParams, trafficRule: TrafficRule, duration: number): Promise<BatchResult> {
+    if (this.terminated) return Promise.reject(new Error("The batch worker was stopped"));
+    const requestId = this.nextRequestId++;
+    return new Promise((resolve, reject) => {
+      this.requests.set(requestId, { resolve, reject });
+      const command: BatchCommand = { type: "run", requestId, params, trafficRule, duration };
+      this.worker.postMessage(command);
+    });
+  }
+
+  // Stop the worker; runs still waiting are rejected
+  terminate(): void {
+    this.terminated = true;
+    this.worker.terminate();
+    this.rejectAll(new Error("The batch worker was stopped"));
+  }
+}
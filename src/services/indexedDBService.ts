@@ -1,5 +1,8 @@
 
 import { SimulationParams } from "@/utils/trafficSimulation";
+import type { DemandDataPoint } from "@/utils/simulationMetrics";
+import type { SimulationEngineSnapshot } from "@/utils/simulationEngine";
+import type { TrajectoryChunk, TrajectoryRecording, TrajectorySummary } from "@/utils/trajectoryRecorder";
 
 export interface SavedSimulation {
   id: string;
@@ -15,6 +18,7 @@ export interface SavedSimulation {
     densityThroughputHistory: any[];
     packHistory: any[];
     packLengthHistory: any[];
+    demandHistory?: DemandDataPoint[]; // runs with a demand profile
   };
   duration: number;
   finalStats: {
@@ -24,12 +28,21 @@ export interface SavedSimulation {
     minSpeed: number;
     laneChanges: number;
   };
+  snapshot?: SimulationEngineSnapshot; // complete engine state to resume from; absent in older records
+  trajectory?: TrajectorySummary; // set when the run was recorded; the chunks live in their own store
+}
+
+// A trajectory chunk as stored, keyed by its simulation and position
+interface StoredTrajectoryChunk extends TrajectoryChunk {
+  id: string;
+  simulationId: string;
 }
 
 class IndexedDBService {
   private dbName = 'TrafficSimulationDB';
-  private version = 1;
+  private version = 2;
   private storeName = 'simulations';
+  private trajectoryStoreName = 'trajectories';
 
   async openDB(): Promise<IDBDatabase> {
     return new Promise((resolve, reject) => {
@@ -45,6 +58,10 @@ class IndexedDBService {
           store.createIndex('timestamp', 'timestamp', { unique: false });
           store.createIndex('simulationNumber', 'simulationNumber', { unique: false });
         }
+        if (!db.objectStoreNames.contains(this.trajectoryStoreName)) {
+          const store = db.createObjectStore(this.trajectoryStoreName, { keyPath: 'id' });
+          store.createIndex('simulationId', 'simulationId', { unique: false });
+        }
       };
     });
   }
@@ -73,15 +90,68 @@ class IndexedDBService {
     });
   }
 
+  // Deletes the simulation together with its recorded trajectory
   async deleteSimulation(id: string): Promise<void> {
     const db = await this.openDB();
-    const transaction = db.transaction([this.storeName], 'readwrite');
-    const store = transaction.objectStore(this.storeName);
+    const transaction = db.transaction([this.storeName, this.trajectoryStoreName], 'readwrite');
+    transaction.objectStore(this.storeName).delete(id);
+    transaction
+      .objectStore(this.trajectoryStoreName)
+      .index('simulationId')
+      .getAllKeys(id).onsuccess = (event) => {
+        const keys = (event.target as IDBRequest<IDBValidKey[]>).result;
+        keys.forEach(key => transaction.objectStore(this.trajectoryStoreName).delete(key));
+      };
+    
+    return new Promise((resolve, reject) => {
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve();
+    });
+  }
+
+  async saveTrajectory(simulationId: string, recording: TrajectoryRecording): Promise<void> {
+    const db = await this.openDB();
+    const transaction = db.transaction([this.trajectoryStoreName], 'readwrite');
+    const store = transaction.objectStore(this.trajectoryStoreName);
+    recording.chunks.forEach(chunk => {
+      const stored: StoredTrajectoryChunk = { ...chunk, id: `${simulationId}/${chunk.index}`, simulationId };
+      store.put(stored);
+    });
+    
+    return new Promise((resolve, reject) => {
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve();
+    });
+  }
+
+  async getTrajectoryChunk(simulationId: string, index: number): Promise<TrajectoryChunk> {
+    const db = await this.openDB();
+    const transaction = db.transaction([this.trajectoryStoreName], 'readonly');
+    const store = transaction.objectStore(this.trajectoryStoreName);
     
     return new Promise((resolve, reject) => {
-      const request = store.delete(id);
+      const request = store.get(`${simulationId}/${index}`);
       request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve();
+      request.onsuccess = () => {
+        if (request.result) resolve(request.result);
+        else reject(new Error(`Trajectory chunk ${index} of simulation ${simulationId} is missing`));
+      };
+    });
+  }
+
+  // Recorded chunks of a simulation in time order
+  async getTrajectoryChunks(simulationId: string): Promise<TrajectoryChunk[]> {
+    const db = await this.openDB();
+    const transaction = db.transaction([this.trajectoryStoreName], 'readonly');
+    const index = transaction.objectStore(this.trajectoryStoreName).index('simulationId');
+    
+    return new Promise((resolve, reject) => {
+      const request = index.getAll(simulationId);
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const chunks: StoredTrajectoryChunk[] = request.result;
+        resolve(chunks.sort((a, b) => a.index - b.index));
+      };
     });
   }
 
@@ -0,0 +1,208 @@
+import type { Car, SimulationEvent, SimulationParams } from "@/utils/trafficSimulation";
+import type { SimulationEngineSnapshot, SimulationEngineState, TrafficRule } from "@/utils/simulationEngine";
+import type { TrajectoryChunk, TrajectoryRecording, TrajectorySummary } from "@/utils/trajectoryRecorder";
+import type { SimulationHistories } from "@/utils/simulationMetrics";
+import type { SafetySummary } from "@/utils/safetyMetrics";
+import { SnapshotDecoder } from "@/utils/simulationSnapshot";
+import type { SimulationCommand, SimulationMessage } from "@/workers/simulationProtocol";
+
+// A worker frame with the cars decoded for rendering
+export interface SimulationWorkerFrame {
+  cars: Car[];
+  laneLength: number;
+  elapsedTime: number;
+  laneChanges: number;
+  rejectedLaneChanges: number;
+  randomSlowdowns: number;
+  stoppedCars: Set<number>;
+  events: SimulationEvent[];
+  histories?: SimulationHistories; // only after a new metrics sample
+  safety?: SafetySummary; // sent along with the histories
+  finished: boolean;
+}
+
+// Worker messages that answer a request, and the answer to a given request type
+type SimulationReply = Extract<SimulationMessage, { requestId: number }>;
+type ReplyOf<T extends SimulationReply["type"]> = Extract<SimulationReply, { type: T }>;
+
+interface PendingRequest {
+  resolve: (reply: SimulationReply) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Page-side handle on the simulation worker. Commands are fire-and-forget;
+ * the resulting state arrives in the next frame. Requests return promises
+ * that reject when the worker fails or is terminated before answering.
+ */
+export class SimulationWorkerClient {
+  private worker: Worker;
+  private decoder = new SnapshotDecoder();
+  private listeners = new Set<(frame: SimulationWorkerFrame) => void>();
+  private requests = new Map<number, PendingRequest>();
+  private restoreErrorListeners = new Set<(error: string) => void>();
+  private nextRequestId = 0;
+  private terminated = false;
+
+  constructor() {
+    this.worker = new Worker(new URL("../workers/simulation.worker.ts", import.meta.url), { type: "module" });
+    this.worker.addEventListener("message", this.handleMessage);
+    this.worker.addEventListener("error", this.handleError);
+  }
+
+  private send(command: SimulationCommand): void {
+    this.worker.postMessage(command);
+  }
+
+  /**
+   * Send a command carrying a request id and wait for the matching reply
+   * @param type Type of the reply expected
+   */
+  private request<T extends SimulationReply["type"]>(
+    type: T,
+    command: (requestId: number) => SimulationCommand
+  ): Promise<ReplyOf<T>> {
+    if (this.terminated) return Promise.reject(new Error("The simulation worker was stopped"));
+    const requestId = this.nextRequestId++;
+    return new Promise((resolve, reject) => {
+      this.requests.set(requestId, {
+        resolve: reply =>
+          reply.type === type
+            ? resolve(reply as ReplyOf<T>)
+            : reject(new Error(`Expected a ${type} reply from the simulation worker, got ${reply.type}`)),
+        reject,
+      });
+      this.send(command(requestId));
+    });
+  }
+
+  private rejectAll(error: Error): void {
+    this.requests.forEach(request => request.reject(error));
+    this.requests.clear();
+  }
+
+  private handleError = (event: ErrorEvent) => {
+    console.error("Simulation worker error:", event.message);
+    this.rejectAll(new Error(event.message || "The simulation worker stopped unexpectedly"));
+  };
+
+  private handleMessage = (event: MessageEvent<SimulationMessage>) => {
+    const message = event.data;
+    if (message.type === "frame") {
+      const frame: SimulationWorkerFrame = {
+        ...message,
+        cars: this.decoder.decode(message.cars),
+        stoppedCars: new Set(message.stoppedCars),
+      };
+      this.listeners.forEach(listener => listener(frame));
+      // Ask for the next frame once this one has been painted
+      requestAnimationFrame(() => this.send({ type: "frameShown" }));
+    } else if (message.type === "restoreFailed") {
+      this.restoreErrorListeners.forEach(listener => listener(message.error));
+    } else {
+      this.requests.get(message.requestId)?.resolve(message);
+      this.requests.delete(message.requestId);
+    }
+  };
+
+  /**
+   * Register a listener for frames
+   * @returns A function that removes the listener
+   */
+  subscribe(listener: (frame: SimulationWorkerFrame) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Restart with new parameters; the run is paused afterwards
+  init(params: SimulationParams): void {
+    this.send({ type: "init", params });
+  }
+
+  run(): void {
+    this.send({ type: "run" });
+  }
+
+  pause(): void {
+    this.send({ type: "pause" });
+  }
+
+  setSimulationSpeed(simulationSpeed: number): void {
+    this.send({ type: "setSimulationSpeed", simulationSpeed });
+  }
+
+  setTrafficRule(trafficRule: TrafficRule): void {
+    this.send({ type: "setTrafficRule", trafficRule });
+  }
+
+  stopCar(carId: number): void {
+    this.send({ type: "stopCar", carId });
+  }
+
+  resumeCar(carId: number): void {
+    this.send({ type: "resumeCar", carId });
+  }
+
+  // Full engine state, e.g. for saving a run
+  async getState(): Promise<SimulationEngineState> {
+    return (await this.request("state", requestId => ({ type: "getState", requestId }))).state;
+  }
+
+  // Complete engine state for resuming the run later
+  async saveSnapshot(): Promise<SimulationEngineSnapshot> {
+    return (await this.request("snapshot", requestId => ({ type: "saveSnapshot", requestId }))).snapshot;
+  }
+
+  // Trajectory frames recorded so far in the run
+  async getTrajectory(): Promise<TrajectoryRecording> {
+    return (await this.request("trajectory", requestId => ({ type: "getTrajectory", requestId }))).recording;
+  }
+
+  // What the run has recorded so far, without the frames
+  async getTrajectorySummary(): Promise<TrajectorySummary> {
+    return (await this.request("trajectorySummary", requestId => ({ type: "getTrajectorySummary", requestId }))).summary;
+  }
+
+  /**
+   * One recorded chunk, cut off after the first `frameCount` frames so it
+   * matches a summary taken earlier while the run went on
+   * @throws Error when the run restarted and the frames are gone
+   */
+  async getTrajectoryChunk(index: number, frameCount: number): Promise<TrajectoryChunk> {
+    const { chunk } = await this.request("trajectoryChunk", requestId => ({
+      type: "getTrajectoryChunk",
+      requestId,
+      index,
+      frameCount,
+    }));
+    if (!chunk) throw new Error(`Trajectory chunk ${index} is no longer recorded; the run was restarted`);
+    return chunk;
+  }
+
+  // Continue a saved run; it arrives paused in the next frame
+  restoreSnapshot(snapshot: SimulationEngineSnapshot): void {
+    this.send({ type: "restoreSnapshot", snapshot });
+  }
+
+  /**
+   * Register a listener for snapshots the worker could not restore
+   * @returns A function that removes the listener
+   */
+  onRestoreError(listener: (error: string) => void): () => void {
+    this.restoreErrorListeners.add(listener);
+    return () => {
+      this.restoreErrorListeners.delete(listener);
+    };
+  }
+
+  // Stop the worker; requests still waiting for an answer are rejected
+  terminate(): void {
+    this.terminated = true;
+    this.worker.terminate();
+    this.listeners.clear();
+    this.rejectAll(new Error("The simulation worker was stopped"));
+    this.restoreErrorListeners.clear();
+  }
+}
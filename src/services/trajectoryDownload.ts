@@ -0,0 +1,81 @@
+import type { RoadTopology } from "@/utils/roadTopology";
+import type { TrajectoryChunk, TrajectorySummary } from "@/utils/trajectoryRecorder";
+import { TRAJECTORY_MIME_TYPES, writeTrajectory, type TrajectoryExportFormat } from "@/utils/trajectoryExport";
+
+interface DownloadStream {
+  write: (text: string) => Promise<void>;
+  close: () => Promise<void>;
+  abort: () => Promise<void>;
+}
+
+// File System Access API; not in every browser and not in the DOM typings yet
+type SaveFilePicker = (options: { suggestedName: string }) => Promise<FileSystemFileHandle>;
+
+/**
+ * Where the browser lets the user pick a file, text goes straight to disk as
+ * it is written. Elsewhere it is appended to a Blob, which browsers keep
+ * outside the script heap, and offered as a normal download when closed.
+ * @throws DOMException named "AbortError" when the user cancels the file picker
+ */
+async function openDownloadStream(fileName: string, mimeType: string): Promise<DownloadStream> {
+  const showSaveFilePicker = (window as Window & { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+  if (showSaveFilePicker) {
+    const handle = await showSaveFilePicker({ suggestedName: fileName });
+    const writable = await handle.createWritable();
+    return {
+      write: text => writable.write(text),
+      close: () => writable.close(),
+      abort: () => writable.abort(),
+    };
+  }
+
+  let blob = new Blob([], { type: mimeType });
+  return {
+    write: async text => {
+      blob = new Blob([blob, text], { type: mimeType });
+    },
+    close: async () => {
+      const url = URL.createObjectURL(blob);
+      const downloadLink = document.createElement("a");
+      downloadLink.href = url;
+      downloadLink.download = fileName;
+      document.body.appendChild(downloadLink);
+      downloadLink.click();
+      document.body.removeChild(downloadLink);
+      URL.revokeObjectURL(url);
+    },
+    abort: async () => {
+      blob = new Blob([], { type: mimeType });
+    },
+  };
+}
+
+/**
+ * Export a recorded trajectory as `<baseName>-trajectories.csv` or `.ndjson`
+ * @param readChunk Loads chunk `index` of the recording; called once per chunk, in order
+ * @returns false when the user cancelled the file picker
+ */
+export async function downloadTrajectory(
+  summary: TrajectorySummary,
+  readChunk: (index: number) => Promise<TrajectoryChunk>,
+  topology: RoadTopology,
+  format: TrajectoryExportFormat,
+  baseName: string
+): Promise<boolean> {
+  let stream: DownloadStream;
+  try {
+    stream = await openDownloadStream(`${baseName}-trajectories.${format}`, TRAJECTORY_MIME_TYPES[format]);
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") return false;
+    throw error;
+  }
+
+  try {
+    await writeTrajectory(summary, readChunk, topology, format, stream.write);
+  } catch (error) {
+    await stream.abort();
+    throw error;
+  }
+  await stream.close();
+  return true;
+}
@@ -0,0 +1,190 @@
+// Longitudinal car-following models.
+// All models work in SI units: gaps in meters, speeds in m/s, accelerations in m/s².
+import type { RandomStream } from "./random";
+
+export type CarFollowingModelType = "idm" | "gipps" | "ovm" | "krauss";
+
+/**
+ * Parameters shared by the car-following models.
+ * Each model reads the subset it needs.
+ */
+export interface CarFollowingParams {
+  maxAcceleration: number; // a: maximum acceleration (m/s²)
+  comfortableDeceleration: number; // b: comfortable deceleration (m/s²)
+  minGap: number; // s0: bumper-to-bumper gap at standstill (m)
+  accelerationExponent: number; // δ: IDM free-road exponent
+  gippsReactionTime: number; // τ: Gipps apparent reaction time (s)
+  ovmSensitivity: number; // κ: OVM relaxation rate towards the optimal velocity (1/s)
+  kraussSigma: number; // σ: Krauss driver imperfection (0-1)
+}
+
+/**
+ * Model settings stored in SimulationParams. The comfortable deceleration
+ * comes from params.aMax and the time headway from params.tDist.
+ */
+export type CarFollowingSettings = Omit<CarFollowingParams, "comfortableDeceleration">;
+
+export const defaultCarFollowingSettings: CarFollowingSettings = {
+  maxAcceleration: 1.0,
+  minGap: 2.0,
+  accelerationExponent: 4,
+  gippsReactionTime: 0.67,
+  ovmSensitivity: 0.6,
+  kraussSigma: 0.5,
+};
+
+/**
+ * What a driver perceives when choosing an acceleration
+ */
+export interface FollowingSituation {
+  speed: number; // own speed (m/s)
+  desiredSpeed: number; // free-road target speed (m/s)
+  gap: number; // bumper-to-bumper gap to the leader (m), Infinity without a leader
+  leaderSpeed: number; // leader speed (m/s)
+  timeHeadway: number; // desired time headway (s)
+  dt: number; // integration step (s)
+}
+
+export interface CarFollowingModel {
+  type: CarFollowingModelType;
+  name: string;
+  /**
+   * Acceleration for the given situation (m/s²).
+   * Stochastic models only add noise when a random stream is passed, so that
+   * lane-change evaluations stay deterministic.
+   */
+  acceleration(situation: FollowingSituation, params: CarFollowingParams, rng?: RandomStream): number;
+}
+
+// Intelligent Driver Model (Treiber, Hennecke & Helbing 2000)
+const intelligentDriverModel: CarFollowingModel = {
+  type: "idm",
+  name: "Intelligent Driver Model",
+  acceleration({ speed, desiredSpeed, gap, leaderSpeed, timeHeadway }, p) {
+    const v0 = Math.max(desiredSpeed, 0.1);
+    const freeRoad = 1 - Math.pow(speed / v0, p.accelerationExponent);
+    if (!isFinite(gap)) return p.maxAcceleration * freeRoad;
+
+    const approachRate = speed - leaderSpeed;
+    const desiredGap = p.minGap + Math.max(
+      0,
+      speed * timeHeadway + (speed * approachRate) / (2 * Math.sqrt(p.maxAcceleration * p.comfortableDeceleration))
+    );
+    const interaction = Math.pow(desiredGap / Math.max(gap, 0.1), 2);
+    return p.maxAcceleration * (freeRoad - interaction);
+  },
+};
+
+// Gipps (1981): the next speed is the lesser of a free-flow and a safe-braking speed
+const gippsModel: CarFollowingModel = {
+  type: "gipps",
+  name: "Gipps",
+  acceleration({ speed, desiredSpeed, gap, leaderSpeed }, p) {
+    const tau = p.gippsReactionTime;
+    const a = p.maxAcceleration;
+    const b = p.comfortableDeceleration;
+    const v0 = Math.max(desiredSpeed, 0.1);
+
+    const freeSpeed = speed + 2.5 * a * tau * (1 - speed / v0) * Math.sqrt(Math.max(0, 0.025 + speed / v0));
+    let nextSpeed = freeSpeed;
+    if (isFinite(gap)) {
+      const effectiveGap = gap - p.minGap;
+      const discriminant = b * b * tau * tau + b * (2 * effectiveGap - speed * tau + (leaderSpeed * leaderSpeed) / b);
+      const safeSpeed = -b * tau + Math.sqrt(Math.max(0, discriminant));
+      nextSpeed = Math.min(freeSpeed, safeSpeed);
+    }
+    return (Math.max(0, nextSpeed) - speed) / tau;
+  },
+};
+
+// Optimal Velocity Model (Bando et al. 1995), with the optimal velocity
+// function scaled to the driver's desired speed and time headway
+const optimalVelocityModel: CarFollowingModel = {
+  type: "ovm",
+  name: "Optimal Velocity Model",
+  acceleration({ speed, desiredSpeed, gap, timeHeadway }, p) {
+    let optimalVelocity = desiredSpeed;
+    if (isFinite(gap)) {
+      const beta = 1.5; // shape of the transition
+      const transitionWidth = Math.max(1, (desiredSpeed * timeHeadway) / 2);
+      optimalVelocity = desiredSpeed * Math.max(
+        0,
+        (Math.tanh((gap - p.minGap) / transitionWidth - beta) + Math.tanh(beta)) / (1 + Math.tanh(beta))
+      );
+    }
+    return p.ovmSensitivity * (optimalVelocity - speed);
+  },
+};
+
+// Krauss (1998): drive at the largest safe speed, minus random dawdling
+const kraussModel: CarFollowingModel = {
+  type: "krauss",
+  name: "Krauss",
+  acceleration({ speed, desiredSpeed, gap, leaderSpeed, timeHeadway, dt }, p, rng) {
+    const a = p.maxAcceleration;
+    const b = p.comfortableDeceleration;
+
+    let safeSpeed = Infinity;
+    if (isFinite(gap)) {
+      const effectiveGap = gap - p.minGap;
+      safeSpeed = leaderSpeed + (effectiveGap - leaderSpeed * timeHeadway) / ((speed + leaderSpeed) / (2 * b) + timeHeadway);
+    }
+    const targetSpeed = Math.min(speed + a * dt, safeSpeed, desiredSpeed);
+    const dawdle = rng ? p.kraussSigma * a * dt * rng.next() : 0;
+    const nextSpeed = Math.max(0, targetSpeed - dawdle);
+    return (nextSpeed - speed) / dt;
+  },
+};
+
+export const carFollowingModels: Record<CarFollowingModelType, CarFollowingModel> = {
+  idm: intelligentDriverModel,
+  gipps: gippsModel,
+  ovm: optimalVelocityModel,
+  krauss: kraussModel,
+};
+
+export function getCarFollowingModel(type: CarFollowingModelType = "idm"): CarFollowingModel {
+  return carFollowingModels[type] ?? intelligentDriverModel;
+}
+
+/**
+ * Cooperative adaptive cruise control (van Arem et al. 2006). A connected
+ * vehicle behind a connected leader receives the leader's acceleration over
+ * V2V and closes up to a short constant time gap; the gains give a critically
+ * damped, string-stable response.
+ */
+export interface CaccSituation extends FollowingSituation {
+  leaderAcceleration: number; // broadcast by the leader (m/s²)
+}
+
+const CACC_ACCELERATION_GAIN = 1.0; // k_a: feed-forward of the leader's acceleration
+const CACC_SPEED_GAIN = 0.58; // k_v: on the speed difference (1/s)
+const CACC_GAP_GAIN = 0.1; // k_d: on the gap error (1/s²)
+
+// Longest time gap (s) at which a connected vehicle locks on to a connected leader
+const CACC_ENGAGE_TIME_GAP = 2;
+// Gap (m) beyond the standstill gap within which it locks on at any speed
+const CACC_ENGAGE_MARGIN = 10;
+
+export const DEFAULT_CACC_TIME_GAP = 0.6; // s, typical platoon time gap
+
+// Whether a connected vehicle at `speed` (m/s) follows a connected leader
+// `gap` meters ahead under CACC rather than its ordinary car-following model
+export function isWithinCaccRange(speed: number, gap: number, params: CarFollowingParams): boolean {
+  return gap <= params.minGap + CACC_ENGAGE_MARGIN + CACC_ENGAGE_TIME_GAP * speed;
+}
+
+// CACC acceleration (m/s²), never above what the vehicle would do on a free road.
+// `timeHeadway` is the platoon time gap.
+export function caccAcceleration(
+  { speed, desiredSpeed, gap, leaderSpeed, leaderAcceleration, timeHeadway }: CaccSituation,
+  p: CarFollowingParams
+): number {
+  const gapError = gap - p.minGap - timeHeadway * speed;
+  const acceleration =
+    CACC_ACCELERATION_GAIN * leaderAcceleration +
+    CACC_SPEED_GAIN * (leaderSpeed - speed) +
+    CACC_GAP_GAIN * gapError;
+  const freeRoad = p.maxAcceleration * (1 - Math.pow(speed / Math.max(desiredSpeed, 0.1), p.accelerationExponent));
+  return Math.min(acceleration, freeRoad);
+}
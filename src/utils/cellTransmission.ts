@@ -0,0 +1,233 @@
+// Cell Transmission Model (Daganzo): a macroscopic LWR solver to compare with
+// the microscopic simulation. The road is cut into cells, and every time step
+// each cell boundary passes the smaller of what the cell upstream can send
+// and what the cell downstream can receive under a triangular fundamental
+// diagram derived from the same parameters.
+import type { SimulationParams } from "./trafficSimulation";
+import { defaultCarFollowingSettings } from "./carFollowing";
+import { getVehicleClass } from "./vehicleClasses";
+import { applyDemandProfile } from "./demandProfile";
+
+/**
+ * Triangular fundamental diagram of one lane: flow grows at the free speed up
+ * to capacity, then falls along the congested branch whose slope is the speed
+ * at which jams travel upstream
+ */
+export interface TriangularDiagram {
+  freeSpeed: number; // km/h
+  waveSpeed: number; // km/h, upstream speed of congestion waves
+  jamDensity: number; // veh/km/lane
+  criticalDensity: number; // veh/km/lane, where flow peaks
+  capacity: number; // veh/h/lane
+}
+
+// Road-wide state at one time
+export interface CtmSeriesPoint {
+  time: number; // s
+  density: number; // veh/km across all lanes
+  flow: number; // veh/h across all lanes, averaged over the road
+  speed: number; // km/h, space-mean
+}
+
+// State of every cell at one time, upstream to downstream
+export interface CtmField {
+  time: number; // s
+  density: Float32Array; // veh/km across all lanes
+  flow: Float32Array; // veh/h across all lanes, out of each cell
+  speed: Float32Array; // km/h
+}
+
+export interface CtmResult {
+  diagram: TriangularDiagram;
+  cellLength: number; // km
+  timeStep: number; // s
+  series: CtmSeriesPoint[]; // every time step
+  fields: CtmField[]; // every fieldInterval
+}
+
+// Mean vehicle length (m) of the vehicle mix
+function meanVehicleLength(params: SimulationParams): number {
+  const mix = Object.entries(params.vehicleTypeDensity).filter(([, share]) => share > 0);
+  const total = mix.reduce((sum, [, share]) => sum + share, 0);
+  if (total <= 0) return params.lengthCar;
+  return mix.reduce((sum, [id, share]) => sum + getVehicleClass(id, params.vehicleClasses).length * share, 0) / total;
+}
+
+/**
+ * Fundamental diagram for `params`: the free speed is the mean desired speed,
+ * vehicles stand one vehicle length plus the minimum gap apart in a jam, and
+ * the congested branch follows from drivers keeping the time headway tDist
+ * (Newell's simplified car-following), so jams move back one jam spacing per tDist.
+ */
+export function getTriangularDiagram(params: SimulationParams): TriangularDiagram {
+  const freeSpeed = params.meanSpeed;
+  const jamSpacing = meanVehicleLength(params) + (params.carFollowingParams?.minGap ?? defaultCarFollowingSettings.minGap); // m
+  const jamDensity = 1000 / jamSpacing;
+  const waveSpeed = (jamSpacing / params.tDist) * 3.6; // m/s to km/h
+  const criticalDensity = (waveSpeed * jamDensity) / (freeSpeed + waveSpeed);
+  return { freeSpeed, waveSpeed, jamDensity, criticalDensity, capacity: freeSpeed * criticalDensity };
+}
+
+// Equilibrium flow (veh/h/lane) at a density (veh/km/lane)
+export const equilibriumFlow = (diagram: TriangularDiagram, density: number): number =>
+  Math.max(0, Math.min(diagram.freeSpeed * density, diagram.waveSpeed * (diagram.jamDensity - density)));
+
+// Equilibrium speed (km/h) at a density (veh/km/lane)
+export const equilibriumSpeed = (diagram: TriangularDiagram, density: number): number =>
+  density > 0 ? equilibriumFlow(diagram, density) / density : diagram.freeSpeed;
+
+/**
+ * Solve the CTM on the road of `params` for `duration` seconds. Both
+ * topologies start at the uniform density params.trafficDensity. An open road
+ * is fed params.inflowRate per lane at its upstream end, with demand that
+ * does not fit waiting in a queue, and drains freely downstream; a ring is
+ * closed. A demand profile drives the inflow, or rescales the ring densities
+ * to the target density. Ramps, closures, lane drops, speed zones and the
+ * scenario timeline are not modelled.
+ * @param laneLength Road length in km
+ * @param fieldInterval Seconds between recorded cell fields
+ */
+export function runCellTransmission(
+  params: SimulationParams,
+  laneLength: number,
+  duration: number,
+  fieldInterval = 10
+): CtmResult {
+  const diagram = getTriangularDiagram(params);
+  const numLanes = params.numLanes || 1;
+  const isOpen = (params.roadTopology ?? "ring") === "open";
+
+  // Cells about one second of free driving long; the step lets the fastest
+  // wave cross exactly one cell (CFL number 1), which avoids numerical diffusion
+  const fastestWave = Math.max(diagram.freeSpeed, diagram.waveSpeed);
+  const numCells = Math.max(1, Math.floor((laneLength * 3600) / fastestWave));
+  const cellLength = laneLength / numCells;
+  const timeStep = (cellLength / fastestWave) * 3600;
+
+  // Densities and flows across all lanes
+  const capacity = diagram.capacity * numLanes;
+  const jamDensity = diagram.jamDensity * numLanes;
+  const send = (density: number) => Math.min(diagram.freeSpeed * density, capacity);
+  const receive = (density: number) => Math.max(0, Math.min(capacity, diagram.waveSpeed * (jamDensity - density)));
+
+  const density = new Float64Array(numCells).fill(Math.min(params.trafficDensity, jamDensity));
+  const outflow = new Float64Array(numCells); // veh/h leaving each cell downstream
+  let queue = 0; // vehicles waiting upstream of an open road
+
+  const series: CtmSeriesPoint[] = [];
+  const fields: CtmField[] = [];
+  let nextFieldTime = 0;
+
+  const record = (time: number) => {
+    let totalDensity = 0;
+    let totalFlow = 0;
+    for (let i = 0; i < numCells; i++) {
+      totalDensity += density[i];
+      totalFlow += outflow[i];
+    }
+    const meanDensity = totalDensity / numCells;
+    const meanFlow = totalFlow / numCells;
+    series.push({
+      time,
+      density: meanDensity,
+      flow: meanFlow,
+      speed: meanDensity > 0 ? meanFlow / meanDensity : diagram.freeSpeed,
+    });
+
+    if (time >= nextFieldTime) {
+      fields.push({
+        time,
+        density: Float32Array.from(density),
+        flow: Float32Array.from(outflow),
+        speed: Float32Array.from(density, (k, i) => (k > 0 ? outflow[i] / k : diagram.freeSpeed)),
+      });
+      nextFieldTime += fieldInterval;
+    }
+  };
+
+  const computeOutflow = () => {
+    for (let i = 0; i < numCells; i++) {
+      const downstream = i + 1 < numCells ? i + 1 : isOpen ? -1 : 0;
+      outflow[i] = downstream < 0 ? send(density[i]) : Math.min(send(density[i]), receive(density[downstream]));
+    }
+  };
+
+  computeOutflow();
+  record(0);
+
+  const steps = Math.ceil(duration / timeStep);
+  for (let step = 1; step <= steps; step++) {
+    const time = step * timeStep;
+    const current = applyDemandProfile(params, time);
+
+    let inflow = 0; // veh/h into the first cell of an open road
+    if (isOpen) {
+      queue += ((current.inflowRate ?? 0) * numLanes * timeStep) / 3600;
+      inflow = Math.min((queue * 3600) / timeStep, receive(density[0]));
+      queue -= (inflow * timeStep) / 3600;
+    }
+
+    const hours = timeStep / 3600;
+    for (let i = numCells - 1; i >= 0; i--) {
+      const upstream = i > 0 ? outflow[i - 1] : isOpen ? inflow : outflow[numCells - 1];
+      density[i] += ((upstream - outflow[i]) * hours) / cellLength;
+    }
+
+    // A ring holds the number of vehicles the demand profile asks for
+    if (!isOpen && params.demandProfile?.length) {
+      const mean = density.reduce((sum, k) => sum + k, 0) / numCells;
+      const target = Math.min(current.trafficDensity, jamDensity);
+      if (mean > 0) density.forEach((k, i) => (density[i] = Math.min(jamDensity, (k * target) / mean)));
+      else density.fill(target);
+    }
+
+    computeOutflow();
+    record(time);
+  }
+
+  return { diagram, cellLength, timeStep, series, fields };
+}
+
+// Macroscopic value of `key` at `time`, interpolated linearly between steps
+export function interpolateSeries(
+  series: CtmSeriesPoint[],
+  time: number,
+  key: "density" | "flow" | "speed"
+): number | undefined {
+  if (series.length === 0 || time < series[0].time || time > series[series.length - 1].time) return undefined;
+  let low = 0;
+  let high = series.length - 1;
+  while (high - low > 1) {
+    const middle = (low + high) >> 1;
+    if (series[middle].time <= time) low = middle;
+    else high = middle;
+  }
+  const from = series[low];
+  const to = series[high];
+  if (to.time === from.time) return from[key];
+  return from[key] + ((to[key] - from[key]) * (time - from.time)) / (to.time - from.time);
+}
+
+/**
+ * How far micro samples are from the macroscopic prediction at the same times
+ * @returns Mean absolute difference, and that difference relative to the mean
+ *   micro value; undefined when no sample falls within the solved time span
+ */
+export function compareWithMacro(
+  samples: { time: number; value: number }[],
+  series: CtmSeriesPoint[],
+  key: "density" | "flow" | "speed"
+): { meanAbsoluteError: number; relativeError: number } | undefined {
+  let errorSum = 0;
+  let valueSum = 0;
+  let count = 0;
+  samples.forEach(({ time, value }) => {
+    const predicted = interpolateSeries(series, time, key);
+    if (predicted === undefined) return;
+    errorSum += Math.abs(value - predicted);
+    valueSum += Math.abs(value);
+    count++;
+  });
+  if (count === 0) return undefined;
+  return { meanAbsoluteError: errorSum / count, relativeError: valueSum > 0 ? errorSum / valueSum : 0 };
+}
@@ -0,0 +1,394 @@
+// Nagel-Schreckenberg cellular automaton: a discrete alternative to the
+// car-following engine. Each lane is a row of cells, speeds are whole cells
+// per update, and once per CA_TIME_STEP every vehicle accelerates by one,
+// brakes to the gap ahead, dawdles at random and moves. Between updates
+// vehicles glide from cell to cell so the same Car[] can be drawn and charted.
+import {
+  canUseLane,
+  createCar,
+  findPermittedLane,
+  getCarColor,
+  getCarSpeedLimit,
+  type Car,
+  type SimulationEvent,
+  type SimulationParams,
+} from "./trafficSimulation";
+import { advancePosition } from "./roadTopology";
+import { LaneIndex } from "./laneIndex";
+import type { TrafficSources } from "./inflow";
+import type { RandomStream } from "./random";
+
+// Which model moves the vehicles
+export type SimulationEngineType = "continuous" | "cellular";
+
+// Lane changing between automaton updates: Rickert's symmetric rule (change
+// to whichever side offers a longer gap), keep-right-except-to-pass, or none
+export type CaLaneChangeRule = "symmetric" | "asymmetric" | "none";
+
+export const DEFAULT_CA_CELL_SIZE = 7.5; // m, the classic NaSch cell
+
+// Simulated seconds between automaton updates
+export const CA_TIME_STEP = 1;
+
+// The cells of one lane; they are stretched slightly so a whole number of them covers the road
+interface Lattice {
+  numCells: number;
+  cellLength: number; // m
+  ring: boolean;
+}
+
+// Car index per cell of each lane, -1 where the cell is empty
+type Occupancy = Int32Array[];
+
+function getLattice(laneLength: number, params: SimulationParams): Lattice {
+  const numCells = Math.max(1, Math.round((laneLength * 1000) / (params.caCellSize || DEFAULT_CA_CELL_SIZE)));
+  return { numCells, cellLength: (laneLength * 1000) / numCells, ring: (params.roadTopology ?? "ring") === "ring" };
+}
+
+// Cells a vehicle covers, counted back from its front cell: its length and some room to stand behind the car ahead
+const cellsOf = (car: Car, lattice: Lattice) => Math.floor(car.length / lattice.cellLength) + 1;
+
+// Cell `offset` cells ahead of `cell` (behind when negative); -1 off either end of an open road
+function shiftCell(cell: number, offset: number, lattice: Lattice): number {
+  const shifted = cell + offset;
+  if (lattice.ring) return ((shifted % lattice.numCells) + lattice.numCells) % lattice.numCells;
+  return shifted >= 0 && shifted < lattice.numCells ? shifted : -1;
+}
+
+// Fastest a car may go in cells per update: its desired speed under the limit in force, at least one cell
+function maxCellSpeed(car: Car, params: SimulationParams, lattice: Lattice, updateSeconds: number): number {
+  const speed = Math.min(car.desiredSpeed, getCarSpeedLimit(car, params)) / 3.6; // km/h to m/s
+  return Math.max(1, Math.floor((speed * updateSeconds) / lattice.cellLength));
+}
+
+function buildOccupancy(cars: Car[], numLanes: number, lattice: Lattice): Occupancy {
+  const occupancy = Array.from({ length: numLanes }, () => new Int32Array(lattice.numCells).fill(-1));
+  cars.forEach((car, index) => {
+    if (car.cell !== undefined && occupancy[car.lane]) setCells(occupancy[car.lane], car, index, lattice);
+  });
+  return occupancy;
+}
+
+// Mark (or with index -1, clear) the cells a car covers
+function setCells(lane: Int32Array, car: Car, index: number, lattice: Lattice, front = car.cell ?? 0): void {
+  for (let k = 0; k < cellsOf(car, lattice); k++) {
+    const cell = shiftCell(front, -k, lattice);
+    if (cell >= 0) lane[cell] = index;
+  }
+}
+
+// Whether the cells a car would cover with its front at `front` are empty, or its own
+function fits(lane: Int32Array, car: Car, index: number, lattice: Lattice, front: number): boolean {
+  for (let k = 0; k < cellsOf(car, lattice); k++) {
+    const cell = shiftCell(front, -k, lattice);
+    if (cell >= 0 && lane[cell] !== -1 && lane[cell] !== index) return false;
+  }
+  return true;
+}
+
+// Empty cells in front of `front`, counting at most `limit`; the end of an open road is free road
+function gapAhead(lane: Int32Array, front: number, limit: number, lattice: Lattice, self = -1): number {
+  for (let gap = 0; gap < limit; gap++) {
+    const cell = shiftCell(front, gap + 1, lattice);
+    if (cell < 0) return limit;
+    if (lane[cell] !== -1 && lane[cell] !== self) return gap;
+  }
+  return limit;
+}
+
+// Nearest vehicle behind `rear` within `limit` cells and the empty cells in between
+function followerBehind(
+  lane: Int32Array,
+  rear: number,
+  limit: number,
+  lattice: Lattice,
+  self: number
+): { index: number; gap: number } {
+  for (let gap = 0; gap < limit; gap++) {
+    const cell = shiftCell(rear, -(gap + 1), lattice);
+    if (cell < 0) break;
+    if (lane[cell] !== -1 && lane[cell] !== self) return { index: lane[cell], gap };
+  }
+  return { index: -1, gap: limit };
+}
+
+// Put cars that are not on the lattice yet on the free cells nearest to their position
+function placeOnLattice(cars: Car[], occupancy: Occupancy, lattice: Lattice): Car[] {
+  const unplaced: Car[] = [];
+  cars.forEach((car, index) => {
+    if (car.cell !== undefined) return;
+    const lane = occupancy[car.lane];
+    const home = Math.min(lattice.numCells - 1, Math.floor((car.position * 1000) / lattice.cellLength));
+    for (let distance = 0; lane && distance < lattice.numCells; distance++) {
+      for (const front of distance === 0 ? [home] : [home - distance, home + distance]) {
+        const cell = shiftCell(front, 0, lattice);
+        if (cell >= 0 && fits(lane, car, index, lattice, cell)) {
+          car.cell = cell;
+          car.position = (cell * lattice.cellLength) / 1000;
+          setCells(lane, car, index, lattice);
+          return;
+        }
+      }
+    }
+    unplaced.push(car);
+  });
+  return unplaced;
+}
+
+/**
+ * Lane changes of one automaton update, decided in parallel on the cells
+ * before the update and carried out in turn; a change whose target cells
+ * another car has just taken is called off.
+ * @returns Number of lane changes called off
+ */
+function changeLanes(
+  cars: Car[],
+  occupancy: Occupancy,
+  params: SimulationParams,
+  lattice: Lattice,
+  updateSeconds: number,
+  currentTime: number,
+  rng: RandomStream,
+  events: SimulationEvent[]
+): number {
+  const rule = params.caLaneChangeRule ?? "symmetric";
+  const numLanes = params.numLanes || 1;
+  if (rule === "none" || numLanes < 2) return 0;
+
+  const cooldown = params.laneChangeCooldown ?? 0;
+  const before = occupancy.map(lane => lane.slice());
+
+  // Whether `car` may move over to `target`: allowed there, room beside it,
+  // and the car behind in that lane does not have to brake
+  const canMoveTo = (car: Car, index: number, target: number): boolean => {
+    if (target < 0 || target >= numLanes || !canUseLane(car, target, params)) return false;
+    const lane = before[target];
+    if (!fits(lane, car, index, lattice, car.cell!)) return false;
+    const rear = shiftCell(car.cell!, 1 - cellsOf(car, lattice), lattice);
+    if (rear < 0) return false;
+    const { index: followerIndex, gap } = followerBehind(lane, rear, lattice.numCells, lattice, index);
+    if (followerIndex < 0) return true;
+    const follower = cars[followerIndex];
+    const followerNeeds = Math.min((follower.cellSpeed ?? 0) + 1, maxCellSpeed(follower, params, lattice, updateSeconds));
+    return gap >= followerNeeds;
+  };
+
+  const moves: { index: number; target: number }[] = [];
+  cars.forEach((car, index) => {
+    if (car.cell === undefined || currentTime - (car.lastLaneChange ?? -Infinity) < cooldown) return;
+    const speed = car.cellSpeed ?? 0;
+    const vmax = maxCellSpeed(car, params, lattice, updateSeconds);
+    const wanted = Math.min(speed + 1, vmax);
+    const ownGap = gapAhead(before[car.lane], car.cell, wanted + 1, lattice, index);
+    const hindered = ownGap < wanted;
+    const gapIn = (target: number) => gapAhead(before[target], car.cell!, wanted + 1, lattice, index);
+
+    let target: number | undefined;
+    if (hindered) {
+      // Pass on the left; the symmetric rule also passes on the right and takes the longer gap
+      const sides = rule === "symmetric" ? [car.lane - 1, car.lane + 1] : [car.lane - 1];
+      let bestGap = ownGap;
+      sides.forEach(side => {
+        if (canMoveTo(car, index, side) && gapIn(side) > bestGap) {
+          target = side;
+          bestGap = gapIn(side);
+        }
+      });
+    } else if (rule === "asymmetric" && canMoveTo(car, index, car.lane + 1) && gapIn(car.lane + 1) >= wanted) {
+      // Keep right: go back as soon as the right lane is as free
+      target = car.lane + 1;
+    }
+
+    if (target !== undefined && rng.next() < car.laneChangeProbability) {
+      moves.push({ index, target });
+    }
+  });
+
+  // A car that keeps losing the same move to another car is counted once
+  let rejected = 0;
+  const blocked = new Set<number>();
+  moves.forEach(({ index, target }) => {
+    const car = cars[index];
+    if (!fits(occupancy[target], car, index, lattice, car.cell!)) {
+      if (!car.laneChangeBlocked) rejected++;
+      blocked.add(index);
+      return;
+    }
+    setCells(occupancy[car.lane], car, -1, lattice);
+    car.lane = target;
+    car.lastLaneChange = currentTime;
+    setCells(occupancy[target], car, index, lattice);
+    events.push({
+      type: "laneChange",
+      carId: car.id,
+      carName: car.name,
+      position: car.position,
+      speed: car.speed,
+      lane: target,
+    });
+  });
+  cars.forEach((car, index) => {
+    car.laneChangeBlocked = blocked.has(index) || undefined;
+  });
+  return rejected;
+}
+
+/**
+ * Advance the automaton by one step of params.dt seconds. The rules run on
+ * the first step of every CA_TIME_STEP; the steps in between only move cars
+ * on towards the cells they are heading for. Takes and returns the same
+ * arguments and result as updateSimulation.
+ *
+ * Ramps, lane closures, lane drops and connected vehicles are not modelled.
+ * A ring is closed: cars stay and start a new trip of the same length when
+ * one ends. On an open road cars arrive from `sources` and leave at the end.
+ * Stopping a car takes effect at the next update.
+ */
+export function updateCellularAutomaton(
+  cars: Car[],
+  laneLength: number,
+  params: SimulationParams,
+  currentTime: number,
+  stoppedCars: Set<number>,
+  rng: RandomStream,
+  sources?: TrafficSources,
+  laneIndex: LaneIndex<Car> = new LaneIndex()
+): {
+  cars: Car[];
+  events: SimulationEvent[];
+  rejectedLaneChanges: number;
+} {
+  let updatedCars = [...cars];
+  const events: SimulationEvent[] = [];
+  let rejectedLaneChanges = 0;
+
+  const dt = params.dt;
+  const numLanes = params.numLanes || 1;
+  const topology = params.roadTopology ?? "ring";
+  const lattice = getLattice(laneLength, params);
+  const stepsPerUpdate = Math.max(1, Math.round(CA_TIME_STEP / dt));
+  const updateSeconds = stepsPerUpdate * dt; // cars cover their cells in exactly this time
+  const isUpdate = (Math.round(currentTime / dt) - 1) % stepsPerUpdate === 0;
+
+  const exit = (car: Car) => {
+    events.push({ type: "exit", carId: car.id, carName: car.name, position: car.position, speed: car.speed });
+  };
+
+  if (isUpdate) {
+    // Cars reach the cells they were heading for
+    updatedCars.forEach(car => {
+      if (car.cell !== undefined) car.position = (car.cell * lattice.cellLength) / 1000; // m to km
+    });
+
+    let occupancy = buildOccupancy(updatedCars, numLanes, lattice);
+    const unplaced = placeOnLattice(updatedCars, occupancy, lattice);
+    if (unplaced.length > 0) {
+      // More vehicles than the lane has cells for
+      unplaced.forEach(exit);
+      updatedCars = updatedCars.filter(car => !unplaced.includes(car));
+      occupancy = buildOccupancy(updatedCars, numLanes, lattice);
+    }
+
+    // Open road: waiting vehicles enter at the upstream end where their lane has room
+    if (topology === "open" && sources) {
+      let nextCarId = sources.nextCarId ?? updatedCars.reduce((next, car) => Math.max(next, car.id + 1), 0);
+      const lanes = Array.from({ length: numLanes }, (_, lane) => lane);
+      const queued = sources.mainline.update(
+        currentTime,
+        numLanes,
+        params.inflowRate ?? 0,
+        params.inflowDistribution ?? "poisson",
+        rng
+      );
+      lanes.forEach(lane => {
+        if (queued[lane] === 0) return;
+        const newCar = createCar(nextCarId, 0, lane, params, rng);
+        newCar.lane = findPermittedLane(newCar, lanes, params) ?? lane;
+        const front = cellsOf(newCar, lattice) - 1;
+        const index = updatedCars.length;
+        if (!fits(occupancy[newCar.lane], newCar, index, lattice, front)) {
+          if (newCar.lane !== lane) sources.mainline.transfer(lane, newCar.lane);
+          return;
+        }
+        nextCarId++;
+        sources.mainline.dequeue(lane);
+        newCar.cell = front;
+        newCar.cellSpeed = maxCellSpeed(newCar, params, lattice, updateSeconds);
+        newCar.position = (front * lattice.cellLength) / 1000;
+        updatedCars.push(newCar);
+        setCells(occupancy[newCar.lane], newCar, index, lattice);
+        events.push({
+          type: "enter",
+          carId: newCar.id,
+          carName: newCar.name,
+          position: newCar.position,
+          speed: newCar.speed,
+        });
+      });
+      sources.nextCarId = nextCarId;
+    }
+
+    rejectedLaneChanges = changeLanes(updatedCars, occupancy, params, lattice, updateSeconds, currentTime, rng, events);
+
+    // NaSch rules, in parallel on the cells after the lane changes:
+    // accelerate, brake to the gap, dawdle, move
+    // p is per update, like the cell speeds, and independent of the continuous model's per-second dawdling
+    const dawdling = params.caSlowdownProbability ?? 0;
+    const targets = updatedCars.map((car, index) => {
+      const vmax = maxCellSpeed(car, params, lattice, updateSeconds);
+      let speed = Math.min((car.cellSpeed ?? Math.round((car.speed / 3.6) * updateSeconds / lattice.cellLength)) + 1, vmax);
+      speed = Math.min(speed, gapAhead(occupancy[car.lane], car.cell!, speed, lattice, index));
+
+      if (car.scriptedBrake && currentTime >= car.scriptedBrake.until) {
+        car.scriptedBrake = undefined;
+      }
+      if (car.scriptedBrake) {
+        speed = Math.min(speed, Math.floor((car.scriptedBrake.speed / 3.6) * updateSeconds / lattice.cellLength));
+      }
+      if (stoppedCars.has(car.id)) speed = 0;
+
+      if (dawdling > 0 && speed > 0 && rng.next() < dawdling) {
+        speed--;
+        events.push({
+          type: "slowdown",
+          carId: car.id,
+          carName: car.name,
+          position: car.position,
+          speed: car.speed,
+          lane: car.lane,
+        });
+      }
+      return speed;
+    });
+
+    updatedCars.forEach((car, index) => {
+      const speed = (targets[index] * lattice.cellLength / updateSeconds) * 3.6; // cells per update to km/h
+      car.acceleration = (speed - car.speed) / 3.6 / updateSeconds; // km/h per update to m/s²
+      car.speed = speed;
+      car.cellSpeed = targets[index];
+      car.cell = lattice.ring ? shiftCell(car.cell!, targets[index], lattice) : car.cell! + targets[index];
+      car.platoonId = undefined;
+    });
+  }
+
+  // Glide towards the target cells
+  const remaining: Car[] = [];
+  updatedCars.forEach(car => {
+    const move = (car.speed / 3600) * dt; // km/h to km per step
+    car.position = advancePosition(car.position, move, laneLength, topology);
+    car.distanceTraveled += move;
+    if (topology === "ring" && car.distanceTraveled >= car.distTripPlanned) {
+      car.distanceTraveled -= car.distTripPlanned;
+    }
+    car.color = stoppedCars.has(car.id) ? "black" : getCarColor(car);
+
+    if (topology === "open" && car.position >= laneLength) {
+      exit(car);
+    } else {
+      remaining.push(car);
+    }
+  });
+
+  laneIndex.sync(remaining);
+  return { cars: remaining, events, rejectedLaneChanges };
+}
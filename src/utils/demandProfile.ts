@@ -0,0 +1,110 @@
+// Time-varying demand: a piecewise-linear profile that drives the upstream
+// inflow of an open road or the vehicle count on a ring over the run, for
+// rush-hour studies with a build-up, a peak and a decay.
+import type { RoadTopology } from "./roadTopology";
+import type { SimulationParams } from "./trafficSimulation";
+
+export interface DemandPoint {
+  time: number; // s
+  demand: number; // open road: veh/h/lane; ring: vehicles per km across all lanes
+}
+
+// Whether demand is growing, holding or easing off at a given time
+export type DemandPhase = "rising" | "steady" | "falling";
+
+// Points in time order; the profile holds its first and last value outside its time span
+export const sortDemandProfile = (profile: DemandPoint[]): DemandPoint[] =>
+  [...profile].sort((a, b) => a.time - b.time);
+
+// Index of the first point later than `time` in a sorted profile
+const segmentEnd = (points: DemandPoint[], time: number): number => {
+  const index = points.findIndex(point => point.time > time);
+  return index === -1 ? points.length : index;
+};
+
+/**
+ * Demand at `time`, interpolated linearly between the surrounding points
+ * @param profile Points in any order; must not be empty
+ */
+export function demandAt(profile: DemandPoint[], time: number): number {
+  const points = sortDemandProfile(profile);
+  const end = segmentEnd(points, time);
+  if (end === 0) return points[0].demand;
+  if (end === points.length) return points[points.length - 1].demand;
+
+  const from = points[end - 1];
+  const to = points[end];
+  return from.demand + ((to.demand - from.demand) * (time - from.time)) / (to.time - from.time);
+}
+
+// Direction the profile is heading at `time`
+export function demandPhase(profile: DemandPoint[], time: number): DemandPhase {
+  const points = sortDemandProfile(profile);
+  const end = segmentEnd(points, time);
+  if (end === 0 || end === points.length) return "steady";
+  const change = points[end].demand - points[end - 1].demand;
+  return change > 0 ? "rising" : change < 0 ? "falling" : "steady";
+}
+
+/**
+ * Parameters in effect at `time` under params.demandProfile: the profile sets
+ * the upstream inflow of an open road, or the target density of a ring.
+ * Returns `params` itself when there is no profile.
+ */
+export function applyDemandProfile(params: SimulationParams, time: number): SimulationParams {
+  if (!params.demandProfile?.length) return params;
+  const demand = demandAt(params.demandProfile, time);
+  return (params.roadTopology ?? "ring") === "open"
+    ? { ...params, inflowRate: demand }
+    : { ...params, trafficDensity: demand };
+}
+
+/**
+ * A one-hour rush: off-peak demand, a 15-minute build-up to a 20-minute
+ * peak, then a 15-minute decay back to off-peak
+ */
+export function createRushHourProfile(topology: RoadTopology, numLanes: number): DemandPoint[] {
+  const [offPeak, peak] = topology === "open" ? [400, 1200] : [6 * numLanes, 30 * numLanes];
+  return [
+    { time: 0, demand: offPeak },
+    { time: 300, demand: offPeak },
+    { time: 1200, demand: peak },
+    { time: 2400, demand: peak },
+    { time: 3300, demand: offPeak },
+    { time: 3600, demand: offPeak },
+  ];
+}
+
+/**
+ * Read a profile from CSV text with one "time,demand" row per point (time in
+ * seconds). A header row, blank lines and lines starting with # are skipped;
+ * semicolons and tabs work as separators too.
+ */
+export function parseDemandCsv(text: string): DemandPoint[] {
+  const points: DemandPoint[] = [];
+  let headerSkipped = false;
+  text.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (trimmed === "" || trimmed.startsWith("#")) return;
+    const [time, demand] = trimmed.split(/[,;\t]/).map(cell => Number(cell.trim()));
+    if (!Number.isFinite(time) || !Number.isFinite(demand)) {
+      if (points.length === 0 && !headerSkipped) {
+        headerSkipped = true;
+        return;
+      }
+      throw new Error(`Line ${index + 1}: expected "time,demand" numbers, got "${trimmed}"`);
+    }
+    if (time < 0 || demand < 0) {
+      throw new Error(`Line ${index + 1}: time and demand must not be negative`);
+    }
+    points.push({ time, demand });
+  });
+  if (points.length === 0) {
+    throw new Error("The file contains no demand points");
+  }
+  return sortDemandProfile(points);
+}
+
+export function demandProfileToCsv(profile: DemandPoint[]): string {
+  return ["time,demand", ...sortDemandProfile(profile).map(point => `${point.time},${point.demand}`)].join("\n");
+}
@@ -0,0 +1,72 @@
+// Driver profiles: the behavioural make-up of the driver population. Each
+// profile has a share of drivers and distributions from which every driver's
+// own parameters are drawn when the vehicle enters.
+import { MAX_REACTION_TIME } from "./perception";
+
+// Normal distribution clipped to [min, max]
+export interface Distribution {
+  mean: number;
+  sd: number;
+  min: number;
+  max: number;
+}
+
+export interface DriverProfile {
+  id: string;
+  name: string;
+  share: number; // relative share of drivers (percent)
+  laneChangeProbability: Distribution; // probability of acting on a lane change (0-1)
+  laneStickiness: Distribution; // reluctance to leave the current lane (0-1)
+  politeness?: Distribution; // MOBIL politeness, params.politenessFactor when omitted
+  speedFactor?: Distribution; // desired-speed multiplier, 1 when omitted
+  timeHeadway?: Distribution; // desired time headway (s), params.tDist when omitted
+  reactionTime?: Distribution; // s, from params.reactionTime and sdReactionTime when omitted
+}
+
+// Profile properties drawn from distributions
+export type DriverTrait = Exclude<keyof DriverProfile, "id" | "name" | "share">;
+
+// Widest range each trait may take, used for distributions added in the editor
+export const driverTraitBounds: Record<DriverTrait, { min: number; max: number }> = {
+  laneChangeProbability: { min: 0, max: 1 },
+  laneStickiness: { min: 0, max: 1 },
+  politeness: { min: 0, max: 2 },
+  speedFactor: { min: 0.5, max: 1.5 },
+  timeHeadway: { min: 0.5, max: 5 },
+  reactionTime: { min: 0, max: MAX_REACTION_TIME },
+};
+
+// The population the simulator always had: 20% aggressive, 60% normal, 20% conservative
+export const defaultDriverProfiles: DriverProfile[] = [
+  {
+    id: "aggressive",
+    name: "Aggressive",
+    share: 20,
+    laneChangeProbability: { mean: 0.8, sd: 0.1, min: 0.6, max: 1.0 },
+    laneStickiness: { mean: 0.3, sd: 0.1, min: 0.1, max: 0.5 },
+  },
+  {
+    id: "normal",
+    name: "Normal",
+    share: 60,
+    laneChangeProbability: { mean: 0.5, sd: 0.15, min: 0.2, max: 0.8 },
+    laneStickiness: { mean: 0.6, sd: 0.15, min: 0.3, max: 0.9 },
+  },
+  {
+    id: "conservative",
+    name: "Conservative",
+    share: 20,
+    laneChangeProbability: { mean: 0.2, sd: 0.1, min: 0.05, max: 0.4 },
+    laneStickiness: { mean: 0.8, sd: 0.1, min: 0.6, max: 1.0 },
+  },
+];
+
+// Profile with the given id; unknown ids fall back to the built-in profile of that id, then the first one
+export function getDriverProfile(id: string, profiles: DriverProfile[] = defaultDriverProfiles): DriverProfile {
+  return (
+    profiles.find(profile => profile.id === id) ??
+    defaultDriverProfiles.find(profile => profile.id === id) ??
+    profiles[0] ??
+    defaultDriverProfiles[0]
+  );
+}
@@ -0,0 +1,175 @@
+// Upstream demand for the open-road topology
+import type { RandomStream } from "./random";
+
+export type HeadwayDistribution = "poisson" | "uniform";
+
+/**
+ * Time (s) between two arrivals in a lane
+ * @param rate Demand in vehicles per hour per lane
+ * @param distribution Poisson arrivals (exponential headways) or evenly spaced ones
+ */
+export function sampleHeadway(
+  rate: number,
+  distribution: HeadwayDistribution,
+  rng: RandomStream
+): number {
+  if (rate <= 0) return Infinity;
+  const meanHeadway = 3600 / rate;
+  if (distribution === "uniform") return meanHeadway;
+  return -meanHeadway * Math.log(1 - rng.next());
+}
+
+// Serializable state of an arrival process, for engine snapshots
+export interface InflowState {
+  nextArrival: number[];
+  queued: number[];
+  rate: number;
+}
+
+/**
+ * Generates arrivals at the upstream end of an open road. Vehicles that
+ * cannot enter yet because the entry is occupied wait in a per-lane queue.
+ */
+export class InflowGenerator {
+  private nextArrival: number[] = []; // simulated time of the next arrival per lane
+  private queued: number[] = []; // vehicles waiting to enter per lane
+  private rate = 0;
+
+  /**
+   * Start a fresh arrival process. The first headway is drawn in full for
+   * Poisson arrivals and at a random phase for uniform ones, so lanes do
+   * not all release a vehicle at the same instant.
+   */
+  reset(
+    numLanes: number,
+    time: number,
+    rate: number,
+    distribution: HeadwayDistribution,
+    rng: RandomStream
+  ): void {
+    this.rate = rate;
+    this.queued = new Array(numLanes).fill(0);
+    this.nextArrival = this.queued.map(() => {
+      const headway = sampleHeadway(rate, distribution, rng);
+      return time + (distribution === "uniform" ? headway * rng.next() : headway);
+    });
+  }
+
+  /**
+   * Register all arrivals due by `time`
+   * @returns Number of vehicles waiting in each lane
+   */
+  update(
+    time: number,
+    numLanes: number,
+    rate: number,
+    distribution: HeadwayDistribution,
+    rng: RandomStream
+  ): number[] {
+    if (numLanes !== this.queued.length) {
+      // Lane count changed: restart the process but keep waiting vehicles
+      const queued = this.queued;
+      this.reset(numLanes, time, rate, distribution, rng);
+      queued.slice(0, numLanes).forEach((count, lane) => {
+        this.queued[lane] = count;
+      });
+    } else if (rate !== this.rate) {
+      this.changeRate(time, rate, distribution, rng);
+    }
+
+    for (let lane = 0; lane < numLanes; lane++) {
+      while (this.nextArrival[lane] <= time) {
+        this.queued[lane]++;
+        this.nextArrival[lane] += sampleHeadway(rate, distribution, rng);
+      }
+    }
+    return [...this.queued];
+  }
+
+  /**
+   * Switch to a new demand without restarting the process: the time left to
+   * each lane's next arrival is scaled by old rate / new rate, which keeps
+   * arrivals Poisson (or evenly spaced) under a demand that changes every
+   * step. A lane without demand so far draws a fresh first headway.
+   */
+  private changeRate(time: number, rate: number, distribution: HeadwayDistribution, rng: RandomStream): void {
+    const previousRate = this.rate;
+    this.rate = rate;
+    this.nextArrival = this.nextArrival.map(arrival => {
+      if (rate <= 0) return Infinity;
+      if (previousRate > 0 && Number.isFinite(arrival)) {
+        return time + ((arrival - time) * previousRate) / rate;
+      }
+      const headway = sampleHeadway(rate, distribution, rng);
+      return time + (distribution === "uniform" ? headway * rng.next() : headway);
+    });
+  }
+
+  // A waiting vehicle has entered the road
+  dequeue(lane: number): void {
+    this.queued[lane] = Math.max(0, this.queued[lane] - 1);
+  }
+
+  // A waiting vehicle lines up in another lane's queue instead
+  transfer(fromLane: number, toLane: number): void {
+    if (this.queued[fromLane] > 0 && toLane >= 0 && toLane < this.queued.length) {
+      this.queued[fromLane]--;
+      this.queued[toLane]++;
+    }
+  }
+
+  // Total vehicles waiting upstream across all lanes
+  getQueuedCount(): number {
+    return this.queued.reduce((sum, count) => sum + count, 0);
+  }
+
+  getState(): InflowState {
+    return { nextArrival: [...this.nextArrival], queued: [...this.queued], rate: this.rate };
+  }
+
+  setState(state: InflowState): void {
+    this.nextArrival = [...state.nextArrival];
+    this.queued = [...state.queued];
+    this.rate = state.rate;
+  }
+}
+
+/**
+ * Arrival processes feeding the road: the upstream boundary of an open road
+ * and one single-lane process per on-ramp, keyed by ramp id
+ */
+export interface TrafficSources {
+  mainline: InflowGenerator;
+  ramps: Map<string, InflowGenerator>;
+  nextCarId?: number; // id the next entering vehicle gets (set on the first step)
+}
+
+export const createTrafficSources = (): TrafficSources => ({
+  mainline: new InflowGenerator(),
+  ramps: new Map(),
+});
+
+// Serializable state of all arrival processes, for engine snapshots
+export interface TrafficSourcesState {
+  mainline: InflowState;
+  ramps: [string, InflowState][];
+  nextCarId?: number;
+}
+
+export const getTrafficSourcesState = (sources: TrafficSources): TrafficSourcesState => ({
+  mainline: sources.mainline.getState(),
+  ramps: [...sources.ramps].map(([rampId, source]) => [rampId, source.getState()]),
+  nextCarId: sources.nextCarId,
+});
+
+export function restoreTrafficSources(state: TrafficSourcesState): TrafficSources {
+  const sources = createTrafficSources();
+  sources.mainline.setState(state.mainline);
+  state.ramps.forEach(([rampId, rampState]) => {
+    const source = new InflowGenerator();
+    source.setState(rampState);
+    sources.ramps.set(rampId, source);
+  });
+  sources.nextCarId = state.nextCarId;
+  return sources;
+}
@@ -0,0 +1,217 @@
+// Per-lane ordered index of vehicles for leader and follower lookups in O(log n)
+import { forwardDistance, type RoadTopology } from "./roadTopology";
+
+// What the index needs to know about a vehicle
+export interface IndexedVehicle {
+  id: number;
+  position: number; // km
+  lane: number;
+}
+
+// Order within a lane: by position, ties broken by id so lookups are deterministic
+const comesBefore = (a: IndexedVehicle, b: IndexedVehicle) =>
+  a.position < b.position || (a.position === b.position && a.id < b.id);
+
+/**
+ * Vehicles of each lane sorted by position. Vehicles move only a little per
+ * step and rarely overtake within a lane, so after a step the order is
+ * repaired with an insertion sort (close to O(n)) rather than rebuilt.
+ * Vehicles are tracked by object identity: callers mutate position and lane
+ * in place and report lane changes, entries and exits.
+ */
+export class LaneIndex<T extends IndexedVehicle> {
+  private lanes = new Map<number, T[]>();
+  private laneOf = new Map<T, number>(); // lane each vehicle is filed under
+
+  constructor(vehicles: T[] = []) {
+    this.rebuild(vehicles);
+  }
+
+  // Index `vehicles` from scratch
+  rebuild(vehicles: T[]): void {
+    this.lanes = new Map();
+    this.laneOf = new Map();
+    vehicles.forEach(vehicle => {
+      this.getLane(vehicle.lane).push(vehicle);
+      this.laneOf.set(vehicle, vehicle.lane);
+    });
+    this.lanes.forEach(lane => lane.sort((a, b) => (comesBefore(a, b) ? -1 : comesBefore(b, a) ? 1 : 0)));
+  }
+
+  /**
+   * Bring the index in line with `vehicles` after their positions changed.
+   * Falls back to a rebuild when vehicles were added, removed or moved to
+   * another lane without going through the index.
+   */
+  sync(vehicles: T[]): void {
+    if (vehicles.length !== this.laneOf.size || vehicles.some(vehicle => this.laneOf.get(vehicle) !== vehicle.lane)) {
+      this.rebuild(vehicles);
+      return;
+    }
+    this.resort();
+  }
+
+  // Restore the position order of every lane after vehicles moved
+  resort(): void {
+    this.lanes.forEach(lane => {
+      for (let i = 1; i < lane.length; i++) {
+        const vehicle = lane[i];
+        let j = i - 1;
+        while (j >= 0 && comesBefore(vehicle, lane[j])) {
+          lane[j + 1] = lane[j];
+          j--;
+        }
+        lane[j + 1] = vehicle;
+      }
+    });
+  }
+
+  insert(vehicle: T): void {
+    const lane = this.getLane(vehicle.lane);
+    lane.splice(this.lowerBound(lane, vehicle), 0, vehicle);
+    this.laneOf.set(vehicle, vehicle.lane);
+  }
+
+  remove(vehicle: T): void {
+    const laneIndex = this.laneOf.get(vehicle);
+    if (laneIndex === undefined) return;
+    const lane = this.getLane(laneIndex);
+    // The vehicle sits at its sorted slot unless it moved since the last resort
+    let i = this.lowerBound(lane, vehicle);
+    if (lane[i] !== vehicle) i = lane.indexOf(vehicle);
+    if (i >= 0) lane.splice(i, 1);
+    this.laneOf.delete(vehicle);
+  }
+
+  // File a vehicle under its new lane after vehicle.lane was changed
+  changeLane(vehicle: T): void {
+    this.remove(vehicle);
+    this.insert(vehicle);
+  }
+
+  // Visit the vehicles of every lane, ordered by position
+  forEachLane(callback: (vehicles: readonly T[], lane: number) => void): void {
+    this.lanes.forEach((vehicles, lane) => callback(vehicles, lane));
+  }
+
+  /**
+   * Nearest vehicle ahead of `position` in `lane` and the distance to it
+   * (km, front to front). Vehicles level with the position do not count.
+   */
+  findLeader(
+    position: number,
+    lane: number,
+    laneLength: number,
+    topology: RoadTopology = "ring"
+  ): { leader?: T; distance: number } {
+    const vehicles = this.lanes.get(lane);
+    if (!vehicles || vehicles.length === 0) return { distance: Infinity };
+
+    const i = this.upperBound(vehicles, position);
+    let leader: T | undefined;
+    if (i < vehicles.length) {
+      leader = vehicles[i];
+    } else if (topology === "ring" && vehicles[0].position < position) {
+      leader = vehicles[0]; // wraps around the loop
+    }
+    return leader
+      ? { leader, distance: forwardDistance(position, leader.position, laneLength, topology) }
+      : { distance: Infinity };
+  }
+
+  /**
+   * Like findLeader, but a vehicle level with `position` counts as a leader
+   * at distance 0. For placing a new vehicle, which must not land on top of one.
+   */
+  findBlockingLeader(
+    position: number,
+    lane: number,
+    laneLength: number,
+    topology: RoadTopology = "ring"
+  ): { leader?: T; distance: number } {
+    const vehicles = this.lanes.get(lane);
+    if (!vehicles || vehicles.length === 0) return { distance: Infinity };
+
+    const i = this.firstAtOrAhead(vehicles, position);
+    let leader: T | undefined;
+    if (i < vehicles.length) {
+      leader = vehicles[i];
+    } else if (topology === "ring") {
+      leader = vehicles[0]; // wraps around the loop
+    }
+    return leader
+      ? { leader, distance: forwardDistance(position, leader.position, laneLength, topology) }
+      : { distance: Infinity };
+  }
+
+  /**
+   * Nearest vehicle behind `position` in `lane` and the distance to it
+   * (km, front to front). Vehicles level with the position do not count.
+   */
+  findFollower(
+    position: number,
+    lane: number,
+    laneLength: number,
+    topology: RoadTopology = "ring"
+  ): { follower?: T; distance: number } {
+    const vehicles = this.lanes.get(lane);
+    if (!vehicles || vehicles.length === 0) return { distance: Infinity };
+
+    // Last vehicle strictly behind the position
+    const low = this.firstAtOrAhead(vehicles, position);
+    let follower: T | undefined;
+    if (low > 0) {
+      follower = vehicles[low - 1];
+    } else if (topology === "ring" && vehicles[vehicles.length - 1].position > position) {
+      follower = vehicles[vehicles.length - 1]; // wraps around the loop
+    }
+    return follower
+      ? { follower, distance: forwardDistance(follower.position, position, laneLength, topology) }
+      : { distance: Infinity };
+  }
+
+  private getLane(lane: number): T[] {
+    let vehicles = this.lanes.get(lane);
+    if (!vehicles) {
+      vehicles = [];
+      this.lanes.set(lane, vehicles);
+    }
+    return vehicles;
+  }
+
+  // First slot whose vehicle does not come before `vehicle`
+  private lowerBound(vehicles: T[], vehicle: T): number {
+    let low = 0;
+    let high = vehicles.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (comesBefore(vehicles[mid], vehicle)) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+
+  // First slot whose vehicle is level with or ahead of `position`
+  private firstAtOrAhead(vehicles: T[], position: number): number {
+    let low = 0;
+    let high = vehicles.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (vehicles[mid].position < position) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+
+  // First slot whose vehicle is strictly ahead of `position`
+  private upperBound(vehicles: T[], position: number): number {
+    let low = 0;
+    let high = vehicles.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (vehicles[mid].position <= position) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+}
@@ -0,0 +1,64 @@
+// Lane-use rules: who may drive in a lane. Truck bans, bus lanes and HOV
+// (high-occupancy vehicle) lanes are rules on the lane, checked together with
+// the lanes each vehicle class allows itself.
+import { getVehicleClass, type VehicleClass } from "./vehicleClasses";
+
+export interface LaneRule {
+  id: string;
+  lane: number; // 0 = leftmost
+  allowedClasses?: string[]; // vehicle class ids that may use the lane; every class when omitted or empty
+  minOccupancy?: number; // HOV lane: fewest people on board (2 = HOV 2+); no requirement when omitted or 1
+  exemptClasses?: string[]; // classes that may use an HOV lane whatever their occupancy
+}
+
+// Share (percent) of vehicles with 1, 2, 3 and 4 or more people on board
+export const defaultOccupancyShares = [70, 20, 7, 3];
+
+// What the rules look at of a vehicle
+type LaneUser = { vehicleType: string; occupancy?: number };
+
+// Whether one rule lets a vehicle of the given class and occupancy (1 when unknown) in
+function satisfiesRule(rule: LaneRule, vehicleType: string, occupancy: number): boolean {
+  if (rule.allowedClasses?.length && !rule.allowedClasses.includes(vehicleType)) return false;
+  return occupancy >= requiredOccupancy(rule, vehicleType);
+}
+
+// People a vehicle of this class needs on board under the rule
+function requiredOccupancy(rule: LaneRule, vehicleType: string): number {
+  if (!rule.minOccupancy || rule.exemptClasses?.includes(vehicleType)) return 1;
+  return rule.minOccupancy;
+}
+
+/**
+ * Whether the rules let `vehicle` drive in `lane`. Every rule for the lane
+ * has to be met; lanes without rules are open to all.
+ */
+export function mayUseLane(rules: LaneRule[] | undefined, lane: number, vehicle: LaneUser): boolean {
+  if (!rules) return true;
+  return rules.every(rule => rule.lane !== lane || satisfiesRule(rule, vehicle.vehicleType, vehicle.occupancy ?? 1));
+}
+
+// Whether any lane has an occupancy requirement, so vehicles need an occupancy
+export function hasOccupancyRules(rules: LaneRule[] | undefined): boolean {
+  return !!rules?.some(rule => (rule.minOccupancy ?? 1) > 1);
+}
+
+// Whether some rule keeps vehicles out of the lane
+export function isRestrictedLane(rules: LaneRule[] | undefined, lane: number): boolean {
+  return !!rules?.some(rule => rule.lane === lane && (!!rule.allowedClasses?.length || (rule.minOccupancy ?? 1) > 1));
+}
+
+// Short description of a lane's restrictions, e.g. "HOV 2+" or "Car, Bus only"; empty for an open lane
+export function describeLaneRules(rules: LaneRule[] | undefined, lane: number, classes?: VehicleClass[]): string {
+  return (rules ?? [])
+    .filter(rule => rule.lane === lane)
+    .flatMap(rule => {
+      const parts: string[] = [];
+      if ((rule.minOccupancy ?? 1) > 1) parts.push(`HOV ${rule.minOccupancy}+`);
+      if (rule.allowedClasses?.length) {
+        parts.push(`${rule.allowedClasses.map(id => getVehicleClass(id, classes).name).join(", ")} only`);
+      }
+      return parts;
+    })
+    .join(", ");
+}
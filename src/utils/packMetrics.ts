@@ -0,0 +1,206 @@
+// Pack detection and pack metrics shared by the charts and the simulation engine
+import type { Car } from "./trafficSimulation";
+
+export interface PackHistoryItem {
+  time: number;
+  packCount: number;
+  runId?: string; // Add runId to distinguish between different simulation runs
+}
+
+export interface PackLengthHistoryItem {
+  time: number;
+  averageLength: number;
+  runId?: string; // Add runId to distinguish between different simulation runs
+}
+
+export interface PackDensityItem {
+  packId: number;
+  carCount: number;
+  avgSpeed: number;
+  density: number;
+}
+
+// Helper function to identify packs, to be used across components
+export const identifyPacks = (cars: Car[], laneLength: number): number => {
+  if (!cars.length) return 0;
+
+  const sortedCars = [...cars].sort((a, b) => a.position - b.position);
+
+  let currentPack: number[] = [sortedCars[0].id];
+  let currentPackSpeed = sortedCars[0].speed;
+  let packCount = 0;
+
+  // All thresholds in miles
+  const gapThreshold = 0.20; // in miles (~53 ft)
+  const speedDiffThreshold = 20; // mph
+
+  for (let i = 1; i < sortedCars.length; i++) {
+    const car = sortedCars[i];
+    const prevCar = sortedCars[i - 1];
+
+    // Calculate gap between current car and previous car
+    let gap = car.position - prevCar.position;
+    if (gap < 0) {
+      gap += sortedCars[sortedCars.length - 1].position + gapThreshold; // handle wraparound
+    }
+
+    const speedDifference = Math.abs(car.speed - currentPackSpeed);
+    const isNewPackBySpeed = speedDifference > speedDiffThreshold;
+    const isNewPackByGap = gap > gapThreshold;
+
+    if (!isNewPackBySpeed && !isNewPackByGap) {
+      currentPack.push(car.id);
+    } else {
+      if (currentPack.length > 0) {
+        packCount++;
+      }
+      currentPack = [car.id];
+      currentPackSpeed = car.speed;
+    }
+  }
+
+  if (currentPack.length > 0) {
+    packCount++;
+  }
+
+  return packCount;
+};
+
+// Helper function to calculate average pack length
+export const calculateAveragePackLength = (cars: Car[], laneLength: number): number => {
+  if (cars.length === 0) return 0;
+  
+  // Sort cars by position
+  const sortedCars = [...cars].sort((a, b) => a.position - b.position);
+  
+  let packCount = 1;
+  let currentPackStart = 0;
+  const packLengths: number[] = [];
+  let currentPackSpeed = sortedCars[0].speed;
+  
+  const safeDistanceThreshold = 100 / 5280; // in miles
+  const gapThresholdBuffer = 50 / 5280; // in miles
+  const totalGapThreshold = safeDistanceThreshold + gapThresholdBuffer;
+  
+  for (let i = 1; i < sortedCars.length; i++) {
+    const car = sortedCars[i];
+    const prevCar = sortedCars[i - 1];
+    
+    // Calculate gap between current car and previous car
+    let gap = car.position - prevCar.position;
+    
+    // Adjust for track wraparound
+    if (gap < 0) {
+      gap += laneLength;
+    }
+    
+    // Check both speed difference AND gap criteria
+    const speedDifference = Math.abs(car.speed - currentPackSpeed);
+    const isNewPackBySpeed = speedDifference > 10;
+    const isNewPackByGap = gap > totalGapThreshold;
+    
+    if (isNewPackBySpeed || isNewPackByGap) {
+      // Calculate length of current pack
+      let packLength = prevCar.position - sortedCars[currentPackStart].position;
+      
+      // Adjust for track wraparound for the pack length
+      if (packLength < 0) {
+        packLength += laneLength;
+      }
+      
+      packLengths.push(packLength);
+      packCount++;
+      currentPackStart = i;
+      currentPackSpeed = car.speed;
+    }
+  }
+  
+  // Don't forget the last pack
+  let lastPackLength = sortedCars[sortedCars.length - 1].position - sortedCars[currentPackStart].position;
+  
+  // Adjust for track wraparound
+  if (lastPackLength < 0) {
+    lastPackLength += laneLength;
+  }
+  
+  packLengths.push(lastPackLength);
+  
+  // Calculate average
+  const totalPackLength = packLengths.reduce((sum, length) => sum + length, 0);
+  return packLengths.length ? totalPackLength / packLengths.length : 0;
+};
+
+// Helper function to calculate pack density metrics
+export const calculatePackDensityMetrics = (cars: Car[], laneLength: number): PackDensityItem[] => {
+  if (cars.length === 0) return [];
+  
+  // Sort cars by position
+  const sortedCars = [...cars].sort((a, b) => a.position - b.position);
+  
+  let packId = 1;
+  let packStartIdx = 0;
+  const packs: {
+    packId: number;
+    cars: Car[];
+    startPos: number;
+    endPos: number;
+  }[] = [];
+  
+  // Consistent and reasonable threshold for pack detection
+  const totalGapThreshold = 0.01; // in miles (~53 ft)
+  
+  // First identify packs
+  for (let i = 1; i < sortedCars.length; i++) {
+    const car = sortedCars[i];
+    const prevCar = sortedCars[i - 1];
+    
+    // Calculate gap between current car and previous car
+    let gap = car.position - prevCar.position;
+    
+    // Adjust for track wraparound
+    if (gap < 0) {
+      gap += laneLength;
+    }
+    
+    // Check for new pack based on gap
+    if (gap > totalGapThreshold) {
+      // End current pack
+      const startPos = sortedCars[packStartIdx].position;
+      const endPos = prevCar.position;
+      
+      packs.push({
+        packId,
+        cars: sortedCars.slice(packStartIdx, i),
+        startPos,
+        endPos: endPos < startPos ? endPos + laneLength : endPos // Handle wraparound
+      });
+      
+      // Start new pack
+      packId++;
+      packStartIdx = i;
+    }
+  }
+  
+  // Don't forget the last pack
+  packs.push({
+    packId,
+    cars: sortedCars.slice(packStartIdx),
+    startPos: sortedCars[packStartIdx].position,
+    endPos: sortedCars[sortedCars.length - 1].position
+  });
+  
+  // Calculate metrics for each pack
+  return packs.map(pack => {
+    const carCount = pack.cars.length;
+    const packLength = (pack.endPos - pack.startPos + laneLength) % laneLength;
+    const density = packLength > 0 ? (carCount / packLength) : 0; // Cars per mile
+    const avgSpeed = pack.cars.reduce((sum, car) => sum + car.speed, 0) / carCount;
+    
+    return {
+      packId: pack.packId,
+      carCount,
+      avgSpeed,
+      density
+    };
+  });
+};
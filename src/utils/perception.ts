@@ -0,0 +1,147 @@
+// Delayed perception of the car ahead: every driver acts on the gap and the
+// leader speed as they were one reaction time ago, read back from a short
+// per-vehicle history of what the driver saw at each step
+
+// Longest reaction time a driver can be given (s); bounds the history length
+export const MAX_REACTION_TIME = 3;
+
+// Leader ids recorded for obstacles that are not vehicles (closures, ramp
+// ends) and for a free road ahead
+export const OBSTACLE_LEADER_ID = -1;
+export const NO_LEADER_ID = -2;
+
+// What a driver sees of the car ahead
+export interface LeaderObservation {
+  distance: number; // km to the leader, Infinity when the road ahead is free
+  speed: number; // km/h
+}
+
+// Numbers stored per sample: time, distance, speed
+const SAMPLE_SIZE = 3;
+
+// Observations of one driver, oldest overwritten first
+interface ObservationHistory {
+  leaderId: number; // leader the samples belong to
+  samples: Float64Array; // ring of [time, distance, speed]
+  start: number; // slot of the oldest sample
+  count: number;
+}
+
+// Serializable state of the perception memory, for engine snapshots
+export interface PerceptionState {
+  capacity: number;
+  histories: [number, ObservationHistory][];
+}
+
+/**
+ * Per-vehicle ring buffers of leader observations. A buffer holds just enough
+ * steps to cover MAX_REACTION_TIME, so memory stays bounded however long the run.
+ */
+export class PerceptionMemory {
+  private histories = new Map<number, ObservationHistory>(); // car id -> observations
+  private capacity = 0; // samples per buffer for the current step length
+
+  /**
+   * Record what a driver sees now and return what it reacts to: the
+   * observation `reactionTime` seconds ago, interpolated between steps.
+   * A new leader (after a lane change or a cut-in) starts a fresh history,
+   * so the delay applies to changes in the motion of the leader being followed.
+   */
+  observe(
+    carId: number,
+    leaderId: number,
+    time: number,
+    reactionTime: number,
+    dt: number,
+    current: LeaderObservation
+  ): LeaderObservation {
+    const capacity = Math.ceil(MAX_REACTION_TIME / dt) + 2;
+    if (capacity !== this.capacity) {
+      this.capacity = capacity;
+      this.histories.clear();
+    }
+
+    let history = this.histories.get(carId);
+    if (!history) {
+      history = { leaderId, samples: new Float64Array(capacity * SAMPLE_SIZE), start: 0, count: 0 };
+      this.histories.set(carId, history);
+    }
+    if (history.leaderId !== leaderId) {
+      history.leaderId = leaderId;
+      history.count = 0;
+    }
+    this.push(history, time, current);
+
+    return this.lookup(history, time - Math.min(reactionTime, MAX_REACTION_TIME)) ?? current;
+  }
+
+  // Drop the history of a car that left the road
+  forget(carId: number): void {
+    this.histories.delete(carId);
+  }
+
+  clear(): void {
+    this.histories.clear();
+  }
+
+  getState(): PerceptionState {
+    return {
+      capacity: this.capacity,
+      histories: [...this.histories].map(([carId, history]) => [carId, { ...history, samples: history.samples.slice() }]),
+    };
+  }
+
+  setState(state: PerceptionState): void {
+    this.capacity = state.capacity;
+    this.histories = new Map(
+      state.histories.map(([carId, history]) => [carId, { ...history, samples: Float64Array.from(history.samples) }])
+    );
+  }
+
+  private push(history: ObservationHistory, time: number, observation: LeaderObservation): void {
+    const { samples } = history;
+    const newest = history.count > 0 ? (history.start + history.count - 1) % this.capacity : -1;
+    let slot: number;
+    if (newest >= 0 && samples[newest * SAMPLE_SIZE] === time) {
+      slot = newest; // seen twice this step (after a lane change): keep the latest
+    } else if (history.count < this.capacity) {
+      slot = (history.start + history.count) % this.capacity;
+      history.count++;
+    } else {
+      slot = history.start;
+      history.start = (history.start + 1) % this.capacity;
+    }
+    samples[slot * SAMPLE_SIZE] = time;
+    samples[slot * SAMPLE_SIZE + 1] = observation.distance;
+    samples[slot * SAMPLE_SIZE + 2] = observation.speed;
+  }
+
+  // Observation at `time`; the oldest one when the history does not reach back that far
+  private lookup(history: ObservationHistory, time: number): LeaderObservation | undefined {
+    const { samples } = history;
+    const at = (i: number) => ((history.start + i) % this.capacity) * SAMPLE_SIZE;
+
+    for (let i = history.count - 1; i >= 0; i--) {
+      const older = at(i);
+      if (samples[older] > time && i > 0) continue;
+      if (samples[older] >= time || i === history.count - 1) {
+        return { distance: samples[older + 1], speed: samples[older + 2] };
+      }
+
+      // Between two steps: interpolate, unless the road ahead was free in either
+      const newer = at(i + 1);
+      const weight = (time - samples[older]) / (samples[newer] - samples[older]);
+      const olderDistance = samples[older + 1];
+      const newerDistance = samples[newer + 1];
+      if (!isFinite(olderDistance) || !isFinite(newerDistance)) {
+        const nearest = weight < 0.5 ? older : newer;
+        return { distance: samples[nearest + 1], speed: samples[nearest + 2] };
+      }
+      return {
+        distance: olderDistance + (newerDistance - olderDistance) * weight,
+        speed: samples[older + 2] + (samples[newer + 2] - samples[older + 2]) * weight,
+      };
+    }
+    return undefined;
+  }
+}
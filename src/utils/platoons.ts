@@ -0,0 +1,70 @@
+// Platoons: chains of connected vehicles, each following the one ahead under
+// cooperative adaptive cruise control. A platoon is known by the id of its
+// lead vehicle, the first one of the chain that is not itself following.
+
+interface PlatoonMember {
+  id: number;
+  platoonId?: number;
+}
+
+/**
+ * Set platoonId on every car from this step's CACC links (follower id ->
+ * leader id): followers get the id of the lead vehicle at the front of their
+ * chain, and a lead vehicle with at least one follower gets its own id.
+ * A ring closed entirely by connected vehicles counts as one platoon.
+ */
+export function assignPlatoons(cars: PlatoonMember[], caccLeaders: Map<number, number>): void {
+  const present = new Set(cars.map(car => car.id));
+  const heads = new Map<number, number>(); // car id -> lead vehicle id
+
+  const findHead = (id: number): number => {
+    const chain: number[] = [];
+    const onChain = new Set<number>();
+    let current = id;
+    while (!heads.has(current)) {
+      const leaderId = caccLeaders.get(current);
+      if (leaderId === undefined || !present.has(leaderId) || onChain.has(current)) break;
+      chain.push(current);
+      onChain.add(current);
+      current = leaderId;
+    }
+    const head = heads.get(current) ?? current;
+    chain.forEach(member => heads.set(member, head));
+    return head;
+  };
+
+  const leading = new Set<number>();
+  cars.forEach(car => {
+    const leaderId = caccLeaders.get(car.id);
+    if (leaderId !== undefined && present.has(leaderId)) {
+      car.platoonId = findHead(car.id);
+      leading.add(car.platoonId);
+    } else {
+      car.platoonId = undefined;
+    }
+  });
+  cars.forEach(car => {
+    if (leading.has(car.id)) car.platoonId = car.id;
+  });
+}
+
+export interface PlatoonSummary {
+  count: number; // platoons on the road
+  meanSize: number; // vehicles per platoon, lead vehicle included
+  maxSize: number;
+  share: number; // fraction of all vehicles driving in a platoon (0-1)
+}
+
+export function summarizePlatoons(cars: PlatoonMember[]): PlatoonSummary {
+  const sizes = new Map<number, number>();
+  cars.forEach(car => {
+    if (car.platoonId !== undefined) sizes.set(car.platoonId, (sizes.get(car.platoonId) ?? 0) + 1);
+  });
+  const members = [...sizes.values()].reduce((total, size) => total + size, 0);
+  return {
+    count: sizes.size,
+    meanSize: sizes.size > 0 ? members / sizes.size : 0,
+    maxSize: sizes.size > 0 ? Math.max(...sizes.values()) : 0,
+    share: cars.length > 0 ? members / cars.length : 0,
+  };
+}
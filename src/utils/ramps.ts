@@ -0,0 +1,77 @@
+// On-ramps and off-ramps. A ramp runs alongside the mainline as an extra lane
+// (acceleration lane for on-ramps, deceleration lane for off-ramps) next to
+// the leftmost or rightmost lane.
+import { forwardDistance, type RoadTopology } from "./roadTopology";
+
+export type RampType = "on" | "off";
+export type RampSide = "left" | "right";
+
+export interface Ramp {
+  id: string;
+  type: RampType;
+  position: number; // km, where the acceleration/deceleration lane starts
+  length: number; // km, length of the acceleration/deceleration lane
+  side: RampSide;
+  flow?: number; // on-ramps: demand in vehicles per hour
+}
+
+// Lane index used for vehicles on a ramp: -1 beside the leftmost lane,
+// numLanes beside the rightmost one
+export function getRampLane(ramp: Ramp, numLanes: number): number {
+  return ramp.side === "left" ? -1 : numLanes;
+}
+
+// Mainline lane a ramp connects to
+export function getRampEdgeLane(ramp: Ramp, numLanes: number): number {
+  return ramp.side === "left" ? 0 : numLanes - 1;
+}
+
+// Whether `position` lies within the ramp's acceleration/deceleration lane
+export function isWithinRamp(
+  ramp: Ramp,
+  position: number,
+  laneLength: number,
+  topology: RoadTopology = "ring"
+): boolean {
+  const offset = forwardDistance(ramp.position, position, laneLength, topology);
+  return offset >= 0 && offset <= ramp.length;
+}
+
+/**
+ * Pick where a trip of `tripDistance` km starting at `position` leaves the road:
+ * the off-ramp reached closest to the end of the planned trip. On an open road
+ * the downstream end competes with the off-ramps.
+ * @returns The chosen off-ramp (undefined for the downstream end or when there
+ * are no off-ramps) and the driving distance to it in km
+ */
+export function chooseExit(
+  position: number,
+  tripDistance: number,
+  ramps: Ramp[],
+  laneLength: number,
+  topology: RoadTopology = "ring"
+): { ramp?: Ramp; distance: number } {
+  let best: { ramp?: Ramp; distance: number } =
+    topology === "open"
+      ? { distance: laneLength - position }
+      : { distance: tripDistance };
+  let bestError = topology === "open" ? Math.abs(best.distance - tripDistance) : Infinity;
+
+  ramps
+    .filter(ramp => ramp.type === "off")
+    .forEach(ramp => {
+      let distance = forwardDistance(position, ramp.position, laneLength, topology);
+      if (distance <= 0) return; // behind us on an open road
+      if (topology === "ring") {
+        // Add whole laps so the exit falls closest to the planned trip length
+        distance += Math.max(0, Math.round((tripDistance - distance) / laneLength)) * laneLength;
+      }
+      const error = Math.abs(distance - tripDistance);
+      if (error < bestError) {
+        best = { ramp, distance };
+        bestError = error;
+      }
+    });
+
+  return best;
+}
@@ -0,0 +1,56 @@
+// Seedable pseudo-random number generation for the traffic simulation
+
+/**
+ * Serializable state of a random stream. Restoring a stream from this state
+ * continues the exact same sequence of numbers.
+ */
+export interface RandomState {
+  seed: number; // seed the stream was created with
+  state: number; // current 32-bit generator state
+}
+
+/**
+ * Returns a fresh seed for runs that do not specify one
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 0xffffffff) >>> 0;
+}
+
+/**
+ * Deterministic random number stream (mulberry32).
+ * Every stochastic choice in the simulation draws from one of these so that a
+ * run can be replayed exactly from its seed or from a saved state.
+ */
+export class RandomStream {
+  private seed: number;
+  private state: number;
+
+  constructor(seed: number = generateSeed()) {
+    this.seed = Math.floor(seed) >>> 0;
+    this.state = this.seed;
+  }
+
+  static fromState(randomState: RandomState): RandomStream {
+    const stream = new RandomStream(randomState.seed);
+    stream.setState(randomState);
+    return stream;
+  }
+
+  // Uniform random number in [0, 1)
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  getState(): RandomState {
+    return { seed: this.seed, state: this.state };
+  }
+
+  setState(randomState: RandomState): void {
+    this.seed = randomState.seed >>> 0;
+    this.state = randomState.state >>> 0;
+  }
+}
@@ -0,0 +1,107 @@
+// Road geometry: segments with their own lane counts (lane drops) and lane
+// closures (work zones). Both reduce to intervals where a lane cannot be used.
+import { forwardDistance, type RoadTopology } from "./roadTopology";
+
+/**
+ * Stretch of road with fewer lanes than params.numLanes. Lanes are kept from
+ * the left, so a two-lane segment on a three-lane road drops the rightmost lane.
+ * Outside every segment the road has params.numLanes lanes.
+ */
+export interface RoadSegment {
+  id: string;
+  start: number; // km
+  end: number; // km
+  numLanes: number;
+}
+
+// One lane blocked over a position interval, e.g. a work zone
+export interface LaneClosure {
+  id: string;
+  lane: number; // 0 is the leftmost lane
+  start: number; // km
+  end: number; // km
+}
+
+export interface BlockedInterval {
+  lane: number;
+  start: number; // km
+  end: number; // km
+}
+
+/**
+ * All intervals where a lane cannot be driven, from segments and closures
+ */
+export function getBlockedIntervals(
+  segments: RoadSegment[],
+  closures: LaneClosure[],
+  numLanes: number
+): BlockedInterval[] {
+  const blocked: BlockedInterval[] = closures
+    .filter(closure => closure.lane >= 0 && closure.lane < numLanes && closure.end > closure.start)
+    .map(({ lane, start, end }) => ({ lane, start, end }));
+
+  segments.forEach(segment => {
+    if (segment.end <= segment.start) return;
+    for (let lane = Math.max(0, segment.numLanes); lane < numLanes; lane++) {
+      blocked.push({ lane, start: segment.start, end: segment.end });
+    }
+  });
+
+  return blocked;
+}
+
+// Whether `lane` is blocked at `position`
+export function isLaneBlockedAt(blocked: BlockedInterval[], lane: number, position: number): boolean {
+  return blocked.some(interval => interval.lane === lane && position >= interval.start && position < interval.end);
+}
+
+/**
+ * Distance (km) from `position` to the start of the next blocked interval in
+ * `lane`: 0 when the position is already inside one, Infinity when the lane
+ * is clear ahead.
+ */
+export function distanceToBlockage(
+  blocked: BlockedInterval[],
+  lane: number,
+  position: number,
+  laneLength: number,
+  topology: RoadTopology = "ring"
+): number {
+  let nearest = Infinity;
+  blocked.forEach(interval => {
+    if (interval.lane !== lane) return;
+    if (position >= interval.start && position < interval.end) {
+      nearest = 0;
+      return;
+    }
+    const distance = forwardDistance(position, interval.start, laneLength, topology);
+    if (distance > 0 && distance < nearest) nearest = distance;
+  });
+  return nearest;
+}
+
+/**
+ * Nearest lane to `lane` that is open at `position`, or undefined if every lane is blocked
+ */
+export function findOpenLane(
+  blocked: BlockedInterval[],
+  lane: number,
+  position: number,
+  numLanes: number
+): number | undefined {
+  for (let offset = 0; offset < numLanes; offset++) {
+    for (const candidate of [lane - offset, lane + offset]) {
+      if (candidate >= 0 && candidate < numLanes && !isLaneBlockedAt(blocked, candidate, position)) {
+        return candidate;
+      }
+    }
+  }
+  return undefined;
+}
+
+// Lanes open at `position`, left to right
+export function getOpenLanes(blocked: BlockedInterval[], position: number, numLanes: number): number[] {
+  return Array.from({ length: numLanes }, (_, lane) => lane).filter(
+    lane => !isLaneBlockedAt(blocked, lane, position)
+  );
+}
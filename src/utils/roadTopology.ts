@@ -0,0 +1,33 @@
+// Road topology: a closed ring where positions wrap around, or an open road
+// where vehicles enter upstream at position 0 and leave downstream at laneLength.
+
+export type RoadTopology = "ring" | "open";
+
+/**
+ * Distance (km) driving forward from `from` to `to`.
+ * On a ring this is always in [0, laneLength); on an open road it is
+ * negative when `to` lies behind `from`.
+ */
+export function forwardDistance(
+  from: number,
+  to: number,
+  laneLength: number,
+  topology: RoadTopology = "ring"
+): number {
+  if (topology === "open") return to - from;
+  return (to - from + laneLength) % laneLength;
+}
+
+/**
+ * Position (km) after moving `move` km forward. Wraps on a ring; on an open
+ * road it may run past laneLength, which means the vehicle has left the road.
+ */
+export function advancePosition(
+  position: number,
+  move: number,
+  laneLength: number,
+  topology: RoadTopology = "ring"
+): number {
+  if (topology === "open") return position + move;
+  return (position + move) % laneLength;
+}
@@ -0,0 +1,313 @@
+// Surrogate safety measures for every leader–follower pair: time-to-collision
+// (TTC), post-encroachment time (PET) and deceleration rate to avoid a crash
+// (DRAC), with conflicts logged whenever a pair crosses a threshold
+import type { Car } from "./trafficSimulation";
+import type { LaneIndex } from "./laneIndex";
+import { forwardDistance, type RoadTopology } from "./roadTopology";
+
+export type SafetyMeasure = "collision" | "ttc" | "pet" | "drac";
+
+// Measures with a continuous value worth a distribution
+export type SafetyDistribution = Exclude<SafetyMeasure, "collision">;
+
+export interface SafetyThresholds {
+  ttc: number; // s: conflicts below this time-to-collision
+  pet: number; // s: conflicts below this post-encroachment time
+  drac: number; // m/s²: conflicts above this deceleration rate
+}
+
+export const defaultSafetyThresholds: SafetyThresholds = {
+  ttc: 1.5,
+  pet: 1,
+  drac: 3.35, // braking the AASHTO stopping sight distance assumes
+};
+
+export const safetyMeasureLabels: Record<SafetyMeasure, string> = {
+  collision: "Overlaps",
+  ttc: "Time to collision",
+  pet: "Post-encroachment time",
+  drac: "Deceleration to avoid crash",
+};
+
+/**
+ * A leader–follower pair beyond a threshold. Logged when the pair crosses it;
+ * value and duration are updated until the pair is out of conflict again.
+ */
+export interface SafetyConflict {
+  id: number;
+  measure: SafetyMeasure;
+  time: number; // s, when the conflict started
+  duration: number; // s
+  followerId: number;
+  leaderId: number;
+  lane: number;
+  position: number; // km, follower position when the conflict started
+  value: number; // worst value so far: s for TTC and PET, m/s² for DRAC, overlap in m for collisions
+}
+
+export interface SafetyHistogramBin {
+  from: number;
+  to: number;
+  exposure: number; // s of pair time spent with a value in [from, to)
+}
+
+export interface SafetySummary {
+  thresholds: SafetyThresholds;
+  counts: Record<SafetyMeasure, number>; // conflicts since the start of the run
+  conflicts: SafetyConflict[]; // most recent conflicts, oldest first
+  histograms: Record<SafetyDistribution, SafetyHistogramBin[]>;
+}
+
+// Histogram ranges; values beyond the last bin are not critical and not counted
+const HISTOGRAM_BINS: Record<SafetyDistribution, { width: number; count: number }> = {
+  ttc: { width: 0.5, count: 20 }, // 0-10 s
+  pet: { width: 0.25, count: 20 }, // 0-5 s
+  drac: { width: 0.5, count: 20 }, // 0-10 m/s²
+};
+
+// Conflicts kept in the log
+const CONFLICT_LOG_LIMIT = 200;
+
+// Seconds of each vehicle's trajectory kept for PET; longer times are past the
+// histogram and, unless the threshold is higher, not critical
+const PET_HISTORY = HISTOGRAM_BINS.pet.width * HISTOGRAM_BINS.pet.count;
+
+// Recent trajectory of a vehicle as distance driven over time
+interface VehicleTrack {
+  position: number; // km, at the last sample
+  times: number[]; // s
+  traveled: number[]; // km driven since the track started, at each time
+}
+
+const emptyCounts = (): Record<SafetyMeasure, number> => ({ collision: 0, ttc: 0, pet: 0, drac: 0 });
+
+const emptyHistograms = (): Record<SafetyDistribution, number[]> => ({
+  ttc: new Array(HISTOGRAM_BINS.ttc.count).fill(0),
+  pet: new Array(HISTOGRAM_BINS.pet.count).fill(0),
+  drac: new Array(HISTOGRAM_BINS.drac.count).fill(0),
+});
+
+/**
+ * TTC and DRAC for a follower behind a leader whose front is `distance` km
+ * ahead. PET needs the leader's past trajectory; see postEncroachmentTime.
+ */
+export function calculatePairSafety(
+  follower: Pick<Car, "speed">,
+  leader: Pick<Car, "speed" | "length">,
+  distance: number
+): { gap: number; ttc: number; drac: number } {
+  const gap = distance * 1000 - leader.length; // bumper to bumper in meters
+  const closingSpeed = (follower.speed - leader.speed) / 3.6; // km/h to m/s
+  const room = Math.max(gap, 0);
+
+  return {
+    gap,
+    ttc: closingSpeed > 0 ? room / closingSpeed : Infinity,
+    drac: closingSpeed > 0 ? (closingSpeed * closingSpeed) / (2 * Math.max(room, 0.01)) : 0,
+  };
+}
+
+/**
+ * Post-encroachment time at the point the follower's front has reached at
+ * `time`: the time since the leader's rear left that point, which is when
+ * the leader had driven `gap` m less than now. 0 while the two overlap;
+ * Infinity when that moment is older than the leader's track.
+ */
+function postEncroachmentTime(leader: VehicleTrack, gap: number, time: number): number {
+  if (gap <= 0) return 0;
+  const { times, traveled } = leader;
+  const target = traveled[traveled.length - 1] - gap / 1000;
+  for (let i = traveled.length - 1; i > 0; i--) {
+    if (traveled[i - 1] <= target) {
+      // The leader drove past the point between samples i - 1 and i
+      const fraction = (target - traveled[i - 1]) / (traveled[i] - traveled[i - 1]);
+      return time - (times[i - 1] + fraction * (times[i] - times[i - 1]));
+    }
+  }
+  return Infinity;
+}
+
+// Serializable state of a safety monitor, for engine snapshots
+export interface SafetyMonitorState {
+  thresholds: SafetyThresholds;
+  counts: Record<SafetyMeasure, number>;
+  conflicts: SafetyConflict[];
+  active: [string, SafetyConflict][]; // conflicts still open, by measure:follower:leader
+  histograms: Record<SafetyDistribution, number[]>;
+  tracks: [number, VehicleTrack][]; // by vehicle id
+  nextConflictId: number;
+}
+
+/**
+ * Evaluates the leader–follower pairs after every step, keeps the conflict
+ * log and the exposure distributions of a run
+ */
+export class SafetyMonitor {
+  private thresholds: SafetyThresholds = defaultSafetyThresholds;
+  private counts = emptyCounts();
+  private conflicts: SafetyConflict[] = [];
+  private active = new Map<string, SafetyConflict>(); // measure:follower:leader -> conflict
+  private histograms = emptyHistograms();
+  private tracks = new Map<number, VehicleTrack>(); // vehicle id -> recent trajectory
+  private nextConflictId = 0;
+
+  reset(thresholds: SafetyThresholds = defaultSafetyThresholds): void {
+    this.thresholds = thresholds;
+    this.counts = emptyCounts();
+    this.conflicts = [];
+    this.active = new Map();
+    this.histograms = emptyHistograms();
+    this.tracks = new Map();
+    this.nextConflictId = 0;
+  }
+
+  /**
+   * Evaluate every pair of consecutive vehicles in each lane
+   * @param dt Step length (s), the exposure each pair adds
+   * @returns Conflicts that started this step
+   */
+  record(
+    laneIndex: LaneIndex<Car>,
+    laneLength: number,
+    topology: RoadTopology,
+    time: number,
+    dt: number
+  ): SafetyConflict[] {
+    const started: SafetyConflict[] = [];
+    const stillActive = new Map<string, SafetyConflict>();
+
+    const flag = (measure: SafetyMeasure, follower: Car, leader: Car, value: number, worse: (a: number, b: number) => boolean) => {
+      const key = `${measure}:${follower.id}:${leader.id}`;
+      let conflict = this.active.get(key);
+      if (conflict) {
+        conflict.duration = time - conflict.time;
+        if (worse(value, conflict.value)) conflict.value = value;
+      } else {
+        conflict = {
+          id: this.nextConflictId++,
+          measure,
+          time,
+          duration: 0,
+          followerId: follower.id,
+          leaderId: leader.id,
+          lane: follower.lane,
+          position: follower.position,
+          value,
+        };
+        this.counts[measure]++;
+        this.conflicts.push(conflict);
+        started.push(conflict);
+      }
+      stillActive.set(key, conflict);
+    };
+    const lower = (a: number, b: number) => a < b;
+    const higher = (a: number, b: number) => a > b;
+
+    // Extend every track before the pairs are evaluated, so leaders include this step
+    const history = Math.max(PET_HISTORY, this.thresholds.pet);
+    laneIndex.forEachLane(vehicles =>
+      vehicles.forEach(vehicle => {
+        const track = this.tracks.get(vehicle.id);
+        if (!track) {
+          this.tracks.set(vehicle.id, { position: vehicle.position, times: [time], traveled: [0] });
+          return;
+        }
+        const driven = forwardDistance(track.position, vehicle.position, laneLength, topology);
+        track.position = vehicle.position;
+        track.times.push(time);
+        track.traveled.push(track.traveled[track.traveled.length - 1] + driven);
+        // Keep one sample at or before the start of the history to interpolate from
+        while (track.times.length > 2 && track.times[1] <= time - history) {
+          track.times.shift();
+          track.traveled.shift();
+        }
+      })
+    );
+    // Drop the tracks of vehicles that left the road
+    this.tracks.forEach((track, id) => {
+      if (track.times[track.times.length - 1] !== time) this.tracks.delete(id);
+    });
+
+    laneIndex.forEachLane(vehicles => {
+      // On a ring the last vehicle follows the first one round the loop
+      const pairs = topology === "ring" && vehicles.length > 1 ? vehicles.length : vehicles.length - 1;
+      for (let i = 0; i < pairs; i++) {
+        const follower = vehicles[i];
+        const leader = vehicles[(i + 1) % vehicles.length];
+        let distance = leader.position - follower.position;
+        if (distance < 0) distance += laneLength; // wrapped around the loop
+
+        const { gap, ttc, drac } = calculatePairSafety(follower, leader, distance);
+        const pet = postEncroachmentTime(this.tracks.get(leader.id)!, gap, time);
+        this.addExposure("ttc", ttc, dt);
+        this.addExposure("pet", pet, dt);
+        this.addExposure("drac", drac, dt);
+
+        if (gap < 0) flag("collision", follower, leader, -gap, higher);
+        if (ttc < this.thresholds.ttc) flag("ttc", follower, leader, ttc, lower);
+        if (pet < this.thresholds.pet) flag("pet", follower, leader, pet, lower);
+        if (drac > this.thresholds.drac) flag("drac", follower, leader, drac, higher);
+      }
+    });
+
+    this.active = stillActive;
+    if (this.conflicts.length > CONFLICT_LOG_LIMIT) {
+      this.conflicts = this.conflicts.slice(-CONFLICT_LOG_LIMIT);
+    }
+    return started;
+  }
+
+  private addExposure(measure: SafetyDistribution, value: number, dt: number): void {
+    const { width, count } = HISTOGRAM_BINS[measure];
+    const bin = Math.floor(value / width);
+    if (bin >= 0 && bin < count) this.histograms[measure][bin] += dt;
+  }
+
+  getState(): SafetyMonitorState {
+    return {
+      thresholds: { ...this.thresholds },
+      counts: { ...this.counts },
+      conflicts: this.conflicts.map(conflict => ({ ...conflict })),
+      active: [...this.active].map(([key, conflict]) => [key, { ...conflict }]),
+      histograms: { ttc: [...this.histograms.ttc], pet: [...this.histograms.pet], drac: [...this.histograms.drac] },
+      tracks: [...this.tracks].map(([id, track]) => [
+        id,
+        { position: track.position, times: [...track.times], traveled: [...track.traveled] },
+      ]),
+      nextConflictId: this.nextConflictId,
+    };
+  }
+
+  setState(state: SafetyMonitorState): void {
+    this.thresholds = { ...state.thresholds };
+    this.counts = { ...state.counts };
+    this.conflicts = state.conflicts.map(conflict => ({ ...conflict }));
+    // An open conflict is the same object as its log entry, so updates to it show in the log
+    const logged = new Map(this.conflicts.map(conflict => [conflict.id, conflict]));
+    this.active = new Map(
+      state.active.map(([key, conflict]) => [key, logged.get(conflict.id) ?? { ...conflict }])
+    );
+    this.histograms = { ttc: [...state.histograms.ttc], pet: [...state.histograms.pet], drac: [...state.histograms.drac] };
+    this.tracks = new Map(
+      state.tracks.map(([id, track]) => [id, { position: track.position, times: [...track.times], traveled: [...track.traveled] }])
+    );
+    this.nextConflictId = state.nextConflictId;
+  }
+
+  // Copy of the current results, safe to hand to UI code
+  getSummary(): SafetySummary {
+    const toBins = (measure: SafetyDistribution): SafetyHistogramBin[] =>
+      this.histograms[measure].map((exposure, i) => ({
+        from: i * HISTOGRAM_BINS[measure].width,
+        to: (i + 1) * HISTOGRAM_BINS[measure].width,
+        exposure,
+      }));
+
+    return {
+      thresholds: this.thresholds,
+      counts: { ...this.counts },
+      conflicts: this.conflicts.map(conflict => ({ ...conflict })),
+      histograms: { ttc: toBins("ttc"), pet: toBins("pet"), drac: toBins("drac") },
+    };
+  }
+}
@@ -0,0 +1,139 @@
+// Scripted scenario timeline: perturbations that happen at fixed simulated
+// times, so phantom-jam and incident experiments replay exactly
+import type { LaneClosure } from "./roadGeometry";
+import type { SimulationParams } from "./trafficSimulation";
+
+export type ScenarioEventType = "brake" | "stall" | "closeLane" | "speedLimit" | "demand";
+
+interface ScenarioEventBase {
+  id: string;
+  time: number; // s
+}
+
+// Brake a vehicle down to `speed` and hold it there for `duration` seconds
+export interface BrakeScenarioEvent extends ScenarioEventBase {
+  type: "brake";
+  carId: number;
+  speed: number; // km/h
+  duration: number; // s
+  deceleration?: number; // m/s², defaults to DEFAULT_BRAKE_DECELERATION
+}
+
+// Stop a vehicle dead, like clicking it on the track
+export interface StallScenarioEvent extends ScenarioEventBase {
+  type: "stall";
+  carId: number;
+  duration?: number; // s, stalled for the rest of the run when omitted
+}
+
+// Close a lane over a stretch of road
+export interface CloseLaneScenarioEvent extends ScenarioEventBase {
+  type: "closeLane";
+  lane: number;
+  start: number; // km
+  end: number; // km
+  duration?: number; // s, closed for the rest of the run when omitted
+}
+
+export interface SpeedLimitScenarioEvent extends ScenarioEventBase {
+  type: "speedLimit";
+  speedLimit: number; // km/h
+}
+
+// New upstream demand of an open road; a ring has no upstream, so the editor
+// and JSON import refuse these events there
+export interface DemandScenarioEvent extends ScenarioEventBase {
+  type: "demand";
+  inflowRate: number; // veh/h/lane
+}
+
+export type ScenarioEvent =
+  | BrakeScenarioEvent
+  | StallScenarioEvent
+  | CloseLaneScenarioEvent
+  | SpeedLimitScenarioEvent
+  | DemandScenarioEvent;
+
+export const scenarioEventLabels: Record<ScenarioEventType, string> = {
+  brake: "Brake vehicle",
+  stall: "Stall vehicle",
+  closeLane: "Close lane",
+  speedLimit: "Speed limit",
+  demand: "Demand",
+};
+
+// Braking used when a brake event does not give its own (m/s²)
+export const DEFAULT_BRAKE_DECELERATION = 3;
+
+/**
+ * All scripted events of a run in firing order: params.scenarioEvents plus
+ * the single brake described by brakeTime/brakeCarIndex. That brake is held
+ * for brakeDuration seconds, is left out when brakeDuration is 0, and lasts
+ * for the rest of the run when brakeDuration is unset, as the two older
+ * fields alone describe it.
+ */
+export function getScenarioTimeline(params: SimulationParams): ScenarioEvent[] {
+  const timeline: ScenarioEvent[] = [...(params.scenarioEvents ?? [])];
+  if (params.brakeDuration === undefined || params.brakeDuration > 0) {
+    timeline.push({
+      id: "legacy-brake",
+      type: "brake",
+      time: params.brakeTime,
+      carId: params.brakeCarIndex,
+      speed: params.brakeSpeed ?? 0,
+      duration: params.brakeDuration ?? Infinity,
+    });
+  }
+  // Array.prototype.sort is stable, so events at the same time keep their order
+  return timeline.sort((a, b) => a.time - b.time);
+}
+
+// Whether an event with an optional duration is still in effect at `time`
+const isActive = (event: { time: number; duration?: number }, time: number) =>
+  event.time <= time && (event.duration === undefined || time < event.time + event.duration);
+
+/**
+ * Parameters in effect at `time`: the latest speed limit and demand events
+ * override params, and active lane closures are added to params.laneClosures.
+ * Returns `params` itself when no event has taken effect yet.
+ */
+export function applyScenario(
+  params: SimulationParams,
+  timeline: ScenarioEvent[],
+  time: number
+): SimulationParams {
+  let effective = params;
+  const closures: LaneClosure[] = [];
+
+  timeline.forEach(event => {
+    if (event.time > time) return;
+    if (event.type === "speedLimit") {
+      effective = { ...effective, speedLimit: event.speedLimit };
+    } else if (event.type === "demand") {
+      effective = { ...effective, inflowRate: event.inflowRate };
+    } else if (event.type === "closeLane" && isActive(event, time)) {
+      closures.push({ id: event.id, lane: event.lane, start: event.start, end: event.end });
+    }
+  });
+
+  if (closures.length > 0) {
+    effective = { ...effective, laneClosures: [...(params.laneClosures ?? []), ...closures] };
+  }
+  return effective;
+}
+
+// One-line description of an event for lists and chart markers
+export function describeScenarioEvent(event: ScenarioEvent): string {
+  switch (event.type) {
+    case "brake":
+      return `Car ${event.carId + 1} brakes to ${Math.round(event.speed)} km/h${Number.isFinite(event.duration) ? ` for ${event.duration}s` : ""}`;
+    case "stall":
+      return `Car ${event.carId + 1} stalls${event.duration !== undefined ? ` for ${event.duration}s` : ""}`;
+    case "closeLane":
+      return `Lane ${event.lane + 1} closed${event.duration !== undefined ? ` for ${event.duration}s` : ""}`;
+    case "speedLimit":
+      return `Speed limit ${Math.round(event.speedLimit)} km/h`;
+    case "demand":
+      return `Demand ${Math.round(event.inflowRate)} veh/h/lane`;
+  }
+}
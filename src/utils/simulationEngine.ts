@@ -0,0 +1,506 @@
+// Framework-free simulation engine: owns the car state, the clock, the random
+// stream and the metric histories, and can run in the browser or in Node.
+import {
+  initializeSimulation,
+  updateSimulation,
+  type Car,
+  type SimulationEvent,
+  type SimulationParams,
+} from "./trafficSimulation";
+import { RandomStream, type RandomState } from "./random";
+import {
+  createTrafficSources,
+  getTrafficSourcesState,
+  restoreTrafficSources,
+  type TrafficSourcesState,
+} from "./inflow";
+import { LaneIndex } from "./laneIndex";
+import { PerceptionMemory, type PerceptionState } from "./perception";
+import { MetricsRecorder, type MetricsRecorderState, type SimulationHistories } from "./simulationMetrics";
+import { applyDemandProfile, demandAt, demandPhase } from "./demandProfile";
+import { updateCellularAutomaton } from "./cellularAutomaton";
+import {
+  TrajectoryRecorder,
+  type TrajectoryChunk,
+  type TrajectoryRecording,
+  type TrajectorySummary,
+} from "./trajectoryRecorder";
+import {
+  SafetyMonitor,
+  defaultSafetyThresholds,
+  type SafetyConflict,
+  type SafetyMonitorState,
+  type SafetySummary,
+} from "./safetyMetrics";
+import {
+  DEFAULT_BRAKE_DECELERATION,
+  applyScenario,
+  getScenarioTimeline,
+  type ScenarioEvent,
+} from "./scenarioEvents";
+
+export type TrafficRule = "american" | "european";
+
+export interface SimulationEngineOptions {
+  trafficRule?: TrafficRule;
+  simulationSpeed?: number;
+}
+
+/**
+ * Snapshot of the engine returned by getState()
+ */
+export interface SimulationEngineState {
+  params: SimulationParams;
+  trafficRule: TrafficRule;
+  cars: Car[];
+  laneLength: number;
+  elapsedTime: number;
+  laneChanges: number;
+  rejectedLaneChanges: number; // lane changes called off by the safety criterion, once per attempt
+  randomSlowdowns: number; // times a driver started dawdling
+  stoppedCars: Set<number>;
+  histories: SimulationHistories;
+  safety: SafetySummary;
+  randomState: RandomState;
+}
+
+// Layout version of SimulationEngineSnapshot; bump it whenever the layout changes
+export const SIMULATION_SNAPSHOT_VERSION = 1;
+
+/**
+ * Complete engine state returned by saveSnapshot(). It holds only plain
+ * data and typed arrays, so it survives IndexedDB and postMessage, and
+ * restoring it continues the run exactly as if it had never stopped.
+ */
+export interface SimulationEngineSnapshot {
+  version: number;
+  params: SimulationParams;
+  trafficRule: TrafficRule;
+  cars: Car[];
+  laneLength: number;
+  stepCount: number;
+  elapsedTime: number;
+  laneChanges: number;
+  rejectedLaneChanges: number;
+  randomSlowdowns: number;
+  stoppedCars: number[];
+  stalledUntil: [number, number][]; // car id, time a scripted stall ends
+  nextScenarioEvent: number;
+  randomState: RandomState;
+  sources: TrafficSourcesState;
+  perception: PerceptionState;
+  metrics: MetricsRecorderState;
+  safety: SafetyMonitorState;
+}
+
+// Tolerance when comparing scenario event times with the step clock (s)
+const SCENARIO_TIME_EPSILON = 1e-9;
+
+// Longest wall-clock gap advance() will integrate, so a backgrounded tab does
+// not trigger thousands of catch-up steps when it becomes visible again
+const MAX_FRAME_SECONDS = 0.25;
+
+/**
+ * Interpolate car positions between two consecutive steps for rendering.
+ * Cars that entered, exited or changed lanes in between are drawn at their current state.
+ */
+export function interpolateCars(
+  previousCars: Car[],
+  currentCars: Car[],
+  alpha: number,
+  laneLength: number
+): Car[] {
+  if (previousCars.length === 0) return currentCars;
+  const previousById = new Map(previousCars.map(car => [car.id, car]));
+
+  return currentCars.map(car => {
+    const previous = previousById.get(car.id);
+    if (!previous || previous.lane !== car.lane) return car;
+
+    let delta = car.position - previous.position;
+    if (delta < 0) delta += laneLength; // wrapped around the loop
+    if (delta > laneLength / 2) return car; // not a plausible single-step move
+
+    return {
+      ...car,
+      position: (previous.position + delta * alpha) % laneLength,
+      speed: previous.speed + (car.speed - previous.speed) * alpha,
+    };
+  });
+}
+
+export interface SimulationEngineListener {
+  onStep?: (state: SimulationEngineState) => void;
+  onEvents?: (events: SimulationEvent[], time: number) => void;
+  onMetrics?: (histories: SimulationHistories, time: number) => void;
+  onScenarioEvents?: (events: ScenarioEvent[], time: number) => void;
+  onConflicts?: (conflicts: SafetyConflict[], time: number) => void;
+}
+
+export class SimulationEngine {
+  private params: SimulationParams;
+  private trafficRule: TrafficRule;
+  private simulationSpeed: number;
+  private cars: Car[] = [];
+  private laneLength = 0;
+  private stepCount = 0;
+  private elapsedTime = 0;
+  private accumulator = 0;
+  private previousCars: Car[] = [];
+  private laneChanges = 0;
+  private rejectedLaneChanges = 0;
+  private randomSlowdowns = 0;
+  private stoppedCars = new Set<number>();
+  private rng: RandomStream;
+  private sources = createTrafficSources();
+  private laneIndex = new LaneIndex<Car>();
+  private perception = new PerceptionMemory();
+  private metrics = new MetricsRecorder();
+  private safety = new SafetyMonitor();
+  private trajectory = new TrajectoryRecorder();
+  private timeline: ScenarioEvent[] = [];
+  private nextScenarioEvent = 0; // index of the first timeline event not fired yet
+  private stalledUntil = new Map<number, number>(); // car id -> time a scripted stall ends
+  private listeners = new Set<SimulationEngineListener>();
+
+  constructor(params: SimulationParams, options: SimulationEngineOptions = {}) {
+    this.params = params;
+    this.trafficRule = options.trafficRule ?? "american";
+    this.simulationSpeed = options.simulationSpeed ?? 1;
+    this.init();
+  }
+
+  /**
+   * (Re)initialize the road, cars, clock and histories.
+   * @param params New parameters; the current ones are reused when omitted
+   */
+  init(params: SimulationParams = this.params): void {
+    this.params = params;
+    const { cars, laneLength, rng } = initializeSimulation(applyDemandProfile(params, 0));
+    this.cars = cars;
+    this.laneLength = laneLength;
+    this.rng = rng;
+    this.previousCars = [];
+    this.stepCount = 0;
+    this.elapsedTime = 0;
+    this.accumulator = 0;
+    this.laneChanges = 0;
+    this.rejectedLaneChanges = 0;
+    this.randomSlowdowns = 0;
+    this.stoppedCars = new Set();
+    this.sources = createTrafficSources();
+    this.laneIndex = new LaneIndex(cars);
+    this.perception.clear();
+    this.metrics.reset();
+    this.safety.reset({ ...defaultSafetyThresholds, ...params.safetyThresholds });
+    this.timeline = getScenarioTimeline(params);
+    this.nextScenarioEvent = 0;
+    this.stalledUntil = new Map();
+    this.trajectory.reset(params.trajectoryInterval ?? 0, laneLength, params.numLanes || 1);
+    this.trajectory.record(cars, 0);
+  }
+
+  /**
+   * Fire the timeline events that are due by the current time and release
+   * scripted stalls that have run their course. Speed limit, demand and lane
+   * closure events need no action here: applyScenario reads them every step.
+   */
+  private runScenario(): void {
+    const fired: ScenarioEvent[] = [];
+    while (
+      this.nextScenarioEvent < this.timeline.length &&
+      this.timeline[this.nextScenarioEvent].time <= this.elapsedTime + SCENARIO_TIME_EPSILON
+    ) {
+      const event = this.timeline[this.nextScenarioEvent++];
+      fired.push(event);
+
+      if (event.type === "brake") {
+        const car = this.cars.find(c => c.id === event.carId);
+        if (car) {
+          car.scriptedBrake = {
+            speed: event.speed,
+            deceleration: event.deceleration ?? DEFAULT_BRAKE_DECELERATION,
+            until: event.time + event.duration,
+          };
+        }
+      } else if (event.type === "stall") {
+        this.stoppedCars.add(event.carId);
+        this.stalledUntil.set(event.carId, event.time + (event.duration ?? Infinity));
+      }
+    }
+
+    this.stalledUntil.forEach((until, carId) => {
+      if (until <= this.elapsedTime + SCENARIO_TIME_EPSILON) {
+        this.stoppedCars.delete(carId);
+        this.stalledUntil.delete(carId);
+      }
+    });
+
+    if (fired.length > 0) {
+      this.listeners.forEach(listener => listener.onScenarioEvents?.(fired, this.elapsedTime));
+    }
+  }
+
+  /**
+   * Advance the simulation by `count` time steps of exactly params.dt seconds
+   * @returns Events emitted during these steps
+   */
+  step(count: number = 1): SimulationEvent[] {
+    const allEvents: SimulationEvent[] = [];
+
+    for (let i = 0; i < count; i++) {
+      // Snapshot positions so renderers can interpolate across this step
+      this.previousCars = this.cars.map(car => ({ ...car }));
+      this.stepCount++;
+      this.elapsedTime = this.stepCount * this.params.dt;
+      this.runScenario();
+
+      // Demand events on the timeline override the demand profile
+      const params = applyScenario(applyDemandProfile(this.params, this.elapsedTime), this.timeline, this.elapsedTime);
+      const { cars, events, rejectedLaneChanges } =
+        params.engine === "cellular"
+          ? updateCellularAutomaton(
+              this.cars,
+              this.laneLength,
+              params,
+              this.elapsedTime,
+              this.stoppedCars,
+              this.rng,
+              this.sources,
+              this.laneIndex
+            )
+          : updateSimulation(
+              this.cars,
+              this.laneLength,
+              params,
+              this.elapsedTime,
+              this.trafficRule,
+              this.stoppedCars,
+              this.rng,
+              this.sources,
+              this.laneIndex,
+              this.perception
+            );
+      this.cars = cars;
+      this.laneChanges += events.filter(event => event.type === "laneChange").length;
+      this.rejectedLaneChanges += rejectedLaneChanges;
+      this.randomSlowdowns += events.filter(event => event.type === "slowdown").length;
+
+      if (events.length > 0) {
+        allEvents.push(...events);
+        this.listeners.forEach(listener => listener.onEvents?.(events, this.elapsedTime));
+      }
+
+      const conflicts = this.safety.record(
+        this.laneIndex,
+        this.laneLength,
+        this.params.roadTopology ?? "ring",
+        this.elapsedTime,
+        this.params.dt
+      );
+      if (conflicts.length > 0) {
+        this.listeners.forEach(listener => listener.onConflicts?.(conflicts, this.elapsedTime));
+      }
+
+      const profile = this.params.demandProfile;
+      const recorded = this.metrics.record(
+        this.cars,
+        this.elapsedTime,
+        this.laneLength,
+        this.params.numLanes || 1,
+        profile?.length
+          ? { demand: demandAt(profile, this.elapsedTime), phase: demandPhase(profile, this.elapsedTime) }
+          : undefined
+      );
+      if (recorded) {
+        const histories = this.metrics.getHistories();
+        this.listeners.forEach(listener => listener.onMetrics?.(histories, this.elapsedTime));
+      }
+
+      this.trajectory.record(this.cars, this.elapsedTime);
+    }
+
+    if (this.listeners.size > 0) {
+      const state = this.getState();
+      this.listeners.forEach(listener => listener.onStep?.(state));
+    }
+
+    return allEvents;
+  }
+
+  /**
+   * Advance by wall-clock time. The simulation speed scales how much simulated
+   * time accumulates; the accumulated time is then consumed in whole params.dt
+   * steps, so trajectories are identical at every speed and frame rate.
+   * @param realSeconds Wall-clock time since the previous call
+   * @returns Events emitted during the steps that ran
+   */
+  advance(realSeconds: number): SimulationEvent[] {
+    const frameSeconds = Math.min(Math.max(realSeconds, 0), MAX_FRAME_SECONDS);
+    this.accumulator += frameSeconds * this.simulationSpeed;
+
+    const substeps = Math.floor(this.accumulator / this.params.dt);
+    if (substeps === 0) return [];
+    this.accumulator -= substeps * this.params.dt;
+
+    const allEvents: SimulationEvent[] = [];
+    for (let i = 0; i < substeps && !this.isFinished(); i++) {
+      allEvents.push(...this.step());
+    }
+    return allEvents;
+  }
+
+  // Fraction of a step accumulated but not yet simulated (0 to 1)
+  getInterpolationAlpha(): number {
+    return Math.min(1, this.accumulator / this.params.dt);
+  }
+
+  // Cars positioned between the last two steps according to the accumulator
+  getRenderCars(): Car[] {
+    return interpolateCars(this.previousCars, this.cars, this.getInterpolationAlpha(), this.laneLength);
+  }
+
+  /**
+   * Step until the clock reaches `time` seconds (or the configured duration ends)
+   * @returns Events emitted during the run
+   */
+  runUntil(time: number): SimulationEvent[] {
+    const allEvents: SimulationEvent[] = [];
+    while (this.elapsedTime < time && !this.isFinished()) {
+      allEvents.push(...this.step());
+    }
+    return allEvents;
+  }
+
+  // Whether the configured simulation duration has been reached
+  isFinished(): boolean {
+    const duration = this.params.simulationDuration ?? 0;
+    return duration > 0 && this.elapsedTime >= duration;
+  }
+
+  getState(): SimulationEngineState {
+    return {
+      params: this.params,
+      trafficRule: this.trafficRule,
+      cars: this.cars,
+      laneLength: this.laneLength,
+      elapsedTime: this.elapsedTime,
+      laneChanges: this.laneChanges,
+      rejectedLaneChanges: this.rejectedLaneChanges,
+      randomSlowdowns: this.randomSlowdowns,
+      stoppedCars: new Set(this.stoppedCars),
+      histories: this.metrics.getHistories(),
+      safety: this.safety.getSummary(),
+      randomState: this.rng.getState(),
+    };
+  }
+
+  // Everything needed to continue the run later, detached from the engine
+  saveSnapshot(): SimulationEngineSnapshot {
+    return structuredClone({
+      version: SIMULATION_SNAPSHOT_VERSION,
+      params: this.params,
+      trafficRule: this.trafficRule,
+      cars: this.cars,
+      laneLength: this.laneLength,
+      stepCount: this.stepCount,
+      elapsedTime: this.elapsedTime,
+      laneChanges: this.laneChanges,
+      rejectedLaneChanges: this.rejectedLaneChanges,
+      randomSlowdowns: this.randomSlowdowns,
+      stoppedCars: [...this.stoppedCars],
+      stalledUntil: [...this.stalledUntil],
+      nextScenarioEvent: this.nextScenarioEvent,
+      randomState: this.rng.getState(),
+      sources: getTrafficSourcesState(this.sources),
+      perception: this.perception.getState(),
+      metrics: this.metrics.getState(),
+      safety: this.safety.getState(),
+    });
+  }
+
+  // Frames recorded so far; empty unless params.trajectoryInterval is set
+  getTrajectory(): TrajectoryRecording {
+    return this.trajectory.getRecording();
+  }
+
+  getTrajectorySummary(): TrajectorySummary {
+    return this.trajectory.getSummary();
+  }
+
+  /**
+   * One chunk of the recording, cut off after its first `frameCount` frames
+   * @returns undefined when those frames are gone because the run restarted
+   */
+  getTrajectoryChunk(index: number, frameCount?: number): TrajectoryChunk | undefined {
+    return this.trajectory.getChunk(index, frameCount);
+  }
+
+  /**
+   * Continue from a snapshot taken by saveSnapshot(), replacing the current run.
+   * Snapshots hold no trajectory, so recording starts over at the restored time.
+   * @throws Error when the snapshot was written in another layout version
+   */
+  restoreSnapshot(snapshot: SimulationEngineSnapshot): void {
+    if (snapshot.version !== SIMULATION_SNAPSHOT_VERSION) {
+      throw new Error(
+        `Cannot restore a version ${snapshot.version} snapshot; this simulator reads version ${SIMULATION_SNAPSHOT_VERSION}`
+      );
+    }
+    const state = structuredClone(snapshot);
+    this.params = state.params;
+    this.trafficRule = state.trafficRule;
+    this.cars = state.cars;
+    this.laneLength = state.laneLength;
+    this.previousCars = [];
+    this.stepCount = state.stepCount;
+    this.elapsedTime = state.elapsedTime;
+    this.accumulator = 0;
+    this.laneChanges = state.laneChanges;
+    this.rejectedLaneChanges = state.rejectedLaneChanges;
+    this.randomSlowdowns = state.randomSlowdowns;
+    this.stoppedCars = new Set(state.stoppedCars);
+    this.rng = RandomStream.fromState(state.randomState);
+    this.sources = restoreTrafficSources(state.sources);
+    this.laneIndex = new LaneIndex(this.cars);
+    this.perception.setState(state.perception);
+    this.metrics.setState(state.metrics);
+    this.safety.setState(state.safety);
+    this.timeline = getScenarioTimeline(this.params);
+    this.nextScenarioEvent = state.nextScenarioEvent;
+    this.stalledUntil = new Map(state.stalledUntil);
+    this.trajectory.reset(this.params.trajectoryInterval ?? 0, this.laneLength, this.params.numLanes || 1, this.elapsedTime);
+    this.trajectory.record(this.cars, this.elapsedTime);
+  }
+
+  /**
+   * Register a listener for steps, events and metric samples
+   * @returns A function that removes the listener
+   */
+  subscribe(listener: SimulationEngineListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  setTrafficRule(trafficRule: TrafficRule): void {
+    this.trafficRule = trafficRule;
+  }
+
+  // Only changes how many steps advance() runs per frame, never the step size
+  setSimulationSpeed(simulationSpeed: number): void {
+    this.simulationSpeed = simulationSpeed;
+  }
+
+  // Stopping or resuming a car by hand overrides a scripted stall
+  stopCar(carId: number): void {
+    this.stoppedCars.add(carId);
+    this.stalledUntil.delete(carId);
+  }
+
+  resumeCar(carId: number): void {
+    this.stoppedCars.delete(carId);
+    this.stalledUntil.delete(carId);
+  }
+}
@@ -0,0 +1,270 @@
+// Time-series metrics recorded while the simulation runs
+import type { Car } from "./trafficSimulation";
+import {
+  identifyPacks,
+  calculateAveragePackLength,
+  calculatePackDensityMetrics,
+  type PackHistoryItem,
+  type PackLengthHistoryItem,
+  type PackDensityItem,
+} from "./packMetrics";
+import type { DemandPhase } from "./demandProfile";
+
+export interface DensityThroughputDataPoint {
+  density: number;
+  throughput: number;
+  time: number;
+}
+
+export interface SpeedDensityDataPoint {
+  density: number;
+  speed: number;
+  time: number;
+}
+
+export interface PackFormationDataPoint {
+  density: number;
+  speedStdDev: number;
+  packCount: number;
+  time: number;
+}
+
+export interface LaneUtilizationDataPoint {
+  time: number;
+  [key: string]: number; // Dynamic lane keys like "lane0", "lane1", etc.
+}
+
+export interface DensityOfCarPacksDataPoint {
+  time: number;
+  overallDensity: number;
+  averagePackSize: number;
+  [key: string]: number;
+}
+
+export interface PercentageOfCarsByLaneDataPoint {
+  time: number;
+  [key: string]: number;
+}
+
+// Flow and density under a demand profile, kept for the whole peak period
+// so the loading and recovery branches of the fundamental diagram can be compared
+export interface DemandDataPoint {
+  time: number;
+  demand: number; // profile demand: veh/h/lane on an open road, veh/km on a ring
+  phase: DemandPhase;
+  density: number; // veh/km across all lanes
+  flow: number; // veh/h across all lanes
+  speed: number; // km/h
+}
+
+/**
+ * All chart histories produced by a run
+ */
+export interface SimulationHistories {
+  packHistory: PackHistoryItem[];
+  packLengthHistory: PackLengthHistoryItem[];
+  packDensityData: PackDensityItem[];
+  densityThroughputHistory: DensityThroughputDataPoint[];
+  speedDensityHistory: SpeedDensityDataPoint[];
+  packFormationHistory: PackFormationDataPoint[];
+  densityOfCarPacksHistory: DensityOfCarPacksDataPoint[];
+  percentageByLaneHistory: PercentageOfCarsByLaneDataPoint[];
+  laneUtilizationHistory: LaneUtilizationDataPoint[];
+  demandHistory: DemandDataPoint[]; // empty without a demand profile
+}
+
+export const createEmptyHistories = (): SimulationHistories => ({
+  packHistory: [],
+  packLengthHistory: [],
+  packDensityData: [],
+  densityThroughputHistory: [],
+  speedDensityHistory: [],
+  packFormationHistory: [],
+  densityOfCarPacksHistory: [],
+  percentageByLaneHistory: [],
+  laneUtilizationHistory: [],
+  demandHistory: [],
+});
+
+// Append to a history, keeping only the most recent `limit` entries
+const appendCapped = <T>(history: T[], item: T, limit: number): T[] => {
+  const newHistory = [...history, item];
+  if (newHistory.length > limit) {
+    return newHistory.slice(-limit);
+  }
+  return newHistory;
+};
+
+const SAMPLE_INTERVAL = 0.5; // seconds between chart samples
+const PACK_DENSITY_INTERVAL = 2; // seconds between pack density updates
+const DEMAND_SAMPLE_INTERVAL = 5; // seconds between demand samples
+const DEMAND_HISTORY_LIMIT = 1440; // two hours of demand samples
+
+// Serializable state of a metrics recorder, for engine snapshots
+export interface MetricsRecorderState {
+  histories: SimulationHistories;
+  lastPackRecordTime: number;
+  lastDensityUpdateTime: number;
+  lastDemandRecordTime: number;
+}
+
+/**
+ * Samples the car state into the chart histories at a fixed simulated-time interval.
+ * Every append creates a new array so UI code can rely on reference changes.
+ */
+export class MetricsRecorder {
+  private histories: SimulationHistories = createEmptyHistories();
+  private lastPackRecordTime = 0;
+  private lastDensityUpdateTime = 0;
+  private lastDemandRecordTime = -Infinity;
+
+  reset(): void {
+    this.histories = createEmptyHistories();
+    this.lastPackRecordTime = 0;
+    this.lastDensityUpdateTime = 0;
+    this.lastDemandRecordTime = -Infinity;
+  }
+
+  getHistories(): SimulationHistories {
+    return this.histories;
+  }
+
+  // Histories are never mutated in place, so sharing their arrays is safe
+  getState(): MetricsRecorderState {
+    return {
+      histories: { ...this.histories },
+      lastPackRecordTime: this.lastPackRecordTime,
+      lastDensityUpdateTime: this.lastDensityUpdateTime,
+      lastDemandRecordTime: this.lastDemandRecordTime,
+    };
+  }
+
+  setState(state: MetricsRecorderState): void {
+    this.histories = { ...createEmptyHistories(), ...state.histories };
+    this.lastPackRecordTime = state.lastPackRecordTime;
+    this.lastDensityUpdateTime = state.lastDensityUpdateTime;
+    this.lastDemandRecordTime = state.lastDemandRecordTime;
+  }
+
+  /**
+   * Record a sample if enough simulated time has passed.
+   * @param demand Demand profile value and phase at `time`, when a profile is set
+   * @returns true when a new chart sample was recorded
+   */
+  record(
+    allCars: Car[],
+    time: number,
+    laneLength: number,
+    numLanes: number,
+    demand?: { demand: number; phase: DemandPhase }
+  ): boolean {
+    let recorded = false;
+    // Mainline only: cars still on a ramp's acceleration lane are not counted
+    const cars = allCars.filter(car => car.lane >= 0 && car.lane < numLanes);
+    const h = this.histories;
+
+    if (time - this.lastPackRecordTime >= SAMPLE_INTERVAL) {
+      const packCount = identifyPacks(cars, laneLength);
+      const averagePackLength = calculateAveragePackLength(cars, laneLength);
+      const sampleTime = parseFloat(time.toFixed(1));
+
+      h.packHistory = appendCapped(h.packHistory, { time: sampleTime, packCount }, 50);
+      h.packLengthHistory = appendCapped(h.packLengthHistory, { time: sampleTime, averageLength: averagePackLength }, 50);
+
+      if (cars.length > 0) {
+        const avgSpeed = cars.reduce((sum, car) => sum + car.speed, 0) / cars.length;
+        // Overall density (cars per km)
+        const density = cars.length / laneLength;
+        // Throughput = average speed * density (cars per hour across all lanes,
+        // since the density already counts every lane)
+        const throughput = avgSpeed * density;
+
+        h.densityThroughputHistory = appendCapped(h.densityThroughputHistory, {
+          density: parseFloat(density.toFixed(2)),
+          throughput: Math.round(throughput),
+          time: sampleTime,
+        }, 100);
+
+        h.speedDensityHistory = appendCapped(h.speedDensityHistory, {
+          density: parseFloat(density.toFixed(3)),
+          speed: parseFloat(avgSpeed.toFixed(1)),
+          time: sampleTime,
+        }, 100);
+
+        const speedVariance = cars.reduce((sum, car) => sum + Math.pow(car.speed - avgSpeed, 2), 0) / cars.length;
+        h.packFormationHistory = appendCapped(h.packFormationHistory, {
+          density: parseFloat(density.toFixed(2)),
+          speedStdDev: parseFloat(Math.sqrt(speedVariance).toFixed(2)),
+          packCount,
+          time: sampleTime,
+        }, 100);
+
+        const densityPacksPoint: DensityOfCarPacksDataPoint = {
+          time: sampleTime,
+          overallDensity: parseFloat(density.toFixed(2)),
+          averagePackSize: packCount > 0 ? parseFloat((cars.length / packCount).toFixed(1)) : 0,
+        };
+        // Per-lane densities for visualization
+        for (let i = 0; i < numLanes; i++) {
+          const laneDensity = cars.filter(car => car.lane === i).length / laneLength;
+          densityPacksPoint[`lane${i}Density`] = parseFloat(laneDensity.toFixed(2));
+        }
+        h.densityOfCarPacksHistory = appendCapped(h.densityOfCarPacksHistory, densityPacksPoint, 50);
+
+        const percentagePoint: PercentageOfCarsByLaneDataPoint = { time: sampleTime };
+        for (let i = 0; i < numLanes; i++) {
+          const carsInLane = cars.filter(car => car.lane === i).length;
+          percentagePoint[`lane${i}`] = parseFloat(((carsInLane / cars.length) * 100).toFixed(1));
+        }
+        h.percentageByLaneHistory = appendCapped(h.percentageByLaneHistory, percentagePoint, 50);
+      }
+
+      // Lane utilization as percentages
+      const laneDistribution: { [key: string]: number } = {};
+      for (let i = 0; i < numLanes; i++) {
+        laneDistribution[`lane${i}`] = 0;
+      }
+      cars.forEach(car => {
+        const laneKey = `lane${car.lane}`;
+        laneDistribution[laneKey] = (laneDistribution[laneKey] || 0) + 1;
+      });
+      for (let i = 0; i < numLanes; i++) {
+        const laneKey = `lane${i}`;
+        laneDistribution[laneKey] = cars.length > 0
+          ? parseFloat(((laneDistribution[laneKey] / cars.length) * 100).toFixed(1))
+          : 0;
+      }
+      h.laneUtilizationHistory = appendCapped(h.laneUtilizationHistory, {
+        time: sampleTime,
+        ...laneDistribution,
+      }, 50);
+
+      this.lastPackRecordTime = time;
+      recorded = true;
+    }
+
+    if (demand && time - this.lastDemandRecordTime >= DEMAND_SAMPLE_INTERVAL) {
+      const speed = cars.length > 0 ? cars.reduce((sum, car) => sum + car.speed, 0) / cars.length : 0;
+      const density = cars.length / laneLength;
+      h.demandHistory = appendCapped(h.demandHistory, {
+        time: parseFloat(time.toFixed(1)),
+        demand: parseFloat(demand.demand.toFixed(1)),
+        phase: demand.phase,
+        density: parseFloat(density.toFixed(2)),
+        flow: Math.round(density * speed),
+        speed: parseFloat(speed.toFixed(1)),
+      }, DEMAND_HISTORY_LIMIT);
+      this.lastDemandRecordTime = time;
+      recorded = true;
+    }
+
+    // Update pack density data less frequently
+    if (time - this.lastDensityUpdateTime >= PACK_DENSITY_INTERVAL) {
+      h.packDensityData = calculatePackDensityMetrics(cars, laneLength);
+      this.lastDensityUpdateTime = time;
+      recorded = true;
+    }
+
+    return recorded;
+  }
+}
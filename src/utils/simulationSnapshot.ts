@@ -0,0 +1,150 @@
+// Compact car snapshots for posting the simulation state from a worker to the
+// page. Per-step state travels in typed arrays whose buffers are transferred
+// rather than copied; attributes fixed when a car enters are sent only once.
+import type { Car } from "./trafficSimulation";
+
+// Attributes that stay the same for the whole life of a car
+export type CarDetails = Pick<
+  Car,
+  | "id"
+  | "name"
+  | "vehicleType"
+  | "length"
+  | "desiredSpeed"
+  | "virtualLength"
+  | "driverType"
+  | "laneChangeProbability"
+  | "laneStickiness"
+  | "politeness"
+  | "timeHeadway"
+  | "reactionTime"
+  | "occupancy"
+  | "keepsRight"
+>;
+
+export interface CarSnapshot {
+  id: Int32Array;
+  position: Float64Array; // km
+  speed: Float32Array; // km/h
+  lane: Int8Array; // ramp lanes are -1 and numLanes
+  distanceTraveled: Float32Array; // km
+  distTripPlanned: Float32Array; // km
+  color: Uint8Array; // index into colors
+  platoon: Int32Array; // id of the platoon's lead vehicle, -1 outside a platoon
+  colors: string[]; // distinct car colors in this snapshot
+  details: CarDetails[]; // cars the receiving side has not seen yet
+}
+
+/**
+ * Builds snapshots on the sending side and remembers which cars' details
+ * were already sent. Call reset() when the simulation is reinitialized,
+ * since car ids start over.
+ */
+export class SnapshotEncoder {
+  private sent = new Set<number>();
+
+  reset(): void {
+    this.sent = new Set();
+  }
+
+  encode(cars: Car[]): { snapshot: CarSnapshot; transfer: ArrayBuffer[] } {
+    const n = cars.length;
+    const snapshot: CarSnapshot = {
+      id: new Int32Array(n),
+      position: new Float64Array(n),
+      speed: new Float32Array(n),
+      lane: new Int8Array(n),
+      distanceTraveled: new Float32Array(n),
+      distTripPlanned: new Float32Array(n),
+      color: new Uint8Array(n),
+      platoon: new Int32Array(n),
+      colors: [],
+      details: [],
+    };
+    const colorCodes = new Map<string, number>();
+    const present = new Set<number>();
+
+    cars.forEach((car, i) => {
+      snapshot.id[i] = car.id;
+      snapshot.position[i] = car.position;
+      snapshot.speed[i] = car.speed;
+      snapshot.lane[i] = car.lane;
+      snapshot.distanceTraveled[i] = car.distanceTraveled;
+      snapshot.distTripPlanned[i] = car.distTripPlanned;
+      snapshot.platoon[i] = car.platoonId ?? -1;
+
+      let colorCode = colorCodes.get(car.color);
+      if (colorCode === undefined) {
+        colorCode = snapshot.colors.length;
+        colorCodes.set(car.color, colorCode);
+        snapshot.colors.push(car.color);
+      }
+      snapshot.color[i] = colorCode;
+
+      present.add(car.id);
+      if (!this.sent.has(car.id)) {
+        snapshot.details.push({
+          id: car.id,
+          name: car.name,
+          vehicleType: car.vehicleType,
+          length: car.length,
+          desiredSpeed: car.desiredSpeed,
+          virtualLength: car.virtualLength,
+          driverType: car.driverType,
+          laneChangeProbability: car.laneChangeProbability,
+          laneStickiness: car.laneStickiness,
+          politeness: car.politeness,
+          timeHeadway: car.timeHeadway,
+          reactionTime: car.reactionTime,
+          occupancy: car.occupancy,
+          keepsRight: car.keepsRight,
+        });
+      }
+    });
+    this.sent = present; // forget cars that left
+
+    const transfer = [
+      snapshot.id,
+      snapshot.position,
+      snapshot.speed,
+      snapshot.lane,
+      snapshot.distanceTraveled,
+      snapshot.distTripPlanned,
+      snapshot.color,
+      snapshot.platoon,
+    ].map(array => array.buffer as ArrayBuffer);
+    return { snapshot, transfer };
+  }
+}
+
+/**
+ * Turns snapshots back into Car objects on the receiving side, keeping the
+ * details of the cars currently on the road
+ */
+export class SnapshotDecoder {
+  private details = new Map<number, CarDetails>();
+
+  decode(snapshot: CarSnapshot): Car[] {
+    snapshot.details.forEach(details => this.details.set(details.id, details));
+
+    const cars: Car[] = [];
+    const present = new Map<number, CarDetails>();
+    for (let i = 0; i < snapshot.id.length; i++) {
+      const details = this.details.get(snapshot.id[i]);
+      if (!details) continue; // only if snapshots arrive out of order
+      present.set(details.id, details);
+      cars.push({
+        ...details,
+        position: snapshot.position[i],
+        speed: snapshot.speed[i],
+        lane: snapshot.lane[i],
+        distanceTraveled: snapshot.distanceTraveled[i],
+        distTripPlanned: snapshot.distTripPlanned[i],
+        color: snapshot.colors[snapshot.color[i]],
+        platoonId: snapshot.platoon[i] >= 0 ? snapshot.platoon[i] : undefined,
+      });
+    }
+    this.details = present;
+    return cars;
+  }
+}
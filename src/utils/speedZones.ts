@@ -0,0 +1,72 @@
+// Speed-limit zones: stretches of road with their own limit, optionally only
+// for some lanes or vehicle classes (e.g. trucks at 90 km/h)
+import { forwardDistance, type RoadTopology } from "./roadTopology";
+import type { Car } from "./trafficSimulation";
+
+export interface SpeedLimitZone {
+  id: string;
+  start: number; // km
+  end: number; // km
+  speedLimit: number; // km/h
+  lanes?: number[]; // lanes the limit applies to (all when omitted)
+  vehicleTypes?: Car["vehicleType"][]; // ids of the vehicle classes the limit applies to (all when omitted)
+}
+
+// Whether a zone's limit binds a vehicle of `vehicleType` in `lane`
+export function zoneApplies(zone: SpeedLimitZone, lane: number, vehicleType: Car["vehicleType"]): boolean {
+  return (
+    (!zone.lanes || zone.lanes.length === 0 || zone.lanes.includes(lane)) &&
+    (!zone.vehicleTypes || zone.vehicleTypes.length === 0 || zone.vehicleTypes.includes(vehicleType))
+  );
+}
+
+/**
+ * Limit in force at `position` (km/h): the global limit or the lowest zone
+ * limit covering the position for this lane and vehicle type
+ */
+export function getSpeedLimitAt(
+  zones: SpeedLimitZone[],
+  globalLimit: number,
+  position: number,
+  lane: number,
+  vehicleType: Car["vehicleType"]
+): number {
+  return zones.reduce(
+    (limit, zone) =>
+      position >= zone.start && position < zone.end && zoneApplies(zone, lane, vehicleType)
+        ? Math.min(limit, zone.speedLimit)
+        : limit,
+    globalLimit
+  );
+}
+
+/**
+ * Highest speed (km/h) from which a driver braking at `deceleration` still
+ * reaches every lower limit ahead by the start of its zone, capped by the
+ * limit in force at `position`. Following it gives a comfortable slowdown
+ * instead of clipping the speed at the zone boundary.
+ * @param deceleration Comfortable deceleration in m/s²
+ */
+export function getAnticipatedSpeedLimit(
+  zones: SpeedLimitZone[],
+  globalLimit: number,
+  position: number,
+  lane: number,
+  vehicleType: Car["vehicleType"],
+  deceleration: number,
+  laneLength: number,
+  topology: RoadTopology = "ring"
+): number {
+  let limit = getSpeedLimitAt(zones, globalLimit, position, lane, vehicleType);
+
+  zones.forEach(zone => {
+    if (zone.speedLimit >= limit || !zoneApplies(zone, lane, vehicleType)) return;
+    const distance = forwardDistance(position, zone.start, laneLength, topology); // km
+    if (distance <= 0) return;
+    const zoneSpeed = zone.speedLimit / 3.6; // km/h to m/s
+    const approachSpeed = Math.sqrt(zoneSpeed * zoneSpeed + 2 * deceleration * distance * 1000) * 3.6; // m/s to km/h
+    limit = Math.min(limit, approachSpeed);
+  });
+
+  return limit;
+}
@@ -1,3 +1,55 @@
+import { RandomStream } from "./random";
+import {
+  DEFAULT_CACC_TIME_GAP,
+  caccAcceleration,
+  defaultCarFollowingSettings,
+  getCarFollowingModel,
+  isWithinCaccRange,
+  type CarFollowingModelType,
+  type CarFollowingParams,
+  type CarFollowingSettings,
+} from "./carFollowing";
+import { advancePosition, forwardDistance, type RoadTopology } from "./roadTopology";
+import { InflowGenerator, type HeadwayDistribution, type TrafficSources } from "./inflow";
+import {
+  chooseExit,
+  getRampEdgeLane,
+  getRampLane,
+  isWithinRamp,
+  type Ramp,
+} from "./ramps";
+import {
+  distanceToBlockage,
+  findOpenLane,
+  getBlockedIntervals,
+  getOpenLanes,
+  isLaneBlockedAt,
+  type LaneClosure,
+  type RoadSegment,
+} from "./roadGeometry";
+import type { ScenarioEvent } from "./scenarioEvents";
+import type { DemandPoint } from "./demandProfile";
+import type { CaLaneChangeRule, SimulationEngineType } from "./cellularAutomaton";
+import type { SafetyThresholds } from "./safetyMetrics";
+import { getAnticipatedSpeedLimit, type SpeedLimitZone } from "./speedZones";
+import { LaneIndex } from "./laneIndex";
+import {
+  MAX_REACTION_TIME,
+  NO_LEADER_ID,
+  OBSTACLE_LEADER_ID,
+  PerceptionMemory,
+} from "./perception";
+import {
+  CAV_CLASS_ID,
+  defaultVehicleClasses,
+  getVehicleClass,
+  isLaneAllowed,
+  type VehicleClass,
+} from "./vehicleClasses";
+import { defaultDriverProfiles, type DriverProfile, type Distribution } from "./driverProfiles";
+import { assignPlatoons } from "./platoons";
+import { defaultOccupancyShares, hasOccupancyRules, mayUseLane, type LaneRule } from "./laneRules";
+
 // Constants and types for traffic simulation
 export interface Car {
   id: number;
@@ -10,11 +62,53 @@ export interface Car {
   distTripPlanned: number; // planned trip distance in meters
   distanceTraveled: number; // distance traveled so far in meters
   lane: number; // lane index (required)
-  driverType: "aggressive" | "normal" | "conservative"; // driver personality
+  driverType: string; // id of the driver profile
   laneChangeProbability: number; // probability of changing lanes (0-1)
   laneStickiness: number; // tendency to stay in current lane (0-1)
+  politeness?: number; // MOBIL politeness of this driver (params.politenessFactor when unset)
+  timeHeadway?: number; // desired time headway in seconds (params.tDist when unset)
+  reactionTime?: number; // seconds by which the driver's view of the car ahead lags (0 = instant)
+  occupancy?: number; // people on board, drawn only while some lane has an occupancy requirement
+  keepsRight?: boolean; // complies with keep-right-except-to-pass (unset while compliance is not modelled)
   lastLaneChange?: number; // timestamp of last lane change
-  vehicleType: "car" | "truck" | "motorcycle"; // vehicle type
+  laneChangeBlocked?: boolean; // a wanted lane change was called off as unsafe and is still wanted
+  vehicleType: string; // id of the vehicle class
+  length: number; // physical length in meters, from the vehicle class
+  acceleration?: number; // m/s² over the last step; connected vehicles broadcast it over V2V
+  platoonId?: number; // id of the lead vehicle of the CACC platoon the car drives in
+  onRampId?: string; // on-ramp whose acceleration lane the car is merging from
+  exitRampId?: string; // off-ramp the car plans to leave by
+  scriptedBrake?: ScriptedBrake; // braking imposed by a scenario event
+  randomSlowdown?: ScriptedBrake; // spontaneous dawdling (random braking noise)
+  cell?: number; // cellular automaton: cell under the front of the car it is heading for
+  cellSpeed?: number; // cellular automaton: speed in cells per update
+}
+
+// Braking imposed on a car by a scenario event, or by the driver dawdling
+export interface ScriptedBrake {
+  speed: number; // km/h the car slows down to
+  deceleration: number; // m/s²
+  until: number; // simulated time (s) at which the driver lets go
+}
+
+// What a car follows: the car ahead, or a closure or lane end (length 0)
+interface Obstacle {
+  id: number;
+  speed: number; // km/h
+  length: number; // meters
+  vehicleType?: string; // vehicles only
+  acceleration?: number; // m/s², vehicles only
+}
+
+// Event emitted by updateSimulation when a car enters, exits, changes lanes
+// or starts a random slowdown
+export interface SimulationEvent {
+  type: "exit" | "enter" | "laneChange" | "slowdown";
+  carId: number;
+  carName: string;
+  position: number;
+  speed: number;
+  lane?: number;
 }
 
 /**
@@ -25,11 +119,11 @@ export interface SimulationParams {
    * Overall traffic density in cars per kilometer (across all lanes)
    */
   trafficDensity: number; // cars per kilometer
-  vehicleTypeDensity: {
-    car: number; // percentage of cars (0-100)
-    truck: number; // percentage of trucks (0-100)
-    motorcycle: number; // percentage of motorcycles (0-100)
-  };
+  vehicleTypeDensity: Record<string, number>; // share of each vehicle class in percent, by class id
+  vehicleClasses?: VehicleClass[]; // registry of vehicle classes (the built-in ones when omitted)
+  cavPenetration?: number; // market penetration of connected automated vehicles in percent (0 = none)
+  caccTimeGap?: number; // time gap connected vehicles keep inside a platoon in seconds
+  driverProfiles?: DriverProfile[]; // driver population: shares and behaviour distributions
   dt: number; // time step in seconds
   aMax: number; // max deceleration (m/s²)
   k: number; // speed adjustment sensitivity
@@ -38,6 +132,8 @@ export interface SimulationParams {
   initialGap: number; // initial gap between cars in meters
   brakeTime: number; // time at which leader car starts braking
   brakeCarIndex: number; // index of the car to brake (default: 0 for first car)
+  brakeSpeed?: number; // km/h the braking car slows down to
+  brakeDuration?: number; // seconds the brake is held (0 = no brake, unset = for the rest of the run)
   minSpeed: number; // minimum speed in km/h
   maxSpeed: number; // maximum speed in km/h
   meanSpeed: number; // mean desired speed in km/h
@@ -45,13 +141,40 @@ export interface SimulationParams {
   meanDistTripPlanned: number; // mean planned trip distance in km
   sigmaDistTripPlanned: number; // standard deviation of planned trip distances in km
   speedLimit: number; // in km/h
+  speedLimitZones?: SpeedLimitZone[]; // stretches with their own limit, optionally per lane or vehicle type
   freewayLength?: number; // length of the freeway in km
   numLanes?: number; // number of lanes
   politenessFactor?: number; // MOBIL politeness factor
+  safeDeceleration?: number; // MOBIL b_safe: hardest braking a lane change may impose (m/s²)
+  reactionTime?: number; // mean driver reaction time in seconds (0 = instant reaction)
+  sdReactionTime?: number; // standard deviation of reaction times in seconds
   rightLaneBias?: number; // bias for right lane
+  laneRules?: LaneRule[]; // per-lane restrictions: allowed vehicle classes, HOV occupancy
+  occupancyShares?: number[]; // share (percent) of vehicles with 1, 2, 3, ... people on board; the last is "or more"
+  keepRightCompliance?: number; // share (0-1) of drivers who keep right except to pass (unset = not modelled)
   accelerationThreshold?: number; // threshold for lane change
+  randomSlowdownProbability?: number; // chance per second (0-1) that a driver starts dawdling; 0 = no noise
+  randomSlowdownAmount?: number; // km/h a dawdling driver sheds
+  randomSlowdownDuration?: number; // seconds a dawdling driver holds the lower speed
   laneChangeCooldown?: number; // min time between lane changes (seconds)
   simulationDuration?: number; // simulation duration in seconds (0 = unlimited)
+  seed?: number; // random seed; the same seed and params replay the same run
+  carFollowingModel?: CarFollowingModelType; // longitudinal model (default IDM)
+  carFollowingParams?: CarFollowingSettings; // model parameters (deceleration from aMax, headway from tDist)
+  engine?: SimulationEngineType; // continuous car-following (default) or Nagel-Schreckenberg cellular automaton
+  caCellSize?: number; // cellular automaton: cell length in meters
+  caLaneChangeRule?: CaLaneChangeRule; // cellular automaton: lane-change rule
+  caSlowdownProbability?: number; // cellular automaton: NaSch p, chance (0-1) per update that a moving vehicle drops a cell of speed
+  roadTopology?: RoadTopology; // closed ring (default) or open road with inflow and outflow
+  inflowRate?: number; // open road: upstream demand in vehicles per hour per lane
+  inflowDistribution?: HeadwayDistribution; // open road: Poisson or evenly spaced arrivals
+  demandProfile?: DemandPoint[]; // demand over time: open-road inflow (veh/h/lane) or ring density (veh/km); constant when empty
+  ramps?: Ramp[]; // on-ramps and off-ramps along the road
+  roadSegments?: RoadSegment[]; // stretches with fewer lanes (lane drops)
+  laneClosures?: LaneClosure[]; // lanes closed over a stretch (work zones)
+  scenarioEvents?: ScenarioEvent[]; // scripted timeline of brakes, stalls, closures and limit/demand changes
+  safetyThresholds?: SafetyThresholds; // TTC, PET and DRAC levels at which pairs are logged as conflicts
+  trajectoryInterval?: number; // seconds between recorded trajectory frames; 0 records nothing
 }
 
 // Default simulation parameters
@@ -62,6 +185,10 @@ export const defaultParams: SimulationParams = {
     truck: 0,    // No trucks by default
     motorcycle: 0, // No motorcycles by default
   },
+  vehicleClasses: defaultVehicleClasses,
+  cavPenetration: 0, // no connected automated vehicles by default
+  caccTimeGap: DEFAULT_CACC_TIME_GAP,
+  driverProfiles: defaultDriverProfiles,
   dt: 0.1, // 100ms time step
   aMax: 1.5, // m/s² (maximum comfortable deceleration, reduced from 3 to 1.5 for smoother braking)
   k: 0.3, // unitless
@@ -70,6 +197,8 @@ export const defaultParams: SimulationParams = {
   initialGap: 15, // meters (safe following distance at low speed)
   brakeTime: 5, // seconds
   brakeCarIndex: 0, // default to first car
+  brakeSpeed: 0, // km/h (brake to a standstill)
+  brakeDuration: 0, // seconds (no scripted brake by default)
   minSpeed: 20, // km/h (minimum realistic speed)
   maxSpeed: 130, // km/h (typical highway speed limit)
   meanSpeed: 90, // km/h (average desired speed)
@@ -77,24 +206,93 @@ export const defaultParams: SimulationParams = {
   meanDistTripPlanned: 15, // km (average trip length)
   sigmaDistTripPlanned: 0.5, // km (standard deviation of trip lengths, reduced from 1 to 0.5 for realistic values)
   speedLimit: 130, // km/h (standard highway speed limit)
+  speedLimitZones: [],
   freewayLength: 16, // km (about 10 miles)
   numLanes: 2, // default to 2 lanes
   politenessFactor: 0.3, // typical MOBIL value
+  safeDeceleration: 4, // m/s² (typical MOBIL value)
+  reactionTime: 0, // seconds (drivers react instantly by default)
+  sdReactionTime: 0.2, // seconds
   rightLaneBias: 0.1, // small bias for right lane
+  laneRules: [],
+  occupancyShares: defaultOccupancyShares,
   accelerationThreshold: 0.2, // threshold for lane change
+  randomSlowdownProbability: 0, // no random braking noise by default
+  randomSlowdownAmount: 10, // km/h
+  randomSlowdownDuration: 2, // seconds
   laneChangeCooldown: 2, // seconds
   simulationDuration: 600, // 10 minutes by default, 0 would be unlimited but we're setting a max
+  seed: 42, // fixed seed so runs are reproducible by default
+  carFollowingModel: "idm",
+  carFollowingParams: { ...defaultCarFollowingSettings },
+  engine: "continuous",
+  caCellSize: 7.5, // meters (one car plus its jam gap)
+  caLaneChangeRule: "symmetric",
+  caSlowdownProbability: 0, // deterministic NaSch by default
+  roadTopology: "ring",
+  inflowRate: 1200, // veh/h/lane
+  inflowDistribution: "poisson",
+  demandProfile: [],
+  ramps: [],
+  roadSegments: [],
+  laneClosures: [],
+  scenarioEvents: [],
+  trajectoryInterval: 0, // no trajectory recording by default
 };
 
+// Hardest braking any car can apply, whatever the car-following model asks for (m/s²)
+const MAX_DECELERATION = 9;
+
+// Fraction of its desired speed a vehicle has when it appears on an on-ramp
+const RAMP_ENTRY_SPEED_FACTOR = 0.6;
+
+// Hardest braking a merging driver will impose on the mainline car behind (m/s²)
+const MERGE_MAX_FOLLOWER_DECELERATION = 3;
+
+// Distance ahead of a lane drop or closure at which drivers start leaving the lane (km)
+const CLOSURE_WARNING_DISTANCE = 1;
+
+// Comfortable deceleration of a vehicle's class (m/s²), aMax unless the class sets its own
+function getComfortableDeceleration(car: Pick<Car, "vehicleType">, params: SimulationParams): number {
+  return getVehicleClass(car.vehicleType, params.vehicleClasses).comfortableDeceleration ?? params.aMax;
+}
+
+/**
+ * Speed a car may drive at (km/h): the limit in force at its position and,
+ * braking at its class's comfortable deceleration, the lower limits ahead
+ */
+export function getCarSpeedLimit(
+  car: Pick<Car, "position" | "lane" | "vehicleType">,
+  params: SimulationParams
+): number {
+  const zones = params.speedLimitZones ?? [];
+  if (zones.length === 0) return params.speedLimit;
+  return getAnticipatedSpeedLimit(
+    zones,
+    params.speedLimit,
+    car.position,
+    car.lane,
+    car.vehicleType,
+    getComfortableDeceleration(car, params),
+    params.freewayLength ?? 16,
+    params.roadTopology
+  );
+}
+
+// Blocked stretches of each lane from the road geometry in params
+const getParamsBlockedIntervals = (params: SimulationParams) =>
+  getBlockedIntervals(params.roadSegments ?? [], params.laneClosures ?? [], params.numLanes || 1);
+
 // Generate random number from normal distribution
 export function normalRandom(
   mean: number,
   std: number,
-  min?: number,
-  max?: number
+  min: number | undefined,
+  max: number | undefined,
+  rng: RandomStream
 ): number {
-  let u1 = Math.random();
-  let u2 = Math.random();
+  let u1 = 1 - rng.next(); // (0, 1] so the log stays finite
+  let u2 = rng.next();
   let z0 = Math.sqrt(-2.0 * Math.log(u1)) * Math.cos(2.0 * Math.PI * u2);
   let value = mean + z0 * std;
 
@@ -104,13 +302,17 @@ export function normalRandom(
 }
 
 // Generate random number from log-normal distribution (returns miles)
-export function logNormalRandom(mean: number, sigma: number): number {
+export function logNormalRandom(
+  mean: number,
+  sigma: number,
+  rng: RandomStream
+): number {
   // Convert mean and sigma to mu and sigma for log-normal distribution
   const mu = Math.log(mean) - 0.5 * Math.pow(sigma, 2);
 
   // Generate normal random variable
-  const u1 = Math.random();
-  const u2 = Math.random();
+  const u1 = 1 - rng.next();
+  const u2 = rng.next();
   const z0 = Math.sqrt(-2.0 * Math.log(u1)) * Math.cos(2.0 * Math.PI * u2);
 
   // Transform to log-normal
@@ -124,92 +326,248 @@ export function calculateSafeDistance(speed: number, tDist: number): number {
   return (tDist * speed * 1000) / 3600;
 }
 
-// Calculate virtual car length (physical length + safe distance) in miles
+// Calculate virtual car length (physical length + safe distance) in meters
 export function calculateVirtualLength(
   speed: number,
-  params: SimulationParams
+  params: SimulationParams,
+  length: number = params.lengthCar // physical length in meters
 ): number {
-  const lengthCarMiles = params.lengthCar;
   const safeDistance = calculateSafeDistance(speed, params.tDist);
-  return lengthCarMiles + safeDistance;
+  return length + safeDistance;
 }
 
-// Generate driver type and associated properties
-function generateDriverProperties(): {
-  driverType: "aggressive" | "normal" | "conservative";
-  laneChangeProbability: number;
-  laneStickiness: number;
+// Draw from a distribution of a driver profile
+const sample = ({ mean, sd, min, max }: Distribution, rng: RandomStream) => normalRandom(mean, sd, min, max, rng);
+
+/**
+ * Pick a driver profile by share and draw the driver's own parameters from
+ * it. Traits a profile leaves out draw nothing, so they fall back to the
+ * global parameters without disturbing the random sequence.
+ */
+function generateDriverProperties(
+  params: SimulationParams,
+  rng: RandomStream
+): Pick<Car, "driverType" | "laneChangeProbability" | "laneStickiness" | "politeness" | "timeHeadway" | "reactionTime"> & {
+  speedFactor: number; // desired-speed multiplier
 } {
-  const rand = Math.random();
-
-  if (rand < 0.2) {
-    // Aggressive driver
-    return {
-      driverType: "aggressive",
-      laneChangeProbability: normalRandom(0.8, 0.1, 0.6, 1.0),
-      laneStickiness: normalRandom(0.3, 0.1, 0.1, 0.5),
-    };
-  } else if (rand < 0.8) {
-    // Normal driver
-    return {
-      driverType: "normal",
-      laneChangeProbability: normalRandom(0.5, 0.15, 0.2, 0.8),
-      laneStickiness: normalRandom(0.6, 0.15, 0.3, 0.9),
-    };
-  } else {
-    // Conservative driver
-    return {
-      driverType: "conservative",
-      laneChangeProbability: normalRandom(0.2, 0.1, 0.05, 0.4),
-      laneStickiness: normalRandom(0.8, 0.1, 0.6, 1.0),
-    };
+  const profiles = params.driverProfiles?.length ? params.driverProfiles : defaultDriverProfiles;
+  const total = profiles.reduce((sum, profile) => sum + Math.max(profile.share, 0), 0);
+  const rand = rng.next();
+
+  let profile = profiles[profiles.length - 1];
+  let cumulative = 0;
+  for (const candidate of profiles) {
+    cumulative += Math.max(candidate.share, 0);
+    if (total > 0 && rand < cumulative / total) {
+      profile = candidate;
+      break;
+    }
   }
+
+  return {
+    driverType: profile.id,
+    laneChangeProbability: sample(profile.laneChangeProbability, rng),
+    laneStickiness: sample(profile.laneStickiness, rng),
+    politeness: profile.politeness ? sample(profile.politeness, rng) : undefined,
+    speedFactor: profile.speedFactor ? sample(profile.speedFactor, rng) : 1,
+    timeHeadway: profile.timeHeadway ? sample(profile.timeHeadway, rng) : undefined,
+    reactionTime: profile.reactionTime ? sample(profile.reactionTime, rng) : undefined,
+  };
 }
 
-// Generate vehicle type based on density parameters
-function generateVehicleType(params: SimulationParams): "car" | "truck" | "motorcycle" {
-  const rand = Math.random() * 100;
-  const { car, truck, motorcycle } = params.vehicleTypeDensity;
-  
-  if (rand < car) {
-    return "car";
-  } else if (rand < car + truck) {
-    return "truck";
-  } else {
-    return "motorcycle";
+// Desired speed scaled by a driver's speed multiplier, kept within the speed range
+function applySpeedFactor(desiredSpeed: number, speedFactor: number, params: SimulationParams): number {
+  if (speedFactor === 1) return desiredSpeed;
+  return Math.min(Math.max(desiredSpeed * speedFactor, params.minSpeed), params.maxSpeed);
+}
+
+// Sample a driver's reaction time (s). Nothing is drawn while the mean is 0,
+// so runs without reaction delay keep their random sequence.
+function generateReactionTime(params: SimulationParams, rng: RandomStream): number {
+  const mean = params.reactionTime ?? 0;
+  if (mean <= 0) return 0;
+  return normalRandom(mean, params.sdReactionTime ?? 0, 0, MAX_REACTION_TIME, rng);
+}
+
+// Draw the people on board from params.occupancyShares. Nothing is drawn
+// while no lane has an occupancy requirement.
+function generateOccupancy(params: SimulationParams, rng: RandomStream): number | undefined {
+  if (!hasOccupancyRules(params.laneRules)) return undefined;
+  const shares = params.occupancyShares?.length ? params.occupancyShares : defaultOccupancyShares;
+  const rand = rng.next() * shares.reduce((total, share) => total + Math.max(share, 0), 0);
+  let cumulative = 0;
+  for (let i = 0; i < shares.length; i++) {
+    cumulative += Math.max(shares[i], 0);
+    if (rand < cumulative) return i + 1;
   }
+  return 1;
 }
 
-// Get vehicle properties based on type
-function getVehicleProperties(vehicleType: "car" | "truck" | "motorcycle") {
-  switch (vehicleType) {
-    case "truck":
-      return {
-        lengthMeters: 7.5, // ~25ft in meters, rounded down
-        speedModifier: 0.9, // trucks are slightly slower
-        accelerationModifier: 0.8, // trucks accelerate slower
-      };
-    case "motorcycle":
-      return {
-        lengthMeters: 2.4, // ~8ft in meters, rounded down
-        speedModifier: 1.1, // motorcycles can go faster
-        accelerationModifier: 1.3, // motorcycles accelerate faster
-      };
-    case "car":
-    default:
-      return {
-        lengthMeters: 4.5, // ~15ft in meters, rounded down
-        speedModifier: 1.0, // normal speed
-        accelerationModifier: 1.0, // normal acceleration
-      };
+// Whether the driver keeps right except to pass. Nothing is drawn while
+// compliance is not modelled, or when everyone or no one complies.
+function generateKeepsRight(params: SimulationParams, rng: RandomStream): boolean | undefined {
+  const compliance = params.keepRightCompliance;
+  if (compliance === undefined) return undefined;
+  if (compliance <= 0 || compliance >= 1) return compliance >= 1;
+  return rng.next() < compliance;
+}
+
+/**
+ * Whether a moving, human-driven car starts dawdling this step. The chance
+ * per second is spread over the steps, so the noise does not depend on dt;
+ * nothing is drawn while random slowdowns are off.
+ */
+function startsRandomSlowdown(car: Car, params: SimulationParams, rng: RandomStream): boolean {
+  const probability = params.randomSlowdownProbability ?? 0;
+  if (probability <= 0 || car.speed <= 0 || isConnected(car, params)) return false;
+  const stepProbability = 1 - Math.pow(1 - Math.min(probability, 1), params.dt);
+  return rng.next() < stepProbability;
+}
+
+/**
+ * Draw a vehicle class. A share params.cavPenetration of vehicles are
+ * connected automated vehicles; the rest come from the mix in
+ * params.vehicleTypeDensity. Shares are relative, so they need not add up to
+ * 100. Classes that may not use `lane` are left out of the draw unless no class may.
+ */
+function generateVehicleClass(
+  params: SimulationParams,
+  lane: number,
+  rng: RandomStream
+): VehicleClass {
+  const numLanes = params.numLanes || 1;
+
+  // Nothing is drawn without connected vehicles, so such runs keep their random sequence
+  const penetration = params.cavPenetration ?? 0;
+  if (penetration > 0 && rng.next() * 100 < penetration) {
+    const cav = getVehicleClass(CAV_CLASS_ID, params.vehicleClasses);
+    if (isLaneAllowed(cav, lane, numLanes)) return cav;
   }
+
+  const mix = Object.entries(params.vehicleTypeDensity)
+    .filter(([, share]) => share > 0)
+    .map(([id, share]) => ({ vehicleClass: getVehicleClass(id, params.vehicleClasses), share }));
+  const allowed = mix.filter(({ vehicleClass }) => isLaneAllowed(vehicleClass, lane, numLanes));
+  const candidates = allowed.length > 0 ? allowed : mix;
+
+  const rand = rng.next() * candidates.reduce((total, { share }) => total + share, 0);
+  let cumulative = 0;
+  for (const { vehicleClass, share } of candidates) {
+    cumulative += share;
+    if (rand < cumulative) return vehicleClass;
+  }
+  return candidates[candidates.length - 1]?.vehicleClass ?? getVehicleClass("car", params.vehicleClasses);
 }
 
-// Initialize the simulation
-export function initializeSimulation(params: SimulationParams): {
+// Create a car with random vehicle type, desired speed, trip length and driver
+// properties, entering at `position` in `lane` at its desired speed
+export function createCar(
+  id: number,
+  position: number,
+  lane: number,
+  params: SimulationParams,
+  rng: RandomStream
+): Car {
+  // Generate vehicle class for new car
+  const vehicleClass = generateVehicleClass(params, lane, rng);
+  const vehicleType = vehicleClass.id;
+
+  const baseDesiredSpeed = normalRandom(
+    params.meanSpeed * vehicleClass.desiredSpeedFactor,
+    params.stdSpeed,
+    params.minSpeed,
+    params.maxSpeed,
+    rng
+  );
+
+  const minTripDistance = 1; // km
+  const distTripPlanned = Math.max(
+    minTripDistance,
+    logNormalRandom(
+      params.meanDistTripPlanned,
+      params.sigmaDistTripPlanned,
+      rng
+    )
+  );
+
+  // Generate driver properties for new car
+  const { speedFactor, ...driverProps } = generateDriverProperties(params, rng);
+  const reactionTime = driverProps.reactionTime ?? generateReactionTime(params, rng);
+  const occupancy = generateOccupancy(params, rng);
+  const keepsRight = generateKeepsRight(params, rng);
+  const desiredSpeed = applySpeedFactor(baseDesiredSpeed, speedFactor, params);
+
+  const speed = Math.min(desiredSpeed, getCarSpeedLimit({ position, lane, vehicleType }, params));
+  const virtualLength = calculateVirtualLength(speed, params, vehicleClass.length);
+
+  return {
+    id,
+    name: `Car ${id + 1}`,
+    position,
+    speed,
+    desiredSpeed,
+    color: "hsl(142, 72%, 29%)", // Start new cars with green color
+    virtualLength,
+    distTripPlanned,
+    distanceTraveled: 0,
+    lane,
+    lastLaneChange: 0,
+    vehicleType,
+    length: vehicleClass.length,
+    ...driverProps,
+    reactionTime,
+    occupancy,
+    keepsRight,
+  };
+}
+
+// Whether `car` may drive in `lane`: its vehicle class allows the lane and so do the lane rules
+export function canUseLane(car: Pick<Car, "vehicleType" | "occupancy">, lane: number, params: SimulationParams): boolean {
+  return (
+    isLaneAllowed(getVehicleClass(car.vehicleType, params.vehicleClasses), lane, params.numLanes || 1) &&
+    mayUseLane(params.laneRules, lane, car)
+  );
+}
+
+// Nearest of `lanes` that `car` may use, the right one of two equally near; undefined when there is none
+export function findPermittedLane(car: Car, lanes: number[], params: SimulationParams): number | undefined {
+  let best: number | undefined;
+  for (const lane of lanes) {
+    if (!canUseLane(car, lane, params)) continue;
+    const distance = Math.abs(lane - car.lane);
+    if (best === undefined || distance < Math.abs(best - car.lane) || (distance === Math.abs(best - car.lane) && lane > best)) {
+      best = lane;
+    }
+  }
+  return best;
+}
+
+// Decide where a car leaves the road: the off-ramp nearest the end of its
+// planned trip or, on an open road, possibly the downstream end.
+// Without off-ramps on a ring the car keeps vanishing where its trip runs out.
+function planExit(car: Car, params: SimulationParams, laneLength: number): void {
+  const topology = params.roadTopology ?? "ring";
+  const { ramp, distance } = chooseExit(
+    car.position,
+    car.distTripPlanned,
+    params.ramps ?? [],
+    laneLength,
+    topology
+  );
+  car.exitRampId = ramp?.id;
+  car.distTripPlanned = car.distanceTraveled + distance;
+}
+
+// Initialize the simulation. All randomness is drawn from `rng`, which is
+// seeded from params.seed unless the caller provides its own stream.
+export function initializeSimulation(
+  params: SimulationParams,
+  rng: RandomStream = new RandomStream(params.seed)
+): {
   cars: Car[];
   laneLength: number;
   density: number;
+  rng: RandomStream;
 } {
   const cars: Car[] = [];
   const carColors = [
@@ -242,58 +600,20 @@ export function initializeSimulation(params: SimulationParams): {
     const carsInThisLane = lane < extraCars ? targetCarsPerLane + 1 : targetCarsPerLane;
 
     for (let i = 0; i < carsInThisLane; i++) {
-      // Generate vehicle type first
-      const vehicleType = generateVehicleType(params);
-      const vehicleProps = getVehicleProperties(vehicleType);
-      
-      const desiredSpeed = normalRandom(
-        params.meanSpeed * vehicleProps.speedModifier,
-        params.stdSpeed,
-        params.minSpeed,
-        params.maxSpeed
-      );
-
-      // Initial speed is the desired speed
-      const speed = desiredSpeed;
-
-      // Calculate virtual length based on vehicle type and initial speed (in miles)
-      const vehicleLengthMiles = (vehicleProps.lengthMeters * 3.28084) / 5280; // Convert meters to miles
-      const modifiedParams = { ...params, lengthCar: vehicleLengthMiles };
-      const virtualLength = calculateVirtualLength(speed, modifiedParams);
-
-      // Generate planned trip distance using log-normal distribution (km)
-      const minTripDistance = 1; // minimum trip distance in km
-      const distTripPlannedRaw = logNormalRandom(params.meanDistTripPlanned, params.sigmaDistTripPlanned);
-      const distTripPlanned = Math.max(
-        minTripDistance,
-        distTripPlannedRaw
-      );
-      console.log(
-        `[DEBUG] Car ${carId}: meanDistTripPlanned=${params.meanDistTripPlanned}, sigmaDistTripPlanned=${params.sigmaDistTripPlanned}, raw=${distTripPlannedRaw}, final=${distTripPlanned}`
-      );
-
-      // Generate driver properties
-      const driverProps = generateDriverProperties();
-
-      cars.push({
-        id: carId,
-        name: `Car ${carId + 1}`,
-        position: 0, // Will be set properly later (in miles)
-        speed,
-        desiredSpeed,
-        color: "hsl(142, 72%, 29%)", // Start all cars with green color
-        virtualLength,
-        distTripPlanned,
-        distanceTraveled: 0,
-        lane,
-        lastLaneChange: 0,
-        vehicleType,
-        ...driverProps,
-      });
+      // Positioned evenly along the lane below, once every lane has its cars
+      cars.push(createCar(carId, 0, lane, params, rng));
       carId++;
     }
   }
 
+  // Vehicles the lane rules keep out of their lane start in the nearest lane they may use
+  if (params.laneRules?.length) {
+    const roadLanes = Array.from({ length: numLanes }, (_, lane) => lane);
+    cars.forEach((car) => {
+      car.lane = findPermittedLane(car, roadLanes, params) ?? car.lane;
+    });
+  }
+
   // Calculate overall traffic density (cars per mile)
   const density = totalCars / laneLength;
 
@@ -313,20 +633,43 @@ export function initializeSimulation(params: SimulationParams): {
     // Position cars with even spacing
     for (let i = 0; i < carsInLane.length; i++) {
       // Calculate position with some randomness to prevent perfect alignment
-      const position = (i * spacing + Math.random() * spacing * 0.1) % laneLength;
+      const position = (i * spacing + rng.next() * spacing * 0.1) % laneLength;
       carsInLane[i].position = position; // always in kilometers
       
       // Set initial speed to desired speed with some variation
       carsInLane[i].speed = Math.max(
         params.minSpeed,
         Math.min(
-          carsInLane[i].desiredSpeed * (0.9 + Math.random() * 0.2), // 90-110% of desired speed
-          params.speedLimit
+          carsInLane[i].desiredSpeed * (0.9 + rng.next() * 0.2), // 90-110% of desired speed
+          getCarSpeedLimit(carsInLane[i], params)
         )
       );
     }
   }
 
+  // Cars placed on a closed stretch move to the nearest open lane if it has room
+  const blocked = getParamsBlockedIntervals(params);
+  const minGapKm = (params.carFollowingParams ?? defaultCarFollowingSettings).minGap / 1000;
+  const topology = params.roadTopology ?? "ring";
+  const placement = new LaneIndex(cars);
+  cars.forEach((car) => {
+    if (!isLaneBlockedAt(blocked, car.lane, car.position)) return;
+    const lane = findOpenLane(blocked, car.lane, car.position, numLanes);
+    if (lane === undefined) return;
+    const { leader, distance } = placement.findLeader(car.position, lane, laneLength, topology);
+    const { distance: followerDistance } = placement.findFollower(car.position, lane, laneLength, topology);
+    if (
+      distance >= (leader?.length ?? 0) / 1000 + minGapKm &&
+      followerDistance >= car.length / 1000 + minGapKm
+    ) {
+      car.lane = lane;
+      placement.changeLane(car);
+    }
+  });
+
+  // Trips end at an off-ramp or, on an open road, the downstream boundary
+  cars.forEach((car) => planExit(car, params, laneLength));
+
   // Sort cars by position and update their IDs and names
   cars.sort((a, b) => a.position - b.position);
   for (let i = 0; i < cars.length; i++) {
@@ -334,7 +677,7 @@ export function initializeSimulation(params: SimulationParams): {
     cars[i].name = `Car ${i + 1}`;
   }
 
-  return { cars, laneLength, density };
+  return { cars, laneLength, density, rng };
 }
 
 // Calculate distance to car ahead in the same lane (in km), accounting for car lengths
@@ -342,46 +685,61 @@ export function calculateDistanceToCarAhead(
   carIndex: number,
   cars: Car[],
   laneLength: number,
-  carLength: number = 5 // Default car length in meters if not provided
+  carLength?: number, // meters; the leader's own length when omitted
+  topology: RoadTopology = "ring"
 ): number {
   const currentCar = cars[carIndex];
-  const currentLane = currentCar.lane;
-
-  // Get all cars in the same lane
-  const sameLaneCars = cars.filter((car) => car.lane === currentLane);
-
-  // Sort cars by position in the lane
-  const sortedLaneCars = sameLaneCars.sort((a, b) => {
-    // Handle wrap-around when calculating distances
-    const distA = (a.position - currentCar.position + laneLength) % laneLength;
-    const distB = (b.position - currentCar.position + laneLength) % laneLength;
-    return distA - distB;
-  });
-
-  // Find the car ahead (first car with positive distance)
-  const aheadCar = sortedLaneCars.find(
-    (car) =>
-      car.id !== currentCar.id && // Not the current car
-      (car.position - currentCar.position + laneLength) % laneLength > 0 // Ahead of current car
-  );
+  const { leader, distance } = findLeader(currentCar, cars, currentCar.lane, laneLength, topology);
 
-  if (!aheadCar) {
+  if (!leader) {
     return laneLength; // No car ahead in this lane
   }
 
-  // Calculate distance with wrap-around (front of current car to front of ahead car)
-  let distance = aheadCar.position - currentCar.position;
-  if (distance < 0) {
-    distance += laneLength;
-  }
-
   // Convert car length to km and subtract from distance to get actual gap
-  const gap = distance - (carLength / 1000); // Convert meters to km
+  const gap = distance - (carLength ?? leader.length) / 1000; // Convert meters to km
   
   // Ensure we don't return negative gap (in case cars are overlapping)
   return Math.max(0, gap);
 }
 
+/**
+ * Gap to the car ahead (km) for every car, in the order of `cars`. Same result
+ * as calling calculateDistanceToCarAhead per car, without the O(n²) scan.
+ */
+export function calculateDistancesToCarAhead(
+  cars: Car[],
+  laneLength: number,
+  carLength?: number, // meters; each leader's own length when omitted
+  topology: RoadTopology = "ring"
+): number[] {
+  const index = new LaneIndex(cars);
+  return cars.map((car) => {
+    const { leader, distance } = index.findLeader(car.position, car.lane, laneLength, topology);
+    return leader ? Math.max(0, distance - (carLength ?? leader.length) / 1000) : laneLength;
+  });
+}
+
+// Find the nearest car ahead in `lane` and the distance to it (km, front to front)
+function findLeader(
+  car: Pick<Car, "id" | "position">,
+  cars: Car[],
+  lane: number,
+  laneLength: number,
+  topology: RoadTopology = "ring"
+): { leader?: Car; distance: number } {
+  let leader: Car | undefined;
+  let distance = Infinity;
+  for (const other of cars) {
+    if (other.lane !== lane || other.id === car.id) continue;
+    const ahead = forwardDistance(car.position, other.position, laneLength, topology);
+    if (ahead > 0 && ahead < distance) {
+      leader = other;
+      distance = ahead;
+    }
+  }
+  return { leader, distance };
+}
+
 // Utility to get car color based on entry/exit distance
 export function getCarColor(car: Car): string {
   // Use 20% of trip distance or 5 km, whichever is smaller, for thresholds
@@ -407,25 +765,23 @@ export function getCarColor(car: Car): string {
   return white;
 }
 
-// Update simulation for one time step
+// Update simulation for exactly one time step of params.dt seconds.
+// Faster playback runs more steps; it never stretches the step itself.
 export function updateSimulation(
   cars: Car[],
   laneLength: number,
   params: SimulationParams,
   currentTime: number,
   trafficRule: "american" | "european",
-  simulationSpeed: number = 1,
-  stoppedCars: Set<number> = new Set()
+  stoppedCars: Set<number> = new Set(),
+  rng: RandomStream,
+  sources?: TrafficSources,
+  laneIndex: LaneIndex<Car> = new LaneIndex(),
+  perception: PerceptionMemory = new PerceptionMemory()
 ): {
   cars: Car[];
-  events: {
-    type: "exit" | "enter" | "laneChange";
-    carId: number;
-    carName: string;
-    position: number;
-    speed: number;
-    lane?: number;
-  }[];
+  events: SimulationEvent[];
+  rejectedLaneChanges: number; // lane changes called off by the safety criterion, once per attempt
 } {
   const updatedCars = [...cars];
   const numCars = cars.length;
@@ -443,20 +799,24 @@ export function updateSimulation(
     distanceTraveled: number;
   }[] = [];
   const carsToRemove: { index: number; car: Car }[] = [];
-  const events: {
-    type: "exit" | "enter" | "laneChange";
-    carId: number;
-    carName: string;
-    position: number;
-    speed: number;
-    lane?: number;
-  }[] = [];
+  const events: SimulationEvent[] = [];
+  let rejectedLaneChanges = 0;
+  const caccLeaders = new Map<number, number>(); // connected follower id -> connected leader id
   const sortedIndices = [...Array(numCars).keys()].sort((a, b) => {
     return updatedCars[a].position - updatedCars[b].position;
   });
 
-  // Apply simulation speed to the timestep
-  const effectiveDt = params.dt * simulationSpeed;
+  const dt = params.dt;
+  const topology = params.roadTopology ?? "ring";
+  const numLanes = params.numLanes || 1;
+  const ramps = params.ramps ?? [];
+  const rampsById = new Map(ramps.map((ramp) => [ramp.id, ramp]));
+  const blocked = getParamsBlockedIntervals(params);
+  const roadLanes = Array.from({ length: numLanes }, (_, lane) => lane);
+
+  // Leader and follower lookups go through the per-lane index; it is kept
+  // up to date below as cars change lanes, enter and leave
+  laneIndex.sync(updatedCars);
 
   for (let i = 0; i < numCars; i++) {
     const carIndex = sortedIndices[i];
@@ -467,6 +827,7 @@ export function updateSimulation(
     if (stoppedCars.has(car.id)) {
       carSpeed = 0;
       car.color = "black"; // Set stopped cars to black
+      perception.forget(car.id); // watches the road afresh once released
       movements[carIndex] = {
         newPosition: car.position,
         newSpeed: 0,
@@ -475,104 +836,186 @@ export function updateSimulation(
       continue; // Skip all other processing for stopped cars
     }
 
-    // Check if car is about to exit (within 1 mile of trip completion)
+    // Merging from an on-ramp: move over as soon as the mainline gap is acceptable
+    const onRamp = car.onRampId ? rampsById.get(car.onRampId) : undefined;
+    if (car.onRampId && !onRamp) {
+      car.onRampId = undefined; // ramp was removed
+    }
+    if (onRamp) {
+      const edgeLane = getRampEdgeLane(onRamp, numLanes);
+      const { leader, distance } = laneIndex.findLeader(car.position, edgeLane, laneLength, topology);
+      const { follower } = laneIndex.findFollower(car.position, edgeLane, laneLength, topology);
+      if (
+        !isLaneBlockedAt(blocked, edgeLane, car.position) &&
+        acceptsMergeGap(car, leader, distance, follower, params, laneLength)
+      ) {
+        car.lane = edgeLane;
+        laneIndex.changeLane(car);
+        car.onRampId = undefined;
+        car.lastLaneChange = currentTime;
+        events.push({
+          type: "laneChange",
+          carId: car.id,
+          carName: car.name,
+          position: car.position,
+          speed: car.speed,
+          lane: edgeLane,
+        });
+      }
+    }
+    const mergingRamp = car.onRampId ? onRamp : undefined;
+
+    // Check if car is about to exit (within 1 mile of trip completion).
+    // Cars heading for an off-ramp aim for the lane beside it; on an open
+    // road without one every lane leads off the downstream end.
+    const exitRamp = car.exitRampId ? rampsById.get(car.exitRampId) : undefined;
     const distanceToExit = car.distTripPlanned - car.distanceTraveled;
-    const shouldMoveToExitLane = distanceToExit <= 1 && distanceToExit > 0;
-    
-    // Find the car ahead in the same lane
-    let currentLane = car.lane;
-    let sameLaneCars = updatedCars.filter((c) => c.lane === currentLane);
-    let sortedSameLaneCars = sameLaneCars.sort((a, b) => {
-      const distA = (a.position - car.position + laneLength) % laneLength;
-      const distB = (b.position - car.position + laneLength) % laneLength;
-      return distA - distB;
-    });
-    let aheadCar = sortedSameLaneCars.find(
-      (c) => (c.position - car.position + laneLength) % laneLength > 0
-    );
+    const shouldMoveToExitLane =
+      (topology === "ring" || !!exitRamp) && distanceToExit <= 1 && distanceToExit > 0;
+    const exitLane = exitRamp ? getRampEdgeLane(exitRamp, numLanes) : undefined;
+
+    // A lane drop or closure close ahead (or already around the car) forces
+    // it over to the nearest lane that is open there; this overrides the exit lane
+    const blockageAhead = distanceToBlockage(blocked, car.lane, car.position, laneLength, topology);
+    const closureLane =
+      blockageAhead <= CLOSURE_WARNING_DISTANCE
+        ? findOpenLane(
+            blocked,
+            car.lane,
+            advancePosition(car.position, blockageAhead, laneLength, topology),
+            numLanes
+          )
+        : undefined;
+    // A car in a lane the rules keep it out of (they changed, or it merged
+    // into one) heads for the nearest lane it may use, unless it is exiting
+    const permittedLane =
+      car.lane >= 0 && car.lane < numLanes && !canUseLane(car, car.lane, params)
+        ? findPermittedLane(car, roadLanes, params)
+        : undefined;
+    const mandatoryLane = closureLane ?? (shouldMoveToExitLane ? exitLane : undefined) ?? permittedLane ?? exitLane;
+
+    // Car ahead in `lane` and the distance to its front in kilometers. The
+    // start of a lane drop or closure acts like a stopped vehicle of no
+    // length; cars already inside one are let through so they can get out.
+    const findObstacle = (lane: number) => {
+      const { leader, distance } = laneIndex.findLeader(car.position, lane, laneLength, topology);
+      const blockage = distanceToBlockage(blocked, lane, car.position, laneLength, topology);
+      if (blockage > 0 && (!leader || blockage < distance - leader.length / 1000)) {
+        return { leader, obstacle: { id: OBSTACLE_LEADER_ID, speed: 0, length: 0 }, distance: blockage };
+      }
+      return { leader, obstacle: leader as Obstacle | undefined, distance };
+    };
 
-    // Calculate gap to car ahead in kilometers (with wrap-around)
-    let gap = aheadCar
-      ? (aheadCar.position - car.position + laneLength) % laneLength
-      : laneLength;
+    // Find the car ahead in the same lane and the gap to it in kilometers
+    let { leader: aheadCar, obstacle, distance: gap } = findObstacle(car.lane);
+
+    // The end of the acceleration lane acts like a stopped car
+    if (mergingRamp) {
+      const laneEnd = forwardDistance(car.position, mergingRamp.position + mergingRamp.length, laneLength, topology);
+      if (!obstacle || laneEnd < gap - obstacle.length / 1000) {
+        gap = laneEnd;
+        obstacle = { id: OBSTACLE_LEADER_ID, speed: 0, length: 0 };
+      }
+    }
 
     // Calculate safe following distance in kilometers
-    const safeDistKm = calculateSafeDistance(carSpeed, params.tDist) / 1000; // meters to km
+    const safeDistKm = calculateSafeDistance(carSpeed, car.timeHeadway ?? params.tDist) / 1000; // meters to km
     const bufferKm = 0.005; // 5 meters in km
     const safeGap = safeDistKm + bufferKm; // Removed car length since it's already accounted for in calculateDistanceToCarAhead
 
-    const aheadCarSpeed = aheadCar?.speed || 0;
-    
-    // Use only safeGap for all distance calculations
-    // If there's no car ahead or we have safe distance, maintain or increase speed
-    if (!aheadCar || gap > safeGap) {
-      // If far ahead, accelerate towards desired speed (in km/h)
-      const acceleration = params.aMax * 3.6; // Convert m/s² to km/h/s
-      carSpeed = Math.min(carSpeed + acceleration * effectiveDt, car.desiredSpeed);
-    } else {
-      // Start braking when we're closer than safe distance
-      const criticalDistance = safeGap * 0.5; // Point where we need emergency braking
-      
-      if (aheadCarSpeed === 0) {
-        // Approaching a stopped car - gradual braking based on distance
-        const stopDistance = 0.005; // 5 meters minimum stopping distance in km
-        if (gap > stopDistance * 2) {
-          // Gradual deceleration when we have room
-          const decelerationRate = params.aMax * 0.4 * 3.6; // Gentle braking
-          carSpeed = Math.max(carSpeed - decelerationRate * effectiveDt, 0);
-        } else if (gap > stopDistance) {
-          // More urgent braking when closer
-          const decelerationRate = params.aMax * 0.8 * 3.6; // More aggressive braking
-          carSpeed = Math.max(carSpeed - decelerationRate * effectiveDt, 0);
-        } else {
-          // Very close to stopped car - stop completely
-          carSpeed = 0;
-        }
-      } else {
-        // Car ahead is moving - match speed with a safe following distance
-        const speedDifference = carSpeed - aheadCarSpeed;
-        
-        if (speedDifference > 10) {
-          // Significant speed difference - gentle braking
-          const decelerationRate = params.aMax * 0.5 * 3.6;
-          carSpeed = Math.max(carSpeed - decelerationRate * effectiveDt, aheadCarSpeed);
-        } else if (speedDifference > 0) {
-          // Small speed difference - very gentle adjustment
-          const adjustment = speedDifference * 0.2; // Gradually reduce difference
-          carSpeed = carSpeed - adjustment * effectiveDt;
-        } else {
-          // We're slower or same speed - maintain current speed
-          carSpeed = Math.min(carSpeed + params.aMax * 0.2 * 3.6 * effectiveDt, aheadCarSpeed);
-        }
-      }
+    // Speed limits (and lower ones ahead) are approached braking comfortably,
+    // never by clipping the speed
+    const speedLimit = getCarSpeedLimit(car, params);
+    let speedCap = Math.max(speedLimit, car.speed - getComfortableDeceleration(car, params) * 3.6 * dt); // m/s² to km/h/s
+
+    // Scripted braking: slow down to the target speed and hold it until released
+    if (car.scriptedBrake && currentTime >= car.scriptedBrake.until) {
+      car.scriptedBrake = undefined;
+    }
+    if (car.scriptedBrake) {
+      const { speed, deceleration } = car.scriptedBrake;
+      speedCap = Math.min(speedCap, Math.max(speed, car.speed - deceleration * 3.6 * dt)); // m/s² to km/h/s
     }
 
-    // Ensure we don't exceed speed limit
-    carSpeed = Math.min(carSpeed, params.speedLimit);
-    car.virtualLength = calculateVirtualLength(carSpeed, params) / 1000; // meters to km
-    
-    // Calculate movement for this time step (convert km/h to km/frame)
-    let potentialMove = carSpeed * (1/3600) * effectiveDt; // km/h to km/s to km/frame
-    
-    // Ensure we have some minimum movement to prevent cars from getting stuck (but only if not blocked)
-    if (!aheadCar || gap > safeGap) {
-      const minMove = 0.00001 * effectiveDt; // 1 cm per second in km
-      potentialMove = Math.max(potentialMove, minMove);
+    // Random slowdowns (Nagel-Schreckenberg dawdling): now and then a driver
+    // sheds some speed for no reason and holds it for a while. Automated
+    // vehicles do not dawdle.
+    if (car.randomSlowdown && currentTime >= car.randomSlowdown.until) {
+      car.randomSlowdown = undefined;
     }
-    
-    // Ensure we don't move past the car ahead
-    if (aheadCar) {
-      const distanceToCarAhead = (aheadCar.position - car.position + laneLength) % laneLength;
-      const safeDistance = (calculateSafeDistance(carSpeed, params.tDist) + params.lengthCar) / 1000; // meters to km
-      potentialMove = Math.max(0, Math.min(potentialMove, distanceToCarAhead - safeDistance));
+    if (!car.randomSlowdown && startsRandomSlowdown(car, params, rng)) {
+      car.randomSlowdown = {
+        speed: Math.max(0, car.speed - (params.randomSlowdownAmount ?? 0)),
+        deceleration: getComfortableDeceleration(car, params),
+        until: currentTime + (params.randomSlowdownDuration ?? 0),
+      };
+      events.push({
+        type: "slowdown",
+        carId: car.id,
+        carName: car.name,
+        position: car.position,
+        speed: car.speed,
+        lane: car.lane,
+      });
+    }
+    if (car.randomSlowdown) {
+      const { speed, deceleration } = car.randomSlowdown;
+      speedCap = Math.min(speedCap, Math.max(speed, car.speed - deceleration * 3.6 * dt)); // m/s² to km/h/s
     }
 
-    // Final check: prevent moving too close to car ahead (gap is in km)
-    if (gap - potentialMove < safeGap) {
-      // Try lane change first
+    // Speed and movement for this step behind the given leader, from the car-following
+    // model. A driver with a reaction time responds to the leader as it was back then;
+    // connected vehicles are automated and act on what they sense right away.
+    const followLeader = (leader: Obstacle | undefined, distance: number) => {
+      let perceivedDistance = leader ? distance : Infinity;
+      let perceivedLeader = leader;
+      if (car.reactionTime && !isConnected(car, params)) {
+        const perceived = perception.observe(
+          car.id,
+          leader?.id ?? NO_LEADER_ID,
+          currentTime,
+          car.reactionTime,
+          dt,
+          { distance: perceivedDistance, speed: leader?.speed ?? 0 }
+        );
+        perceivedDistance = perceived.distance;
+        perceivedLeader = leader && { ...leader, speed: perceived.speed };
+      }
+      const acceleration = calculateAcceleration(car, perceivedDistance, perceivedLeader, params, rng);
+      let speed = Math.min(Math.max(car.speed + acceleration * 3.6 * dt, 0), speedCap); // m/s² to km/h/s
+      let move = speed * (1/3600) * dt; // km/h to km/s to km/frame
+
+      // Never move into the car ahead, whatever the model asks for
+      if (leader) {
+        const room = Math.max(0, distance - leader.length / 1000); // meters to km
+        if (move > room) {
+          move = room;
+          speed = (room * 3600) / dt;
+        }
+      }
+      const platooning = leader !== undefined && isPlatooning(car, leader, distance, params);
+      return { speed, move, platooning };
+    };
+
+    let { speed: nextSpeed, move: potentialMove, platooning } = followLeader(obstacle, gap);
+    carSpeed = nextSpeed;
+
+    // Held back by the car ahead (or closing in on it), or heading for an
+    // exit: look for a better lane. Merging cars stay on their ramp and
+    // scripted braking happens in the current lane.
+    const constrained = carSpeed < Math.min(car.desiredSpeed, speedLimit) - 1;
+    const mustChangeLane = shouldMoveToExitLane || closureLane !== undefined || permittedLane !== undefined;
+    const wantsMandatoryLane = mustChangeLane && mandatoryLane !== undefined && car.lane !== mandatoryLane;
+    // Drivers who keep right look for a way back right even on a free road
+    const keepingRight = car.keepsRight === true && car.lane < numLanes - 1;
+    if (
+      !mergingRamp &&
+      !car.scriptedBrake &&
+      ((obstacle && (constrained || gap - potentialMove < safeGap)) || wantsMandatoryLane || keepingRight)
+    ) {
       const adjacentLanes = findAdjacentCars(
         car,
-        updatedCars,
+        laneIndex,
         laneLength,
         params
       );
@@ -586,13 +1029,44 @@ export function updateSimulation(
         laneLength,
         currentTime,
         trafficRule,
-        shouldMoveToExitLane
+        mustChangeLane,
+        rng,
+        mandatoryLane
       );
 
-      if (shouldChange && targetLane !== null) {
+      // Only step into a lane that is about to close when it is the way out of a closure
+      const towardOpenLane =
+        closureLane !== undefined &&
+        targetLane !== null &&
+        Math.abs(closureLane - targetLane) < Math.abs(closureLane - car.lane);
+      const targetClosesAhead =
+        targetLane !== null &&
+        distanceToBlockage(blocked, targetLane, car.position, laneLength, topology) <= CLOSURE_WARNING_DISTANCE;
+
+      const wantsChange = shouldChange && targetLane !== null && (!targetClosesAhead || towardOpenLane);
+
+      // Never cut in on top of another vehicle or force anyone to brake hard
+      const safe =
+        wantsChange &&
+        isLaneChangeSafe(
+          car,
+          targetLane < car.lane ? adjacentLanes.leftLane : adjacentLanes.rightLane,
+          params,
+          laneLength
+        );
+      if (wantsChange && !safe) {
+        // One attempt lasts while the car is held back and has not changed
+        // lanes, so waiting for a gap is counted as a single rejection
+        if (!car.laneChangeBlocked) rejectedLaneChanges++;
+        car.laneChangeBlocked = true;
+      }
+
+      if (safe) {
+        car.laneChangeBlocked = undefined;
         // Perform lane change
         updatedCars[carIndex].lane = targetLane;
         updatedCars[carIndex].lastLaneChange = currentTime;
+        laneIndex.changeLane(car);
         
         // Add lane change event
         events.push({
@@ -605,42 +1079,21 @@ export function updateSimulation(
         });
 
         // Recalculate aheadCar and gap in new lane
-        currentLane = targetLane;
-        sameLaneCars = updatedCars.filter((c) => c.lane === currentLane);
-        sortedSameLaneCars = sameLaneCars.sort((a, b) => {
-          const distA = (a.position - car.position + laneLength) % laneLength;
-          const distB = (b.position - car.position + laneLength) % laneLength;
-          return distA - distB;
-        });
-        aheadCar = sortedSameLaneCars.find(
-          (c) => (c.position - car.position + laneLength) % laneLength > 0
-        );
-        gap = aheadCar
-          ? (aheadCar.position - car.position + laneLength) % laneLength
-          : laneLength;
-
-        // Recalculate potential move and gap again
-        if (gap - potentialMove < safeGap) {
-          // Still too close after lane change - apply gradual braking
-          const emergencyBraking = Math.max(carSpeed * 0.6, 5);
-          carSpeed = Math.max(emergencyBraking, 0);
-          potentialMove = carSpeed * (1/3600) * effectiveDt;
-          // Maintain safe gap with a small buffer
-          potentialMove = Math.min(potentialMove, Math.max(0, gap - safeGap * 0.9));
-        }
-      } else {
-        // No valid lane change - apply gradual braking
-        const emergencyDeceleration = params.aMax * 1.2 * 3.6;
-        carSpeed = Math.max(carSpeed - emergencyDeceleration * effectiveDt, 0);
-        
-        // Calculate movement to maintain safe gap
-        potentialMove = carSpeed * (1/3600) * effectiveDt;
-        potentialMove = Math.min(potentialMove, Math.max(0, gap - safeGap * 0.9));
+        ({ leader: aheadCar, obstacle, distance: gap } = findObstacle(targetLane));
+
+        ({ speed: nextSpeed, move: potentialMove, platooning } = followLeader(obstacle, gap));
+        carSpeed = nextSpeed;
       }
+    } else {
+      car.laneChangeBlocked = undefined;
+    }
+    if (platooning && obstacle) {
+      caccLeaders.set(car.id, obstacle.id);
     }
+    car.virtualLength = calculateVirtualLength(carSpeed, params, car.length) / 1000; // meters to km
 
     // Calculate new position in km
-    const newPosition = (car.position + potentialMove) % laneLength;
+    const newPosition = advancePosition(car.position, potentialMove, laneLength, topology);
     const newDistanceTraveled = car.distanceTraveled + potentialMove;
     movements[carIndex] = {
       newPosition,
@@ -650,6 +1103,7 @@ export function updateSimulation(
   }
 
   for (let i = 0; i < numCars; i++) {
+    updatedCars[i].acceleration = (movements[i].newSpeed - updatedCars[i].speed) / 3.6 / dt; // km/h per step to m/s²
     updatedCars[i].position = movements[i].newPosition;
     updatedCars[i].speed = movements[i].newSpeed;
     updatedCars[i].distanceTraveled = movements[i].distanceTraveled;
@@ -659,14 +1113,41 @@ export function updateSimulation(
       updatedCars[i].color = getCarColor(updatedCars[i]);
     }
 
-    if (updatedCars[i].distanceTraveled >= updatedCars[i].distTripPlanned) {
-      carsToRemove.push({ index: i, car: updatedCars[i] });
+    const car = updatedCars[i];
+    const leftRoad = topology === "open" && car.position >= laneLength;
+    const exitRamp = car.exitRampId ? rampsById.get(car.exitRampId) : undefined;
+
+    if (exitRamp) {
+      if (
+        car.lane === getRampEdgeLane(exitRamp, numLanes) &&
+        car.distanceTraveled >= car.distTripPlanned &&
+        isWithinRamp(exitRamp, car.position, laneLength, topology)
+      ) {
+        // Takes the off-ramp
+        carsToRemove.push({ index: i, car });
+      } else if (leftRoad) {
+        carsToRemove.push({ index: i, car });
+      } else if (car.distanceTraveled > car.distTripPlanned + exitRamp.length) {
+        // Missed the off-ramp: go round again on a ring, carry on to the end of an open road
+        if (topology === "ring") {
+          car.distTripPlanned += laneLength;
+        } else {
+          car.exitRampId = undefined;
+          car.distTripPlanned = car.distanceTraveled + (laneLength - car.position);
+        }
+      }
+    } else if (leftRoad || car.distanceTraveled >= car.distTripPlanned) {
+      carsToRemove.push({ index: i, car });
     }
   }
 
+  laneIndex.resort();
+
   for (let i = carsToRemove.length - 1; i >= 0; i--) {
     const { index: indexToRemove, car } = carsToRemove[i];
     updatedCars.splice(indexToRemove, 1);
+    laneIndex.remove(car);
+    perception.forget(car.id);
     events.push({
       type: "exit",
       carId: car.id,
@@ -676,162 +1157,300 @@ export function updateSimulation(
     });
   }
 
-  const numLanes = params.numLanes || 1;
-
-  for (let i = 0; i < carsToRemove.length; i++) {
-    const newPosition = 0;
-    
-    // Generate vehicle type for new car
-    const vehicleType = generateVehicleType(params);
-    const vehicleProps = getVehicleProperties(vehicleType);
-    
-    const desiredSpeed = normalRandom(
-      params.meanSpeed * vehicleProps.speedModifier,
-      params.stdSpeed,
-      params.minSpeed,
-      params.maxSpeed
-    );
-    const speed = desiredSpeed;
-    
-    // Calculate virtual length based on vehicle type (convert meters to miles)
-    const vehicleLengthMiles = (vehicleProps.lengthMeters * 3.28084) / 5280;
-    const modifiedParams = { ...params, lengthCar: vehicleLengthMiles };
-    const virtualLength = calculateVirtualLength(speed, modifiedParams);
-    
-    const minTripDistance = 1; // km
-    const distTripPlanned = Math.max(
-      minTripDistance,
-      logNormalRandom(
-        params.meanDistTripPlanned,
-        params.sigmaDistTripPlanned
-      )
-    );
-
-    // Generate driver properties for new car
-    const driverProps = generateDriverProperties();
-
-    const newId =
-      updatedCars.length > 0
-        ? Math.max(...updatedCars.map((car) => car.id)) + 1
-        : 0;
-
-    // Assign to random lane
-    const lane = Math.floor(Math.random() * numLanes);
-
-    const newCar = {
-      id: newId,
-      name: `Car ${newId + 1}`,
-      position: newPosition,
-      speed,
-      desiredSpeed,
-      color: "hsl(142, 72%, 29%)", // Start new cars with green color
-      virtualLength,
-      distTripPlanned,
-      distanceTraveled: 0,
-      lane,
-      lastLaneChange: 0,
-      vehicleType,
-      ...driverProps,
-    };
+  const enterCar = (newCar: Car) => {
+    planExit(newCar, params, laneLength);
     updatedCars.push(newCar);
+    laneIndex.insert(newCar);
     events.push({
       type: "enter",
-      carId: newId,
+      carId: newCar.id,
       carName: newCar.name,
-      position: newPosition,
-      speed: speed,
+      position: newCar.position,
+      speed: newCar.speed,
     });
+  };
+  // New ids continue from a counter kept with the sources, so ids are never
+  // reused; without sources it starts above every id seen this step
+  let nextCarId = sources?.nextCarId ?? cars.reduce((next, car) => Math.max(next, car.id + 1), 0);
+  const nextId = () => nextCarId++;
+
+  // Fastest speed a new vehicle may enter with at `position` in `lane`,
+  // or null when the entry is blocked and the vehicle has to keep waiting.
+  // A vehicle standing exactly at the entry blocks it.
+  const minGapMeters = (params.carFollowingParams ?? defaultCarFollowingSettings).minGap;
+  const entrySpeedLimit = (position: number, lane: number): number | null => {
+    const { leader, distance } = laneIndex.findBlockingLeader(position, lane, laneLength, topology);
+    if (!leader) return Infinity;
+    const gapMeters = distance * 1000 - leader.length;
+    if (gapMeters < minGapMeters) return null;
+    // Enter no faster than the speed whose time headway fits the gap
+    return ((gapMeters - minGapMeters) / params.tDist) * 3.6; // m/s to km/h
+  };
+
+  const onRamps = ramps.filter((ramp) => ramp.type === "on");
+  // Lanes that are not closed where vehicles enter the road
+  const entryLanes = getOpenLanes(blocked, 0, numLanes);
+
+  if (topology === "ring" && onRamps.length === 0 && params.demandProfile?.length) {
+    // Closed loop under a demand profile: the vehicle count follows the
+    // profile's density (params.trafficDensity, set for this step). Exiting
+    // cars are not replaced while there are too many, and missing ones enter
+    // at position 0, one per open lane with room ahead and behind per step.
+    let missing = Math.round(params.trafficDensity * laneLength) - updatedCars.length;
+    const firstLane = missing > 0 ? Math.floor(rng.next() * entryLanes.length) : 0;
+    for (let i = 0; i < entryLanes.length && missing > 0; i++) {
+      const newCar = createCar(nextId(), 0, entryLanes[(firstLane + i) % entryLanes.length], params, rng);
+      newCar.lane = findPermittedLane(newCar, entryLanes, params) ?? newCar.lane;
+      const speedLimit = entrySpeedLimit(0, newCar.lane);
+      const { distance: followerDistance } = laneIndex.findFollower(0, newCar.lane, laneLength, topology);
+      if (speedLimit === null || followerDistance * 1000 < newCar.length + minGapMeters) continue;
+      newCar.speed = Math.min(newCar.speed, speedLimit, getCarSpeedLimit(newCar, params));
+      enterCar(newCar);
+      missing--;
+    }
+  } else if (topology === "ring" && onRamps.length === 0) {
+    // Closed loop without on-ramps: every exiting car is replaced at position 0 in a random open lane
+    for (let i = 0; i < carsToRemove.length && entryLanes.length > 0; i++) {
+      const lane = entryLanes[Math.floor(rng.next() * entryLanes.length)];
+      const newCar = createCar(nextId(), 0, lane, params, rng);
+      if (params.laneRules?.length) {
+        // Lane rules send it to the nearest entry lane it may use
+        newCar.lane = findPermittedLane(newCar, entryLanes, params) ?? lane;
+        newCar.speed = Math.min(newCar.speed, getCarSpeedLimit(newCar, params));
+      }
+      enterCar(newCar);
+    }
+  }
+
+  if (topology === "open" && sources) {
+    // Open road: admit waiting vehicles whose lane has room at the entry.
+    // Demand is per open entry lane.
+    const queued = sources.mainline.update(
+      currentTime,
+      entryLanes.length,
+      params.inflowRate ?? 0,
+      params.inflowDistribution ?? "poisson",
+      rng
+    );
+    entryLanes.forEach((lane, queue) => {
+      if (queued[queue] === 0) return;
+      let speedLimit = entrySpeedLimit(0, lane);
+      if (speedLimit === null) return; // entry blocked, keep waiting
+
+      const newCar = createCar(nextId(), 0, lane, params, rng);
+      if (!canUseLane(newCar, lane, params)) {
+        // The lane rules keep it out of the lane it arrived in: it enters the
+        // nearest lane it may use if there is room, or waits in that lane's queue
+        const permittedLane = findPermittedLane(newCar, entryLanes, params);
+        if (permittedLane === undefined) return;
+        speedLimit = entrySpeedLimit(0, permittedLane);
+        if (speedLimit === null) {
+          sources.mainline.transfer(queue, entryLanes.indexOf(permittedLane));
+          return;
+        }
+        newCar.lane = permittedLane;
+      }
+      newCar.speed = Math.min(newCar.speed, speedLimit);
+      sources.mainline.dequeue(queue);
+      enterCar(newCar);
+    });
+  }
+
+  if (sources) {
+    // On-ramps: vehicles appear at the start of the acceleration lane and merge from there
+    onRamps.forEach((ramp) => {
+      let source = sources.ramps.get(ramp.id);
+      if (!source) {
+        source = new InflowGenerator();
+        sources.ramps.set(ramp.id, source);
+      }
+      const [queued] = source.update(currentTime, 1, ramp.flow ?? 0, "poisson", rng);
+      if (queued === 0) return;
+
+      const rampLane = getRampLane(ramp, numLanes);
+      const speedLimit = entrySpeedLimit(ramp.position, rampLane);
+      if (speedLimit === null) return;
+
+      const newCar = createCar(nextId(), ramp.position, rampLane, params, rng);
+      newCar.onRampId = ramp.id;
+      newCar.speed = Math.min(newCar.speed * RAMP_ENTRY_SPEED_FACTOR, speedLimit);
+      source.dequeue(0);
+      enterCar(newCar);
+    });
+  }
+
+  if (sources) {
+    sources.nextCarId = nextCarId;
   }
-  return { cars: updatedCars, events };
+
+  assignPlatoons(updatedCars, caccLeaders);
+  return { cars: updatedCars, events, rejectedLaneChanges };
+}
+
+/**
+ * Gap acceptance for merging from an acceleration lane: the gap ahead must
+ * leave the merging car its minimum gap, and the mainline follower must not
+ * need to brake harder than MERGE_MAX_FOLLOWER_DECELERATION.
+ * @param distance Distance (km, front to front) to the mainline leader
+ */
+function acceptsMergeGap(
+  car: Car,
+  leader: Car | undefined,
+  distance: number,
+  follower: Car | undefined,
+  params: SimulationParams,
+  laneLength: number
+): boolean {
+  const minGapMeters = (params.carFollowingParams ?? defaultCarFollowingSettings).minGap;
+
+  if (leader && distance * 1000 - leader.length < minGapMeters) return false;
+
+  if (follower) {
+    const followerDistance = forwardDistance(follower.position, car.position, laneLength, params.roadTopology);
+    if (followerDistance * 1000 - car.length < minGapMeters) return false;
+    const followerAcceleration = calculateAcceleration(follower, followerDistance, car, params);
+    if (followerAcceleration < -MERGE_MAX_FOLLOWER_DECELERATION) return false;
+  }
+
+  return true;
 }
 
-// Calculate acceleration based on current speed, desired speed, and gap
+/**
+ * MOBIL safety criterion: after the change there must be at least the
+ * standstill gap to the new leader and to the new follower, measured between
+ * bumpers with each vehicle's own length, and neither the new follower nor
+ * the changing car may have to brake harder than params.safeDeceleration.
+ */
+function isLaneChangeSafe(
+  car: Car,
+  targetLane: { leader?: Car; follower?: Car },
+  params: SimulationParams,
+  laneLength: number
+): boolean {
+  const minGapMeters = (params.carFollowingParams ?? defaultCarFollowingSettings).minGap;
+  const safeDeceleration = params.safeDeceleration ?? defaultParams.safeDeceleration;
+  const { leader, follower } = targetLane;
+
+  if (leader) {
+    const distance = forwardDistance(car.position, leader.position, laneLength, params.roadTopology);
+    if (distance * 1000 - leader.length < minGapMeters) return false;
+    if (calculateAcceleration(car, distance, leader, params) < -safeDeceleration) return false;
+  }
+
+  if (follower) {
+    const distance = forwardDistance(follower.position, car.position, laneLength, params.roadTopology);
+    if (distance * 1000 - car.length < minGapMeters) return false;
+    if (calculateAcceleration(follower, distance, car, params) < -safeDeceleration) return false;
+  }
+
+  return true;
+}
+
+// Model parameters per params object and vehicle class: they are read for
+// every car several times a step, and params are replaced rather than mutated
+const modelParamsCache = new WeakMap<SimulationParams, Map<string, CarFollowingParams>>();
+
+function getModelParams(params: SimulationParams, vehicleType: string): CarFollowingParams {
+  let byClass = modelParamsCache.get(params);
+  if (!byClass) {
+    byClass = new Map();
+    modelParamsCache.set(params, byClass);
+  }
+  let modelParams = byClass.get(vehicleType);
+  if (!modelParams) {
+    const settings = params.carFollowingParams ?? defaultCarFollowingSettings;
+    const vehicleClass = getVehicleClass(vehicleType, params.vehicleClasses);
+    modelParams = {
+      ...settings,
+      maxAcceleration: vehicleClass.maxAcceleration ?? settings.maxAcceleration,
+      comfortableDeceleration: vehicleClass.comfortableDeceleration ?? params.aMax,
+    };
+    byClass.set(vehicleType, modelParams);
+  }
+  return modelParams;
+}
+
+// Whether the car's vehicle class is connected and drives with CACC
+function isConnected(car: Pick<Car, "vehicleType">, params: SimulationParams): boolean {
+  return !!getVehicleClass(car.vehicleType, params.vehicleClasses).cacc;
+}
+
+// Whether `car` follows `leader`, whose front is `distance` km ahead, under
+// CACC: both are connected and the leader is within locking range
+function isPlatooning(car: Car, leader: Obstacle, distance: number, params: SimulationParams): boolean {
+  if (leader.vehicleType === undefined || !isConnected(car, params) || !isConnected({ vehicleType: leader.vehicleType }, params)) {
+    return false;
+  }
+  const gap = distance * 1000 - leader.length; // bumper-to-bumper in meters
+  return isWithinCaccRange(car.speed / 3.6, gap, getModelParams(params, car.vehicleType));
+}
+
+/**
+ * Acceleration (m/s²) of a car whose leader's front is `distance` km ahead,
+ * according to the configured car-following model and the car's vehicle class,
+ * or to the CACC controller behind a connected leader in range. Pass Infinity
+ * as the distance and no leader when the road ahead is free. Stochastic models
+ * only add noise when a random stream is given. Braking is capped at
+ * MAX_DECELERATION so lane-change incentives stay bounded.
+ */
 function calculateAcceleration(
   car: Car,
-  gap: number,
-  leaderSpeed: number,
-  params: SimulationParams
+  distance: number,
+  leader: Obstacle | undefined,
+  params: SimulationParams,
+  rng?: RandomStream
 ): number {
-  const mphToFtPerSec = 5280 / 3600;
-  const currentSpeed = car.speed * mphToFtPerSec;
-  const leaderSpeedFtPerSec = leaderSpeed * mphToFtPerSec;
-
-  // Calculate desired acceleration based on speed difference
-  let accel = (car.desiredSpeed - car.speed) * params.k;
-
-  // Apply safe-distance logic
-  const safeDist = calculateSafeDistance(car.speed, params.tDist);
-  if (gap < safeDist + params.lengthCar) {
-    const decel = Math.min(
-      (currentSpeed ** 2 - leaderSpeedFtPerSec ** 2) /
-        (2 * Math.max(safeDist - gap + params.lengthCar, 1)),
-      params.aMax
-    );
-    accel = Math.min(accel, -decel);
-  }
+  const modelParams = getModelParams(params, car.vehicleType);
+  const situation = {
+    speed: car.speed / 3.6, // km/h to m/s
+    desiredSpeed: Math.min(car.desiredSpeed, getCarSpeedLimit(car, params)) / 3.6,
+    gap: leader && isFinite(distance) ? distance * 1000 - leader.length : Infinity, // bumper-to-bumper in meters
+    leaderSpeed: (leader?.speed ?? 0) / 3.6,
+    timeHeadway: car.timeHeadway ?? params.tDist,
+    dt: params.dt,
+  };
 
-  return accel;
+  const acceleration =
+    leader && isPlatooning(car, leader, distance, params)
+      ? caccAcceleration(
+          {
+            ...situation,
+            leaderAcceleration: leader.acceleration ?? 0,
+            timeHeadway: params.caccTimeGap ?? DEFAULT_CACC_TIME_GAP,
+          },
+          modelParams
+        )
+      : getCarFollowingModel(params.carFollowingModel).acceleration(situation, modelParams, rng);
+  return Math.max(acceleration, -MAX_DECELERATION);
 }
 
 // Find cars in adjacent lanes
 function findAdjacentCars(
   car: Car,
-  cars: Car[],
+  laneIndex: LaneIndex<Car>,
   laneLength: number,
   params: SimulationParams
 ): {
   leftLane: { leader?: Car; follower?: Car };
   rightLane: { leader?: Car; follower?: Car };
 } {
-  const result = {
-    leftLane: { leader: undefined, follower: undefined },
-    rightLane: { leader: undefined, follower: undefined },
-  };
-
-  // Check if left lane exists
-  if (car.lane > 0) {
-    const leftLaneCars = cars.filter((c) => c.lane === car.lane - 1);
-    if (leftLaneCars.length > 0) {
-      // Find leader and follower in left lane
-      const sortedLeftLaneCars = leftLaneCars.sort((a, b) => {
-        const distA = (a.position - car.position + laneLength) % laneLength;
-        const distB = (b.position - car.position + laneLength) % laneLength;
-        return distA - distB;
-      });
-
-      result.leftLane.leader = sortedLeftLaneCars.find(
-        (c) => (c.position - car.position + laneLength) % laneLength > 0
-      );
-      result.leftLane.follower = sortedLeftLaneCars.find(
-        (c) => (car.position - c.position + laneLength) % laneLength > 0
-      );
-    }
-  }
-
-  // Check if right lane exists
-  if (car.lane < params.numLanes - 1) {
-    const rightLaneCars = cars.filter((c) => c.lane === car.lane + 1);
-    if (rightLaneCars.length > 0) {
-      // Find leader and follower in right lane
-      const sortedRightLaneCars = rightLaneCars.sort((a, b) => {
-        const distA = (a.position - car.position + laneLength) % laneLength;
-        const distB = (b.position - car.position + laneLength) % laneLength;
-        return distA - distB;
-      });
-
-      result.rightLane.leader = sortedRightLaneCars.find(
-        (c) => (c.position - car.position + laneLength) % laneLength > 0
-      );
-      result.rightLane.follower = sortedRightLaneCars.find(
-        (c) => (car.position - c.position + laneLength) % laneLength > 0
-      );
-    }
-  }
+  const topology = params.roadTopology ?? "ring";
+  const neighbours = (lane: number) => ({
+    leader: laneIndex.findLeader(car.position, lane, laneLength, topology).leader,
+    follower: laneIndex.findFollower(car.position, lane, laneLength, topology).follower,
+  });
 
-  return result;
+  return {
+    // Check if left lane exists
+    leftLane: car.lane > 0 ? neighbours(car.lane - 1) : {},
+    // Check if right lane exists
+    rightLane: car.lane < params.numLanes - 1 ? neighbours(car.lane + 1) : {},
+  };
 }
 
-// Calculate MOBIL incentive for lane change
+// Calculate MOBIL incentive for lane change, using the car-following model's
+// accelerations (CACC ones between connected vehicles, so a connected car sees
+// the gain of joining a platoon and its connected follower the loss of being cut off)
 export function calculateLaneChangeIncentive(
   car: Car,
   currentLeader: Car | undefined,
@@ -842,62 +1461,38 @@ export function calculateLaneChangeIncentive(
 ): number {
   // Calculate current acceleration in current lane
   const currentGap = currentLeader
-    ? (currentLeader.position - car.position + laneLength) % laneLength
-    : laneLength;
-
-  const currentLeaderSpeed = currentLeader?.speed ?? params.maxSpeed;
+    ? forwardDistance(car.position, currentLeader.position, laneLength, params.roadTopology)
+    : Infinity;
 
-  const currentAccel = calculateAcceleration(
-    car,
-    currentGap,
-    currentLeaderSpeed,
-    params
-  );
+  const currentAccel = calculateAcceleration(car, currentGap, currentLeader, params);
 
   // Calculate acceleration in target lane
   const targetGap = targetLane.leader
-    ? (targetLane.leader.position - car.position + laneLength) % laneLength
-    : laneLength;
+    ? forwardDistance(car.position, targetLane.leader.position, laneLength, params.roadTopology)
+    : Infinity;
 
-  const targetLeaderSpeed = targetLane.leader?.speed ?? params.maxSpeed;
-
-  const targetAccel = calculateAcceleration(
-    car,
-    targetGap,
-    targetLeaderSpeed,
-    params
-  );
+  const targetAccel = calculateAcceleration(car, targetGap, targetLane.leader, params);
 
   // Calculate follower's acceleration change (impact on car behind)
   let followerAccelChange = 0;
   if (targetLane.follower) {
     const followerGapBefore =
-      (car.position - targetLane.follower.position + laneLength) % laneLength;
+      forwardDistance(targetLane.follower.position, car.position, laneLength, params.roadTopology);
 
     const followerGapAfter = targetLane.leader
-      ? (targetLane.leader.position - targetLane.follower.position + laneLength) % laneLength
-      : laneLength;
-
-    const followerAccelBefore = calculateAcceleration(
-      targetLane.follower,
-      followerGapBefore,
-      car.speed,
-      params
-    );
+      ? forwardDistance(targetLane.follower.position, targetLane.leader.position, laneLength, params.roadTopology)
+      : Infinity;
 
-    const followerAccelAfter = calculateAcceleration(
-      targetLane.follower,
-      followerGapAfter,
-      targetLeaderSpeed,
-      params
-    );
+    const followerAccelBefore = calculateAcceleration(targetLane.follower, followerGapBefore, car, params);
+
+    const followerAccelAfter = calculateAcceleration(targetLane.follower, followerGapAfter, targetLane.leader, params);
 
     followerAccelChange = followerAccelAfter - followerAccelBefore;
   }
 
   // Base MOBIL incentive calculation
   let incentive =
-    targetAccel - currentAccel + params.politenessFactor * followerAccelChange;
+    targetAccel - currentAccel + (car.politeness ?? params.politenessFactor) * followerAccelChange;
 
   // ✅ KEY ADDITION: Encourage lane change if current leader is stopped
   if (currentLeader && currentLeader.speed === 0) {
@@ -928,7 +1523,8 @@ function shouldChangeLane(
   params: SimulationParams,
   laneLength: number,
   currentTime: number,
-  trafficRule: "american" | "european"
+  trafficRule: "american" | "european",
+  rng: RandomStream
 ): { shouldChange: boolean; targetLane: number | null } {
   if (currentTime - car.lastLaneChange < params.laneChangeCooldown) {
     return { shouldChange: false, targetLane: null };
@@ -936,15 +1532,19 @@ function shouldChangeLane(
 
   const gapToLeader =
     currentLeader
-      ? (currentLeader.position - car.position + laneLength) % laneLength
+      ? forwardDistance(car.position, currentLeader.position, laneLength, params.roadTopology)
       : Infinity;
 
+  // Smooth car-following models match the leader's speed before a pass is
+  // considered, so a leader below our desired speed also counts as slower
   const slowerLeader = currentLeader &&
-    currentLeader.speed < car.speed - 2 &&
+    (currentLeader.speed < car.speed - 2 ||
+      currentLeader.speed < Math.min(car.desiredSpeed, getCarSpeedLimit(car, params)) - 2) &&
     gapToLeader < 500;
 
+  // Lanes the car's vehicle class or the lane rules keep it out of are never chosen
   const leftIncentive =
-    car.lane > 0
+    car.lane > 0 && canUseLane(car, car.lane - 1, params)
       ? calculateLaneChangeIncentive(
           car,
           currentLeader,
@@ -955,7 +1555,7 @@ function shouldChangeLane(
       : -Infinity;
 
   const rightIncentive =
-    car.lane < params.numLanes - 1
+    car.lane < params.numLanes - 1 && canUseLane(car, car.lane + 1, params)
       ? calculateLaneChangeIncentive(
           car,
           currentLeader,
@@ -968,6 +1568,13 @@ function shouldChangeLane(
   const adjustedLeft = leftIncentive * (1 - car.laneStickiness);
   const adjustedRight = rightIncentive * (1 - car.laneStickiness);
 
+  // Keep right except to pass: a compliant driver who is not passing moves
+  // right whenever that costs little; a non-compliant one never returns right
+  if (car.keepsRight && !slowerLeader && rightIncentive > -params.accelerationThreshold) {
+    return { shouldChange: true, targetLane: car.lane + 1 };
+  }
+  const returnsRight = car.keepsRight !== false;
+
   if (trafficRule === "american") {
     // American rules: prefer left-lane passing but allow right-lane passing
     // with lower probability and higher threshold
@@ -983,15 +1590,16 @@ function shouldChangeLane(
       car.lane < params.numLanes - 1 &&
       adjustedRight > params.accelerationThreshold * 1.2 && // Higher threshold for right
       slowerLeader &&
-      (car.lane === 0 || Math.random() > 0.9); // Much less likely to pass on right
+      (car.lane === 0 || rng.next() > 0.9); // Much less likely to pass on right
 
     // Check if we should return to right lane when not passing
     const rightLaneLeader = adjacentLanes.rightLane.leader;
     const canReturnRight =
+      returnsRight &&
       car.lane < params.numLanes - 1 &&
       (!rightLaneLeader ||
         (rightLaneLeader.speed >= car.speed &&
-          ((rightLaneLeader.position - car.position + laneLength) % laneLength > 300)));
+          (forwardDistance(car.position, rightLaneLeader.position, laneLength, params.roadTopology) > 300)));
 
     // Decision making with priority:
     // 1. Return to right lane when safe (if not passing)
@@ -1001,11 +1609,11 @@ function shouldChangeLane(
     if (canReturnRight && 
         !slowerLeader && // Not actively trying to pass
         adjustedRight > params.accelerationThreshold * 0.5 &&
-        Math.random() < car.laneChangeProbability) {
+        rng.next() < car.laneChangeProbability) {
       return { shouldChange: true, targetLane: car.lane + 1 };
-    } else if (shouldPassLeft && Math.random() < car.laneChangeProbability) {
+    } else if (shouldPassLeft && rng.next() < car.laneChangeProbability) {
       return { shouldChange: true, targetLane: car.lane - 1 };
-    } else if (shouldPassRight && Math.random() < car.laneChangeProbability * 0.5) {
+    } else if (shouldPassRight && rng.next() < car.laneChangeProbability * 0.5) {
       return { shouldChange: true, targetLane: car.lane + 1 };
     }
   } else {
@@ -1016,7 +1624,7 @@ function shouldChangeLane(
       car.lane > 0 && // Not already in leftmost lane
       adjustedLeft > params.accelerationThreshold * 0.7 && // Lower threshold for left
       slowerLeader &&
-      Math.random() < car.laneChangeProbability * 1.2 // Higher probability for left
+      rng.next() < car.laneChangeProbability * 1.2 // Higher probability for left
     ) {
       return { shouldChange: true, targetLane: car.lane - 1 };
     }
@@ -1024,17 +1632,18 @@ function shouldChangeLane(
     // Strong incentive to return to right lane after passing
     const rightLaneLeader = adjacentLanes.rightLane.leader;
     const canReturnRight =
+      returnsRight &&
       car.lane < params.numLanes - 1 &&
       (!rightLaneLeader ||
         (rightLaneLeader.speed >= car.speed * 0.9 && // More aggressive about returning right
-          ((rightLaneLeader.position - car.position + laneLength) % laneLength > 250)));
+          (forwardDistance(car.position, rightLaneLeader.position, laneLength, params.roadTopology) > 250)));
 
     // If not actively passing, try to return right
     if (
       canReturnRight &&
       (!slowerLeader || car.lane === 0) && // Either no slower leader or already in left lane
       adjustedRight > params.accelerationThreshold * 0.3 && // Lower threshold to return right
-      Math.random() < car.laneChangeProbability * 1.5 // Higher probability to return right
+      rng.next() < car.laneChangeProbability * 1.5 // Higher probability to return right
     ) {
       return { shouldChange: true, targetLane: car.lane + 1 };
     }
@@ -1055,23 +1664,28 @@ function shouldChangeLaneWithExitBehavior(
   laneLength: number,
   currentTime: number,
   trafficRule: "american" | "european",
-  shouldMoveToExitLane: boolean
+  shouldMoveToExitLane: boolean,
+  rng: RandomStream,
+  mandatoryLane?: number // lane the car has to reach: beside its off-ramp, or open past a closure ahead
 ): { shouldChange: boolean; targetLane: number | null } {
   if (currentTime - car.lastLaneChange < params.laneChangeCooldown) {
     return { shouldChange: false, targetLane: null };
   }
 
   const numLanes = params.numLanes || 1;
-  const isInExitLane = car.lane === 0 || car.lane === numLanes - 1; // leftmost or rightmost lane
+  const isInExitLane = mandatoryLane !== undefined
+    ? car.lane === mandatoryLane // lane beside the off-ramp or past the closure
+    : car.lane === 0 || car.lane === numLanes - 1; // leftmost or rightmost lane
 
   // If car needs to exit and is not in an exit lane, prioritize moving to exit lane
   if (shouldMoveToExitLane && !isInExitLane) {
-    // Prefer rightmost lane for American traffic, leftmost for European
-    const preferredExitLane = trafficRule === "american" ? numLanes - 1 : 0;
-    const alternativeExitLane = trafficRule === "american" ? 0 : numLanes - 1;
+    // Head for the required lane; without one prefer the rightmost lane for
+    // American traffic, leftmost for European
+    const preferredExitLane = mandatoryLane ?? (trafficRule === "american" ? numLanes - 1 : 0);
+    const alternativeExitLane = mandatoryLane ?? (trafficRule === "american" ? 0 : numLanes - 1);
     
     // Try preferred exit lane first
-    if (car.lane < preferredExitLane && adjacentLanes.rightLane.leader) {
+    if (car.lane < preferredExitLane) {
       const rightIncentive = calculateLaneChangeIncentive(
         car,
         currentLeader,
@@ -1082,7 +1696,7 @@ function shouldChangeLaneWithExitBehavior(
       if (rightIncentive > -0.5) { // Lower threshold for exit lane changes
         return { shouldChange: true, targetLane: car.lane + 1 };
       }
-    } else if (car.lane > preferredExitLane && adjacentLanes.leftLane.leader) {
+    } else if (car.lane > preferredExitLane) {
       const leftIncentive = calculateLaneChangeIncentive(
         car,
         currentLeader,
@@ -1096,7 +1710,7 @@ function shouldChangeLaneWithExitBehavior(
     }
     
     // Try alternative exit lane if preferred is not accessible
-    if (car.lane < alternativeExitLane && adjacentLanes.rightLane.leader) {
+    if (car.lane < alternativeExitLane) {
       const rightIncentive = calculateLaneChangeIncentive(
         car,
         currentLeader,
@@ -1107,7 +1721,7 @@ function shouldChangeLaneWithExitBehavior(
       if (rightIncentive > -0.3) {
         return { shouldChange: true, targetLane: car.lane + 1 };
       }
-    } else if (car.lane > alternativeExitLane && adjacentLanes.leftLane.leader) {
+    } else if (car.lane > alternativeExitLane) {
       const leftIncentive = calculateLaneChangeIncentive(
         car,
         currentLeader,
@@ -1122,5 +1736,5 @@ function shouldChangeLaneWithExitBehavior(
   }
 
   // Regular lane change logic for non-exiting cars
-  return shouldChangeLane(car, currentLeader, adjacentLanes, params, laneLength, currentTime, trafficRule);
+  return shouldChangeLane(car, currentLeader, adjacentLanes, params, laneLength, currentTime, trafficRule, rng);
 }
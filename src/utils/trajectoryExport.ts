@@ -0,0 +1,117 @@
+// Trajectory export modelled on the NGSIM vehicle trajectory data: one row
+// per vehicle and frame, with the leader, gap and headway worked out from the
+// recorded positions. Rows are produced one chunk at a time so a long run
+// never has to be held in memory as text.
+import { LaneIndex } from "./laneIndex";
+import type { RoadTopology } from "./roadTopology";
+import {
+  decodeChunk,
+  frameToCars,
+  type TrajectoryChunk,
+  type TrajectorySummary,
+} from "./trajectoryRecorder";
+
+export type TrajectoryExportFormat = "csv" | "ndjson";
+
+/**
+ * One exported sample, in SI units. Lanes count from 1 at the leftmost lane
+ * as in NGSIM. Fields without a value are null: the acceleration at a
+ * vehicle's first frame, and the leader, gap and headway of a vehicle with
+ * no one ahead (headway also when the vehicle stands still).
+ */
+export interface TrajectoryRow {
+  vehicle_id: number;
+  frame_id: number;
+  time: number; // s
+  position: number; // m from the start of the road, at the front of the vehicle
+  lane_id: number; // a left ramp is 0, a right ramp numLanes + 1
+  speed: number; // m/s
+  acceleration: number | null; // m/s², since the vehicle's previous frame
+  vehicle_class: string;
+  leader_id: number | null;
+  gap: number | null; // m, rear of the leader to the front of the vehicle
+  headway: number | null; // s, front-to-front spacing over the speed
+}
+
+export const TRAJECTORY_COLUMNS: (keyof TrajectoryRow)[] = [
+  "vehicle_id",
+  "frame_id",
+  "time",
+  "position",
+  "lane_id",
+  "speed",
+  "acceleration",
+  "vehicle_class",
+  "leader_id",
+  "gap",
+  "headway",
+];
+
+export const TRAJECTORY_MIME_TYPES: Record<TrajectoryExportFormat, string> = {
+  csv: "text/csv;charset=utf-8",
+  ndjson: "application/x-ndjson;charset=utf-8",
+};
+
+const round = (value: number, digits: number) => parseFloat(value.toFixed(digits));
+
+const formatRow = (row: TrajectoryRow, format: TrajectoryExportFormat): string =>
+  format === "ndjson"
+    ? JSON.stringify(row)
+    : TRAJECTORY_COLUMNS.map(column => row[column] ?? "").join(",");
+
+/**
+ * Write the recording as text through `write`, one call per chunk
+ * @param readChunk Loads chunk `index` of the recording
+ */
+export async function writeTrajectory(
+  summary: TrajectorySummary,
+  readChunk: (index: number) => Promise<TrajectoryChunk>,
+  topology: RoadTopology,
+  format: TrajectoryExportFormat,
+  write: (text: string) => Promise<void>
+): Promise<void> {
+  if (format === "csv") await write(TRAJECTORY_COLUMNS.join(",") + "\n");
+
+  const vehicles = new Map(summary.vehicles.map(vehicle => [vehicle.id, vehicle]));
+  const previousSpeeds = new Map<number, { time: number; speed: number }>(); // m/s, carried across chunks
+  let frameId = 0;
+
+  for (let c = 0; c < summary.chunkCount; c++) {
+    const lines: string[] = [];
+    decodeChunk(await readChunk(c)).forEach(frame => {
+      frameId++;
+      const cars = frameToCars(frame, vehicles);
+      const index = new LaneIndex(cars);
+      cars.forEach(car => {
+        const speed = car.speed / 3.6;
+        const previous = previousSpeeds.get(car.id);
+        previousSpeeds.set(car.id, { time: frame.time, speed });
+        const { leader, distance } = index.findLeader(car.position, car.lane, summary.laneLength, topology);
+        const spacing = distance * 1000; // m, front to front
+
+        lines.push(
+          formatRow(
+            {
+              vehicle_id: car.id,
+              frame_id: frameId,
+              time: round(frame.time, 3),
+              position: round(car.position * 1000, 1),
+              lane_id: car.lane + 1,
+              speed: round(speed, 2),
+              acceleration:
+                previous && frame.time > previous.time
+                  ? round((speed - previous.speed) / (frame.time - previous.time), 2)
+                  : null,
+              vehicle_class: car.vehicleType,
+              leader_id: leader ? leader.id : null,
+              gap: leader ? round(spacing - leader.length, 1) : null,
+              headway: leader && speed > 0 ? round(spacing / speed, 2) : null,
+            },
+            format
+          )
+        );
+      });
+    });
+    if (lines.length > 0) await write(lines.join("\n") + "\n");
+  }
+}
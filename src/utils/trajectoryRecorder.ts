@@ -0,0 +1,350 @@
+// Trajectory recording: samples every vehicle's position, speed and lane at a
+// fixed interval and packs the samples into chunks of typed arrays for
+// IndexedDB. Within a chunk each vehicle's position and speed are stored as
+// the change since its previous sample, in 16 and 8 bit integers; a change
+// too large for them, and a vehicle's first sample in the chunk, fall back to
+// a full value kept beside the changes. Every chunk decodes on its own, which
+// lets a replay jump to any time without reading the chunks before it.
+import type { Car } from "./trafficSimulation";
+
+export const DEFAULT_TRAJECTORY_INTERVAL = 1; // s
+
+// Samples one recording may hold, about 8 bytes each; recording stops at the
+// first frame that would go over, so a long run cannot exhaust the worker
+export const MAX_TRAJECTORY_SAMPLES = 5_000_000;
+
+// Frames per chunk; a chunk is the unit stored in and read from IndexedDB
+const FRAMES_PER_CHUNK = 120;
+
+// Fixed-point resolution of the stored values
+const POSITION_SCALE = 10000; // km to 0.1 m
+const SPEED_SCALE = 10; // km/h to 0.1 km/h
+
+// Stored in place of a change that does not fit; the value itself is the next
+// entry of the matching absolute array
+const POSITION_ESCAPE = -0x8000;
+const SPEED_ESCAPE = -0x80;
+
+// What stays the same about a vehicle for the whole run
+export interface TrajectoryVehicle {
+  id: number;
+  name: string;
+  color: string;
+  vehicleType: string;
+  driverType: string;
+  length: number; // m
+}
+
+/**
+ * Samples of up to FRAMES_PER_CHUNK consecutive frames. Frame f holds samples
+ * frameStarts[f] to frameStarts[f + 1] - 1 of the per-sample arrays.
+ */
+export interface TrajectoryChunk {
+  index: number; // position of the chunk in the recording
+  times: Float64Array; // s, one per frame
+  frameStarts: Uint32Array; // first sample of each frame, then the sample count
+  ids: Int32Array;
+  lanes: Int8Array; // ramp lanes are -1 and numLanes
+  positions: Int16Array; // 0.1 m since the vehicle's previous sample in the chunk, or POSITION_ESCAPE
+  absolutePositions: Int32Array; // 0.1 m, one per POSITION_ESCAPE, in sample order
+  speeds: Int8Array; // 0.1 km/h, encoded like positions
+  absoluteSpeeds: Int16Array;
+}
+
+// Everything about a recording except its chunks
+export interface TrajectorySummary {
+  interval: number; // s between frames
+  laneLength: number; // km
+  numLanes: number;
+  frameCount: number;
+  chunkCount: number;
+  startTime: number; // s, first frame
+  endTime: number; // s, last frame
+  truncated: boolean; // recording stopped at MAX_TRAJECTORY_SAMPLES before the run ended
+  vehicles: TrajectoryVehicle[];
+}
+
+export interface TrajectoryRecording {
+  summary: TrajectorySummary;
+  chunks: TrajectoryChunk[];
+}
+
+// The vehicles of one frame, decoded
+export interface TrajectoryFrame {
+  time: number; // s
+  ids: Int32Array;
+  lanes: Int8Array;
+  positions: Float64Array; // km
+  speeds: Float64Array; // km/h
+}
+
+// Samples of the chunk being filled, before they are packed
+interface OpenChunk {
+  times: number[];
+  frameStarts: number[];
+  ids: number[];
+  lanes: number[];
+  positions: number[];
+  absolutePositions: number[];
+  speeds: number[];
+  absoluteSpeeds: number[];
+  previous: Map<number, { position: number; speed: number }>; // last fixed-point values per vehicle
+}
+
+const createOpenChunk = (): OpenChunk => ({
+  times: [],
+  frameStarts: [],
+  ids: [],
+  lanes: [],
+  positions: [],
+  absolutePositions: [],
+  speeds: [],
+  absoluteSpeeds: [],
+  previous: new Map(),
+});
+
+const packChunk = (chunk: OpenChunk, index: number): TrajectoryChunk => ({
+  index,
+  times: Float64Array.from(chunk.times),
+  frameStarts: Uint32Array.from([...chunk.frameStarts, chunk.ids.length]),
+  ids: Int32Array.from(chunk.ids),
+  lanes: Int8Array.from(chunk.lanes),
+  positions: Int16Array.from(chunk.positions),
+  absolutePositions: Int32Array.from(chunk.absolutePositions),
+  speeds: Int8Array.from(chunk.speeds),
+  absoluteSpeeds: Int16Array.from(chunk.absoluteSpeeds),
+});
+
+// Append `value` as the change since `previous`, or escaped when that does not fit
+const pushEncoded = (
+  changes: number[],
+  absolutes: number[],
+  value: number,
+  previous: number | undefined,
+  escape: number
+): void => {
+  const change = previous === undefined ? escape : value - previous;
+  if (change > escape && change < -escape) {
+    changes.push(change);
+  } else {
+    changes.push(escape);
+    absolutes.push(value);
+  }
+};
+
+// Count of `escape` markers among the first `length` entries of `changes`
+const countEscapes = (changes: Int8Array | Int16Array, length: number, escape: number): number => {
+  let count = 0;
+  for (let i = 0; i < length; i++) if (changes[i] === escape) count++;
+  return count;
+};
+
+/**
+ * Collects the frames of one run. It draws no random numbers and never
+ * changes the cars, so recording does not affect the simulation.
+ */
+export class TrajectoryRecorder {
+  private interval = 0;
+  private laneLength = 0;
+  private numLanes = 1;
+  private nextSampleTime = 0;
+  private frameCount = 0;
+  private sampleCount = 0;
+  private truncated = false;
+  private startTime = 0;
+  private endTime = 0;
+  private chunks: TrajectoryChunk[] = [];
+  private open = createOpenChunk();
+  private vehicles = new Map<number, TrajectoryVehicle>();
+
+  /**
+   * Discard the frames and start a new recording
+   * @param interval Seconds between frames; 0 records nothing
+   * @param startTime Time of the first frame
+   */
+  reset(interval: number, laneLength: number, numLanes: number, startTime = 0): void {
+    this.interval = interval;
+    this.laneLength = laneLength;
+    this.numLanes = numLanes;
+    this.nextSampleTime = startTime;
+    this.frameCount = 0;
+    this.sampleCount = 0;
+    this.truncated = false;
+    this.startTime = startTime;
+    this.endTime = startTime;
+    this.chunks = [];
+    this.open = createOpenChunk();
+    this.vehicles = new Map();
+  }
+
+  isRecording(): boolean {
+    return this.interval > 0;
+  }
+
+  /**
+   * Add a frame of `cars` when the next sample is due
+   * @returns Whether a frame was added
+   */
+  record(cars: Car[], time: number): boolean {
+    if (this.interval <= 0 || this.truncated || time < this.nextSampleTime - 1e-9) return false;
+    if (this.sampleCount + cars.length > MAX_TRAJECTORY_SAMPLES) {
+      this.truncated = true;
+      return false;
+    }
+    // Stay on the interval grid however the step size divides it
+    this.nextSampleTime += Math.max(1, Math.floor((time - this.nextSampleTime) / this.interval) + 1) * this.interval;
+
+    const chunk = this.open;
+    if (this.frameCount === 0) this.startTime = time;
+    chunk.times.push(time);
+    chunk.frameStarts.push(chunk.ids.length);
+    cars.forEach(car => {
+      if (!this.vehicles.has(car.id)) {
+        this.vehicles.set(car.id, {
+          id: car.id,
+          name: car.name,
+          color: car.color,
+          vehicleType: car.vehicleType,
+          driverType: car.driverType,
+          length: car.length,
+        });
+      }
+      const position = Math.round(car.position * POSITION_SCALE);
+      const speed = Math.round(car.speed * SPEED_SCALE);
+      const previous = chunk.previous.get(car.id);
+      chunk.ids.push(car.id);
+      chunk.lanes.push(car.lane);
+      pushEncoded(chunk.positions, chunk.absolutePositions, position, previous?.position, POSITION_ESCAPE);
+      pushEncoded(chunk.speeds, chunk.absoluteSpeeds, speed, previous?.speed, SPEED_ESCAPE);
+      chunk.previous.set(car.id, { position, speed });
+    });
+
+    this.frameCount++;
+    this.sampleCount += cars.length;
+    this.endTime = time;
+    if (chunk.times.length === FRAMES_PER_CHUNK) {
+      this.chunks.push(packChunk(chunk, this.chunks.length));
+      this.open = createOpenChunk();
+    }
+    return true;
+  }
+
+  // Everything about the recording so far except its chunks
+  getSummary(): TrajectorySummary {
+    return {
+      interval: this.interval,
+      laneLength: this.laneLength,
+      numLanes: this.numLanes,
+      frameCount: this.frameCount,
+      chunkCount: Math.ceil(this.frameCount / FRAMES_PER_CHUNK),
+      startTime: this.startTime,
+      endTime: this.endTime,
+      truncated: this.truncated,
+      vehicles: [...this.vehicles.values()],
+    };
+  }
+
+  /**
+   * Chunk `index` cut off after the first `frameCount` frames of the
+   * recording, so it matches a summary taken while recording went on
+   * @returns undefined when the recording no longer holds those frames
+   */
+  getChunk(index: number, frameCount = this.frameCount): TrajectoryChunk | undefined {
+    if (frameCount > this.frameCount) return undefined;
+    const chunk =
+      index < this.chunks.length
+        ? this.chunks[index]
+        : index === this.chunks.length && this.open.times.length > 0
+          ? packChunk(this.open, index)
+          : undefined;
+    const frames = Math.min(chunk?.times.length ?? 0, frameCount - index * FRAMES_PER_CHUNK);
+    if (!chunk || frames <= 0) return undefined;
+    if (frames === chunk.times.length) return chunk;
+
+    const samples = chunk.frameStarts[frames];
+    return {
+      index,
+      times: chunk.times.slice(0, frames),
+      frameStarts: chunk.frameStarts.slice(0, frames + 1),
+      ids: chunk.ids.slice(0, samples),
+      lanes: chunk.lanes.slice(0, samples),
+      positions: chunk.positions.slice(0, samples),
+      absolutePositions: chunk.absolutePositions.slice(0, countEscapes(chunk.positions, samples, POSITION_ESCAPE)),
+      speeds: chunk.speeds.slice(0, samples),
+      absoluteSpeeds: chunk.absoluteSpeeds.slice(0, countEscapes(chunk.speeds, samples, SPEED_ESCAPE)),
+    };
+  }
+
+  // The frames so far, including the chunk still being filled
+  getRecording(): TrajectoryRecording {
+    const summary = this.getSummary();
+    const chunks: TrajectoryChunk[] = [];
+    for (let i = 0; i < summary.chunkCount; i++) chunks.push(this.getChunk(i)!);
+    return { summary, chunks };
+  }
+}
+
+// Every frame of a chunk, in time order
+export function decodeChunk(chunk: TrajectoryChunk): TrajectoryFrame[] {
+  const previous = new Map<number, { position: number; speed: number }>();
+  const frames: TrajectoryFrame[] = [];
+  let nextPosition = 0; // next unread entry of the absolute arrays
+  let nextSpeed = 0;
+
+  for (let f = 0; f < chunk.times.length; f++) {
+    const start = chunk.frameStarts[f];
+    const end = chunk.frameStarts[f + 1];
+    const frame: TrajectoryFrame = {
+      time: chunk.times[f],
+      ids: chunk.ids.slice(start, end),
+      lanes: chunk.lanes.slice(start, end),
+      positions: new Float64Array(end - start),
+      speeds: new Float64Array(end - start),
+    };
+    for (let i = start; i < end; i++) {
+      const id = chunk.ids[i];
+      const last = previous.get(id);
+      const position =
+        chunk.positions[i] === POSITION_ESCAPE ? chunk.absolutePositions[nextPosition++] : last!.position + chunk.positions[i];
+      const speed = chunk.speeds[i] === SPEED_ESCAPE ? chunk.absoluteSpeeds[nextSpeed++] : last!.speed + chunk.speeds[i];
+      previous.set(id, { position, speed });
+      frame.positions[i - start] = position / POSITION_SCALE;
+      frame.speeds[i - start] = speed / SPEED_SCALE;
+    }
+    frames.push(frame);
+  }
+  return frames;
+}
+
+// Chunk and frame within it of frame number `frame` of a recording
+export const locateFrame = (frame: number): { chunk: number; offset: number } => ({
+  chunk: Math.floor(frame / FRAMES_PER_CHUNK),
+  offset: frame % FRAMES_PER_CHUNK,
+});
+
+/**
+ * Cars of a decoded frame for TrafficTrack. Only position, speed and lane
+ * were recorded; the driver settings a renderer does not need are left neutral.
+ */
+export function frameToCars(frame: TrajectoryFrame, vehicles: Map<number, TrajectoryVehicle>): Car[] {
+  return Array.from(frame.ids, (id, i) => {
+    const vehicle = vehicles.get(id);
+    return {
+      id,
+      name: vehicle?.name ?? `Car ${id + 1}`,
+      position: frame.positions[i],
+      speed: frame.speeds[i],
+      desiredSpeed: frame.speeds[i],
+      color: vehicle?.color ?? "hsl(220, 9%, 60%)",
+      virtualLength: vehicle?.length ?? 0,
+      distTripPlanned: 0,
+      distanceTraveled: 0,
+      lane: frame.lanes[i],
+      driverType: vehicle?.driverType ?? "",
+      laneChangeProbability: 0,
+      laneStickiness: 0,
+      vehicleType: vehicle?.vehicleType ?? "car",
+      length: vehicle?.length ?? 0,
+    };
+  });
+}
@@ -0,0 +1,122 @@
+// Vehicle classes: the size and driving performance of each kind of vehicle.
+// Cars carry the id of their class; the registry lives in the simulation
+// parameters so users can edit the built-in classes and add their own.
+
+// Icons the track can draw a vehicle with
+export type VehicleIcon = "car" | "truck" | "bus" | "van" | "motorcycle" | "electric" | "automated";
+
+export const vehicleIcons: VehicleIcon[] = ["car", "truck", "bus", "van", "motorcycle", "electric", "automated"];
+
+// Class that params.cavPenetration draws connected automated vehicles from
+export const CAV_CLASS_ID = "cav";
+
+export interface VehicleClass {
+  id: string;
+  name: string;
+  length: number; // physical length in meters
+  maxAcceleration?: number; // m/s², the car-following model setting when omitted
+  comfortableDeceleration?: number; // m/s², params.aMax when omitted
+  desiredSpeedFactor: number; // scales the mean desired speed
+  allowedLanes?: number[]; // lanes (0 = leftmost) the class may use; every lane when omitted or empty
+  cacc?: boolean; // connected: platoons behind other connected vehicles with cooperative adaptive cruise control
+  icon: VehicleIcon;
+}
+
+// Built-in classes. Passenger cars follow the car-following model settings;
+// the others override acceleration and braking with typical values.
+export const defaultVehicleClasses: VehicleClass[] = [
+  { id: "car", name: "Car", length: 4.5, desiredSpeedFactor: 1, icon: "car" },
+  {
+    id: "truck",
+    name: "Truck",
+    length: 7.5,
+    maxAcceleration: 0.8,
+    comfortableDeceleration: 1.2,
+    desiredSpeedFactor: 0.9,
+    icon: "truck",
+  },
+  {
+    id: "motorcycle",
+    name: "Motorcycle",
+    length: 2.4,
+    maxAcceleration: 2,
+    comfortableDeceleration: 2,
+    desiredSpeedFactor: 1.1,
+    icon: "motorcycle",
+  },
+  {
+    id: "bus",
+    name: "Bus",
+    length: 12,
+    maxAcceleration: 0.7,
+    comfortableDeceleration: 1.2,
+    desiredSpeedFactor: 0.85,
+    icon: "bus",
+  },
+  {
+    id: "semi",
+    name: "Semi-trailer",
+    length: 16.5,
+    maxAcceleration: 0.5,
+    comfortableDeceleration: 1,
+    desiredSpeedFactor: 0.8,
+    icon: "truck",
+  },
+  {
+    id: "van",
+    name: "Van",
+    length: 5.5,
+    maxAcceleration: 0.9,
+    comfortableDeceleration: 1.5,
+    desiredSpeedFactor: 0.95,
+    icon: "van",
+  },
+  {
+    id: "ev",
+    name: "Electric car",
+    length: 4.7,
+    maxAcceleration: 1.5,
+    comfortableDeceleration: 1.5,
+    desiredSpeedFactor: 1,
+    icon: "electric",
+  },
+  {
+    id: CAV_CLASS_ID,
+    name: "Connected automated",
+    length: 4.5,
+    desiredSpeedFactor: 1,
+    cacc: true,
+    icon: "automated",
+  },
+];
+
+// Lookup tables per registry: classes are read for every car several times a
+// step, and registries are replaced rather than mutated
+const registryCache = new WeakMap<VehicleClass[], Map<string, VehicleClass>>();
+
+/**
+ * Class with the given id. Unknown ids (a class removed from the registry,
+ * or a car from an older save) fall back to the built-in class of that id,
+ * then to the first class.
+ */
+export function getVehicleClass(id: string, classes: VehicleClass[] = defaultVehicleClasses): VehicleClass {
+  let byId = registryCache.get(classes);
+  if (!byId) {
+    byId = new Map(classes.map(vehicleClass => [vehicleClass.id, vehicleClass]));
+    registryCache.set(classes, byId);
+  }
+  return (
+    byId.get(id) ??
+    defaultVehicleClasses.find(vehicleClass => vehicleClass.id === id) ??
+    classes[0] ??
+    defaultVehicleClasses[0]
+  );
+}
+
+// Whether a vehicle of this class may drive in `lane`. Ramp lanes (-1 and
+// numLanes) are open to everyone: vehicles have to get on and off the road.
+export function isLaneAllowed(vehicleClass: VehicleClass, lane: number, numLanes: number): boolean {
+  if (lane < 0 || lane >= numLanes) return true;
+  const { allowedLanes } = vehicleClass;
+  return !allowedLanes || allowedLanes.length === 0 || allowedLanes.includes(lane);
+}
@@ -0,0 +1,30 @@
+// Batch worker: runs imported simulations headless, one request at a time,
+// so long batches never block the page or the live simulation worker.
+import { SimulationEngine } from "@/utils/simulationEngine";
+import type { BatchCommand, BatchMessage } from "./batchProtocol";
+
+self.addEventListener("message", (event: MessageEvent<BatchCommand>) => {
+  const { requestId, params, trafficRule, duration } = event.data;
+  let message: BatchMessage;
+  let transfer: Transferable[] = [];
+  try {
+    const engine = new SimulationEngine(params, { trafficRule });
+    engine.runUntil(duration);
+    const trajectory = engine.getTrajectory();
+    message = { type: "result", requestId, state: engine.getState(), snapshot: engine.saveSnapshot(), trajectory };
+    // The engine is discarded, so its trajectory buffers can move instead of being copied
+    transfer = trajectory.chunks.flatMap(chunk => [
+      chunk.times.buffer,
+      chunk.frameStarts.buffer,
+      chunk.ids.buffer,
+      chunk.lanes.buffer,
+      chunk.positions.buffer,
+      chunk.absolutePositions.buffer,
+      chunk.speeds.buffer,
+      chunk.absoluteSpeeds.buffer,
+    ]);
+  } catch (error) {
+    message = { type: "failed", requestId, error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(message, { transfer });
+});
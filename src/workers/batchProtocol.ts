@@ -0,0 +1,25 @@
+// Messages exchanged between the page and the batch worker
+import type { SimulationParams } from "@/utils/trafficSimulation";
+import type { SimulationEngineSnapshot, SimulationEngineState, TrafficRule } from "@/utils/simulationEngine";
+import type { TrajectoryRecording } from "@/utils/trajectoryRecorder";
+
+// Page to worker: run one simulation headless until `duration` seconds
+export interface BatchCommand {
+  type: "run";
+  requestId: number;
+  params: SimulationParams;
+  trafficRule: TrafficRule;
+  duration: number;
+}
+
+// What a finished batch run leaves behind for saving
+export interface BatchResult {
+  state: SimulationEngineState;
+  snapshot: SimulationEngineSnapshot;
+  trajectory: TrajectoryRecording;
+}
+
+// Worker to page
+export type BatchMessage =
+  | ({ type: "result"; requestId: number } & BatchResult)
+  | { type: "failed"; requestId: number; error: string };
@@ -0,0 +1,163 @@
+// Simulation worker: runs the engine off the main thread so large scenarios
+// do not block rendering. The page drives it with SimulationCommand messages
+// and receives at most one frame per painted frame.
+import { SimulationEngine } from "@/utils/simulationEngine";
+import { defaultParams, type SimulationEvent } from "@/utils/trafficSimulation";
+import { SnapshotEncoder } from "@/utils/simulationSnapshot";
+import type { SimulationCommand, SimulationMessage } from "./simulationProtocol";
+
+// Wall-clock time between engine advances while running (ms)
+const TICK_INTERVAL_MS = 16;
+
+const engine = new SimulationEngine(defaultParams);
+const encoder = new SnapshotEncoder();
+
+let running = false;
+let timer: ReturnType<typeof setTimeout> | null = null;
+let lastTick: number | null = null;
+let pageReady = true; // the page has shown the last frame
+let framePending = false; // something changed while the page was busy
+let pendingEvents: SimulationEvent[] = [];
+let historiesChanged = true;
+
+engine.subscribe({
+  onEvents: events => {
+    pendingEvents.push(...events);
+  },
+  onMetrics: () => {
+    historiesChanged = true;
+  },
+});
+
+const post = (message: SimulationMessage, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+// Send the current state, or hold it back until the page has shown the last frame
+function postFrame(): void {
+  if (!pageReady) {
+    framePending = true;
+    return;
+  }
+  const state = engine.getState();
+  const { snapshot, transfer } = encoder.encode(engine.getRenderCars());
+  post(
+    {
+      type: "frame",
+      cars: snapshot,
+      laneLength: state.laneLength,
+      elapsedTime: state.elapsedTime,
+      laneChanges: state.laneChanges,
+      rejectedLaneChanges: state.rejectedLaneChanges,
+      randomSlowdowns: state.randomSlowdowns,
+      stoppedCars: [...state.stoppedCars],
+      events: pendingEvents,
+      histories: historiesChanged ? state.histories : undefined,
+      safety: historiesChanged ? state.safety : undefined,
+      finished: engine.isFinished(),
+    },
+    transfer
+  );
+  pendingEvents = [];
+  historiesChanged = false;
+  pageReady = false;
+  framePending = false;
+}
+
+function tick(): void {
+  timer = null;
+  if (!running) return;
+
+  const now = performance.now();
+  if (lastTick !== null) {
+    engine.advance((now - lastTick) / 1000);
+  }
+  lastTick = now;
+  if (engine.isFinished()) running = false;
+
+  postFrame();
+  if (running) timer = setTimeout(tick, TICK_INTERVAL_MS);
+}
+
+function pause(): void {
+  running = false;
+  if (timer !== null) {
+    clearTimeout(timer);
+    timer = null;
+  }
+}
+
+self.addEventListener("message", (event: MessageEvent<SimulationCommand>) => {
+  const command = event.data;
+  switch (command.type) {
+    case "init":
+      // A restart also stops the run, like resetting on the page
+      pause();
+      engine.init(command.params);
+      encoder.reset();
+      pendingEvents = [];
+      historiesChanged = true;
+      postFrame();
+      break;
+    case "run":
+      if (!running) {
+        running = true;
+        lastTick = null;
+        tick();
+      }
+      break;
+    case "pause":
+      pause();
+      break;
+    case "setSimulationSpeed":
+      engine.setSimulationSpeed(command.simulationSpeed);
+      break;
+    case "setTrafficRule":
+      engine.setTrafficRule(command.trafficRule);
+      break;
+    case "stopCar":
+      engine.stopCar(command.carId);
+      postFrame();
+      break;
+    case "resumeCar":
+      engine.resumeCar(command.carId);
+      postFrame();
+      break;
+    case "frameShown":
+      pageReady = true;
+      if (framePending) postFrame();
+      break;
+    case "getState":
+      post({ type: "state", requestId: command.requestId, state: engine.getState() });
+      break;
+    case "saveSnapshot":
+      post({ type: "snapshot", requestId: command.requestId, snapshot: engine.saveSnapshot() });
+      break;
+    case "getTrajectory":
+      post({ type: "trajectory", requestId: command.requestId, recording: engine.getTrajectory() });
+      break;
+    case "getTrajectorySummary":
+      post({ type: "trajectorySummary", requestId: command.requestId, summary: engine.getTrajectorySummary() });
+      break;
+    case "getTrajectoryChunk":
+      post({
+        type: "trajectoryChunk",
+        requestId: command.requestId,
+        chunk: engine.getTrajectoryChunk(command.index, command.frameCount) ?? null,
+      });
+      break;
+    case "restoreSnapshot":
+      pause();
+      try {
+        engine.restoreSnapshot(command.snapshot);
+      } catch (error) {
+        post({ type: "restoreFailed", error: error instanceof Error ? error.message : String(error) });
+        break;
+      }
+      encoder.reset();
+      pendingEvents = [];
+      historiesChanged = true;
+      postFrame();
+      break;
+  }
+});
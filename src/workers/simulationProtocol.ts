@@ -0,0 +1,49 @@
+// Messages exchanged between the page and the simulation worker
+import type { SimulationEvent, SimulationParams } from "@/utils/trafficSimulation";
+import type { SimulationEngineSnapshot, SimulationEngineState, TrafficRule } from "@/utils/simulationEngine";
+import type { TrajectoryChunk, TrajectoryRecording, TrajectorySummary } from "@/utils/trajectoryRecorder";
+import type { SimulationHistories } from "@/utils/simulationMetrics";
+import type { SafetySummary } from "@/utils/safetyMetrics";
+import type { CarSnapshot } from "@/utils/simulationSnapshot";
+
+// Page to worker
+export type SimulationCommand =
+  | { type: "init"; params: SimulationParams } // every parameter change restarts the run
+  | { type: "run" }
+  | { type: "pause" }
+  | { type: "setSimulationSpeed"; simulationSpeed: number }
+  | { type: "setTrafficRule"; trafficRule: TrafficRule }
+  | { type: "stopCar"; carId: number }
+  | { type: "resumeCar"; carId: number }
+  | { type: "frameShown" } // the page drew the last frame and can take the next
+  | { type: "getState"; requestId: number }
+  | { type: "saveSnapshot"; requestId: number }
+  | { type: "getTrajectory"; requestId: number }
+  | { type: "getTrajectorySummary"; requestId: number }
+  | { type: "getTrajectoryChunk"; requestId: number; index: number; frameCount: number }
+  | { type: "restoreSnapshot"; snapshot: SimulationEngineSnapshot }; // the restored run is paused
+
+// Worker to page
+export interface SimulationFrame {
+  type: "frame";
+  cars: CarSnapshot; // interpolated for rendering
+  laneLength: number;
+  elapsedTime: number;
+  laneChanges: number;
+  rejectedLaneChanges: number;
+  randomSlowdowns: number;
+  stoppedCars: number[];
+  events: SimulationEvent[]; // emitted since the previous frame
+  histories?: SimulationHistories; // only after a new metrics sample
+  safety?: SafetySummary; // sent along with the histories
+  finished: boolean;
+}
+
+export type SimulationMessage =
+  | SimulationFrame
+  | { type: "state"; requestId: number; state: SimulationEngineState }
+  | { type: "snapshot"; requestId: number; snapshot: SimulationEngineSnapshot }
+  | { type: "trajectory"; requestId: number; recording: TrajectoryRecording }
+  | { type: "trajectorySummary"; requestId: number; summary: TrajectorySummary }
+  | { type: "trajectoryChunk"; requestId: number; chunk: TrajectoryChunk | null } // null once the run restarted
+  | { type: "restoreFailed"; error: string };